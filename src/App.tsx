@@ -1,24 +1,72 @@
-import { BrowserRouter, Routes, Route, Link } from 'react-router-dom'
+import { BrowserRouter, Routes, Route, Link, Navigate } from 'react-router-dom'
 import { ChainProvider } from '@cosmos-kit/react'
 import { SignerOptions } from '@cosmos-kit/core'
 import { Chain } from '@chain-registry/types'
 import { GasPrice } from '@cosmjs/stargate'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, ComponentType, ReactElement } from 'react'
 import ValidatorRegistrationPage from './pages/ValidatorRegistrationPage'
 import ValidatorEditPage from './pages/ValidatorEditPage'
 import DelegationPage from './pages/DelegationPage'
 import ValidatorStatusPage from './pages/ValidatorStatusPage'
 import OrchestratorRegistrationPage from './pages/OrchestratorRegistrationPage'
 import UnjailPage from './pages/UnjailPage'
-import { getInjectiveChainConfig } from './config/chains'
+import RewardsPage from './pages/RewardsPage'
+import GovernancePage from './pages/GovernancePage'
+import AuthzPage from './pages/AuthzPage'
+import OfflineSigningPage from './pages/OfflineSigningPage'
+import MultisigPage from './pages/MultisigPage'
+import { getChainConfig, getInjectiveChainConfig, INJ_GAS_PRICES } from './config/chains'
+import { RouteKey, resolveBrandingAsset } from './config/branding'
 import { WalletConnect } from './components/WalletConnect'
+import { NetworkSelector } from './components/NetworkSelector'
+import { StatusNavLink } from './components/StatusNavLink'
+import { GovernanceNavLink } from './components/GovernanceNavLink'
 import { ErrorBoundary } from './components/ErrorBoundary'
-import { NetworkProvider, useNetwork } from './contexts/NetworkContext'
+import { NetworkProvider, NetworkUrlSync, useNetwork } from './contexts/NetworkContext'
+import { BrandingProvider, useBranding } from './contexts/BrandingContext'
+import { OfflineModeProvider } from './contexts/OfflineModeContext'
 import './App.css'
 
+interface AppRoute {
+  key: RouteKey
+  path: string
+  label: string
+  element: ReactElement
+  // Extra route matched next to `path`, e.g. '/delegation/:valoper'
+  paramPath?: string
+}
+
+// Navigation order; each route can be switched off in branding.json
+const APP_ROUTES: AppRoute[] = [
+  { key: 'register', path: '/register', label: 'Register Validator', element: <ValidatorRegistrationPage /> },
+  { key: 'orchestrator', path: '/orchestrator', label: 'Register Orchestrator', element: <OrchestratorRegistrationPage /> },
+  { key: 'edit', path: '/edit', label: 'Edit Validator', element: <ValidatorEditPage /> },
+  {
+    key: 'delegation',
+    path: '/delegation',
+    paramPath: '/delegation/:valoper',
+    label: 'Delegation',
+    element: <DelegationPage />,
+  },
+  { key: 'unjail', path: '/unjail', label: 'Unjail', element: <UnjailPage /> },
+  { key: 'rewards', path: '/rewards', label: 'Rewards', element: <RewardsPage /> },
+  { key: 'governance', path: '/governance', label: 'Governance', element: <GovernancePage /> },
+  { key: 'authz', path: '/authz', label: 'Authz', element: <AuthzPage /> },
+  { key: 'offline', path: '/offline', label: 'Offline Signing', element: <OfflineSigningPage /> },
+  { key: 'multisig', path: '/multisig', label: 'Multisig', element: <MultisigPage /> },
+  { key: 'status', path: '/status', label: 'Status', element: <ValidatorStatusPage /> },
+]
+
+// Nav links that show live validator state instead of a plain label
+const NAV_LINKS: Partial<Record<RouteKey, ComponentType<{ to: string; label: string }>>> = {
+  status: StatusNavLink,
+  governance: GovernanceNavLink,
+}
+
 function AppContent() {
   console.log('App: Component rendering')
-  const { network } = useNetwork()
+  const { network, networks, customNetworks, setNetwork, addCustomNetwork, removeCustomNetwork } = useNetwork()
+  const { branding } = useBranding()
   const [wallets, setWallets] = useState<any[]>([])
   const [walletsLoading, setWalletsLoading] = useState(true)
   
@@ -89,6 +137,9 @@ function AppContent() {
     console.log('App: Getting chain config for network:', network)
     const injectiveChain = getInjectiveChainConfig(network)
     console.log('App: Chain config:', injectiveChain)
+    const chainConfig = getChainConfig(network)
+    const enabledRoutes = APP_ROUTES.filter((route) => branding.routes[route.key])
+    const registerRoute = enabledRoutes.find((route) => route.key === 'register')
     
     if (walletsLoading) {
       return (
@@ -106,7 +157,7 @@ function AppContent() {
         const chainName = typeof chain === 'string' ? chain : chain.chain_name
         if (chainName === 'injective') {
           return {
-            gasPrice: GasPrice.fromString('500000000inj'), // 0.5 INJ per gas unit
+            gasPrice: GasPrice.fromString(`${INJ_GAS_PRICES.average}inj`),
           } as any
         }
         return undefined
@@ -140,44 +191,66 @@ function AppContent() {
             isLazy: true, // Skip endpoint validation to avoid "All promises were rejected" errors
             endpoints: {
               injective: {
-                rpc: network === 'mainnet' 
-                  ? ['https://rpc.injective-main-eu1.ccvalidators.com:443']
-                  : ['https://testnet.tm.injective.dev'],
-                rest: network === 'mainnet'
-                  ? ['https://rest.injective-main-eu1.ccvalidators.com:443']
-                  : ['https://testnet.lcd.injective.dev'],
+                rpc: chainConfig.rpc,
+                rest: chainConfig.rest,
                 isLazy: true,
               },
             },
           }}
         >
           <BrowserRouter basename={import.meta.env.BASE_URL}>
+            <NetworkUrlSync />
             <div className="app">
               <nav className="navigation">
                 <Link to="/" className="logo-link">
-                  <img src={`${import.meta.env.BASE_URL}ccvalidators_logo.png`} alt="CryptoCrew Validators" className="logo-image" />
+                  <img src={resolveBrandingAsset(branding.logo.src)} alt={branding.logo.alt} className="logo-image" />
                 </Link>
-                <Link to="/">Register Validator</Link>
-                <Link to="/orchestrator">Register Orchestrator</Link>
-                <Link to="/edit">Edit Validator</Link>
-                <Link to="/delegation">Delegation</Link>
-                <Link to="/unjail">Unjail</Link>
-                <Link to="/status">Status</Link>
+                {enabledRoutes.map((route) => {
+                  const NavLink = NAV_LINKS[route.key]
+                  return NavLink
+                    ? <NavLink key={route.key} to={route.path} label={route.label} />
+                    : <Link key={route.key} to={route.key === 'register' ? '/' : route.path}>{route.label}</Link>
+                })}
                 <div className="wallet-section">
+                  <NetworkSelector
+                    network={network}
+                    networks={networks}
+                    customNetworks={customNetworks}
+                    onNetworkChange={setNetwork}
+                    onAddCustomNetwork={addCustomNetwork}
+                    onRemoveCustomNetwork={removeCustomNetwork}
+                  />
                   <WalletConnect />
                 </div>
               </nav>
               <main className="main-content">
                 <Routes>
-                  <Route path="/" element={<ValidatorRegistrationPage />} />
-                  <Route path="/register" element={<ValidatorRegistrationPage />} />
-                  <Route path="/orchestrator" element={<OrchestratorRegistrationPage />} />
-                  <Route path="/edit" element={<ValidatorEditPage />} />
-                  <Route path="/delegation" element={<DelegationPage />} />
-                  <Route path="/unjail" element={<UnjailPage />} />
-                  <Route path="/status" element={<ValidatorStatusPage />} />
+                  <Route
+                    path="/"
+                    element={registerRoute
+                      ? registerRoute.element
+                      : enabledRoutes.length > 0 && <Navigate to={enabledRoutes[0].path} replace />}
+                  />
+                  {enabledRoutes.map((route) => (
+                    <Route key={route.key} path={route.path} element={route.element} />
+                  ))}
+                  {enabledRoutes.filter((route) => route.paramPath).map((route) => (
+                    <Route key={`${route.key}-param`} path={route.paramPath} element={route.element} />
+                  ))}
                 </Routes>
               </main>
+              <footer className="app-footer">
+                <span className="app-footer-operator">{branding.operatorName}</span>
+                {branding.footerLinks.length > 0 && (
+                  <nav className="app-footer-links">
+                    {branding.footerLinks.map((link) => (
+                      <a key={link.url} href={link.url} target="_blank" rel="noopener noreferrer">
+                        {link.label}
+                      </a>
+                    ))}
+                  </nav>
+                )}
+              </footer>
             </div>
           </BrowserRouter>
         </ChainProvider>
@@ -199,9 +272,13 @@ function AppContent() {
 
 function App() {
   return (
-    <NetworkProvider>
-      <AppContent />
-    </NetworkProvider>
+    <BrandingProvider>
+      <NetworkProvider>
+        <OfflineModeProvider>
+          <AppContent />
+        </OfflineModeProvider>
+      </NetworkProvider>
+    </BrandingProvider>
   )
 }
 
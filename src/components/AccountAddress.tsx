@@ -0,0 +1,24 @@
+import { getAddressForms } from '../utils/address'
+
+interface AccountAddressProps {
+  // inj bech32 or 0x form
+  address: string
+  // Form shown first; the other one is shown below it
+  primary?: 'injective' | 'ethereum'
+  className?: string
+}
+
+/**
+ * An account address in both its inj and 0x forms
+ */
+export function AccountAddress({ address, primary = 'injective', className = '' }: AccountAddressProps) {
+  const forms = getAddressForms(address)
+  const secondary = primary === 'injective' ? 'ethereum' : 'injective'
+
+  return (
+    <span className={`info-value address-value ${className}`}>
+      {forms ? forms[primary] : address}
+      {forms && <span className="address-alt">{forms[secondary]}</span>}
+    </span>
+  )
+}
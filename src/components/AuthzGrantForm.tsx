@@ -0,0 +1,125 @@
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { authzGrantSchema, AuthzGrantFormData } from '../utils/validation'
+import { AUTHZ_PRESETS, STAKE_AUTHORIZATIONS } from '../utils/authz'
+
+interface AuthzGrantFormProps {
+  onSubmit: (data: AuthzGrantFormData) => Promise<void>
+  isSubmitting: boolean
+}
+
+// Hot key grants should be rotated; default to one year instead of never expiring
+function defaultExpiration(): string {
+  const date = new Date()
+  date.setFullYear(date.getFullYear() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+export function AuthzGrantForm({ onSubmit, isSubmitting }: AuthzGrantFormProps) {
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = useForm<AuthzGrantFormData>({
+    resolver: zodResolver(authzGrantSchema),
+    defaultValues: {
+      grantee: '',
+      msgTypeUrls: [],
+      customMsgTypeUrl: '',
+      stakeAuthorizationType: '',
+      stakeValidators: '',
+      stakeMaxTokens: '',
+      expiration: defaultExpiration(),
+    },
+  })
+  const stakeAuthorizationType = useWatch({ control, name: 'stakeAuthorizationType' })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="authz-grant-form">
+      <h3>Create Grant</h3>
+
+      <div className="form-section">
+        <div className="form-group">
+          <label>
+            Grantee Address:
+            <input {...register('grantee')} type="text" placeholder="inj1..." />
+          </label>
+          {errors.grantee && <span className="error">{errors.grantee.message}</span>}
+        </div>
+
+        <div className="form-group">
+          <span className="info-label">Allowed Actions:</span>
+          <div className="authz-presets">
+            {AUTHZ_PRESETS.map((preset) => (
+              <label key={preset.msgTypeUrl} className="checkbox-label">
+                <input {...register('msgTypeUrls')} type="checkbox" value={preset.msgTypeUrl} />
+                {preset.label}
+              </label>
+            ))}
+          </div>
+          {errors.msgTypeUrls && <span className="error">{errors.msgTypeUrls.message}</span>}
+        </div>
+
+        <div className="form-group">
+          <label>
+            Other Message Type (generic authorization):
+            <input
+              {...register('customMsgTypeUrl')}
+              type="text"
+              placeholder="/cosmos.staking.v1beta1.MsgEditValidator"
+            />
+          </label>
+          {errors.customMsgTypeUrl && <span className="error">{errors.customMsgTypeUrl.message}</span>}
+        </div>
+
+        <div className="form-group">
+          <label>
+            Staking (stake authorization):
+            <select {...register('stakeAuthorizationType')}>
+              <option value="">None</option>
+              {STAKE_AUTHORIZATIONS.map((authorization) => (
+                <option key={authorization.type} value={authorization.type}>{authorization.label}</option>
+              ))}
+            </select>
+          </label>
+          <small>Unlike a generic grant, limited to the validators below and optionally a maximum amount.</small>
+        </div>
+
+        {stakeAuthorizationType && (
+          <>
+            <div className="form-group">
+              <label>
+                Allowed Validators:
+                <textarea {...register('stakeValidators')} rows={3} placeholder="injvaloper1..." />
+              </label>
+              {errors.stakeValidators && <span className="error">{errors.stakeValidators.message}</span>}
+              <small>Validator operator addresses, separated by commas or new lines.</small>
+            </div>
+
+            <div className="form-group">
+              <label>
+                Max Tokens (INJ):
+                <input {...register('stakeMaxTokens')} type="text" placeholder="Unlimited" />
+              </label>
+              {errors.stakeMaxTokens && <span className="error">{errors.stakeMaxTokens.message}</span>}
+            </div>
+          </>
+        )}
+
+        <div className="form-group">
+          <label>
+            Expiration:
+            <input {...register('expiration')} type="date" />
+          </label>
+          {errors.expiration && <span className="error">{errors.expiration.message}</span>}
+          <small>Leave empty for a grant that never expires.</small>
+        </div>
+      </div>
+
+      <button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Submitting...' : 'Grant'}
+      </button>
+    </form>
+  )
+}
@@ -1,9 +1,11 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect } from 'react'
 import { useChain } from '@cosmos-kit/react'
-import { useNetwork } from '../contexts/NetworkContext'
-import { getChainConfig } from '../config/chains'
-import { QueryService } from '../services/queries'
-import { toValidatorOperatorAddress } from '../utils/address'
+import { useBalanceQuery, useValidatorQuery } from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
+import { toEthereumAddress, toValidatorOperatorAddress } from '../utils/address'
+import { formatTokenAmount } from '../utils/format'
+
+const BALANCE_REFETCH_INTERVAL_MS = 30_000
 
 interface BalanceDisplayProps {
   onDisconnect?: () => void
@@ -12,101 +14,22 @@ interface BalanceDisplayProps {
 
 export function BalanceDisplay({ onDisconnect, isDisconnecting }: BalanceDisplayProps = {}) {
   const { address, status, wallet } = useChain('injective')
-  const { network } = useNetwork()
-  const [balance, setBalance] = useState<string>('0')
-  const [loading, setLoading] = useState(false)
-  const [validatorOperatorAddress, setValidatorOperatorAddress] = useState<string | null>(null)
-
-  const loadValidator = useCallback(async () => {
-    if (!address) return
-    
-    try {
-      const queryService = new QueryService(network)
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(derivedValidatorAddress)
-      
-      if (validatorInfo) {
-        setValidatorOperatorAddress(validatorInfo.operatorAddress)
-      } else {
-        setValidatorOperatorAddress(null)
-      }
-    } catch (error) {
-      // Silently handle validator loading errors
-      setValidatorOperatorAddress(null)
-    }
-  }, [address, network])
-
-  const loadBalance = useCallback(async () => {
-    if (!address) return
-    
-    setLoading(true)
-    try {
-      const config = getChainConfig(network)
-      // Use REST API: GET /cosmos/bank/v1beta1/balances/{address}
-      const url = `${config.rest}/cosmos/bank/v1beta1/balances/${address}`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          // Account might not exist yet, balance is 0
-          setBalance('0')
-          return
-        }
-        throw new Error(`Failed to fetch balance: ${response.status} ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      const balances = data.balances || []
-      
-      // Find the INJ balance
-      const injBalance = balances.find((b: any) => b.denom === 'inj')
-      const balanceAmount = injBalance?.amount || '0'
-      
-      setBalance(balanceAmount)
-    } catch (error: any) {
-      // Silently handle balance loading errors - they're not critical
-      // Only log unexpected errors
-      const errorMessage = error?.message || String(error)
-      if (!errorMessage.includes('Client Not Exist') && 
-          !errorMessage.includes('AggregateError') &&
-          !errorMessage.includes('All promises were rejected') &&
-          !errorMessage.includes('not found')) {
-        // Only log unexpected errors
-        console.warn('Failed to load balance:', errorMessage)
-      }
-      setBalance('0')
-    } finally {
-      setLoading(false)
-    }
-  }, [address, network])
-
-  useEffect(() => {
-    // Only load balance when wallet is connected and ready
-    if (address && status === 'Connected') {
-      loadBalance()
-      loadValidator()
-    } else {
-      setBalance('0')
-      setValidatorOperatorAddress(null)
-    }
-  }, [address, status, network, loadValidator, loadBalance])
+  // Only query once the wallet is connected and ready
+  const connectedAddress = address && status === 'Connected' ? address : null
+  const balanceQuery = useBalanceQuery(connectedAddress, { refetchIntervalMs: BALANCE_REFETCH_INTERVAL_MS })
+  const validatorQuery = useValidatorQuery(connectedAddress ? toValidatorOperatorAddress(connectedAddress) : null)
 
-  // Listen for validator registration events to refresh validator address
+  // Balance and validator errors are not critical for the wallet card
   useEffect(() => {
-    const handleValidatorRegistered = () => {
-      if (address && status === 'Connected') {
-        // Add a small delay to ensure the validator is indexed
-        setTimeout(() => {
-          loadValidator()
-        }, 1000)
-      }
+    if (balanceQuery.error) {
+      console.warn('Failed to load balance:', describeQueryError(balanceQuery.error))
     }
+  }, [balanceQuery.error])
 
-    window.addEventListener('validator-registered', handleValidatorRegistered)
-    return () => {
-      window.removeEventListener('validator-registered', handleValidatorRegistered)
-    }
-  }, [address, status, loadValidator])
+  const balance = balanceQuery.data ?? '0'
+  const loading = balanceQuery.isLoading
+  const validatorOperatorAddress = validatorQuery.data?.operatorAddress ?? null
+  const ethereumAddress = address ? toEthereumAddress(address) : null
 
   const copyToClipboard = async (text: string, _type: string) => {
     try {
@@ -123,7 +46,7 @@ export function BalanceDisplay({ onDisconnect, isDisconnecting }: BalanceDisplay
 
   const formattedBalance = loading 
     ? 'Loading...' 
-    : `${(parseInt(balance) / 1e18).toFixed(4)} INJ`
+    : `${formatTokenAmount(balance)} INJ`
 
   return (
     <div className="wallet-card">
@@ -149,6 +72,25 @@ export function BalanceDisplay({ onDisconnect, isDisconnecting }: BalanceDisplay
           <span className="wallet-info-label">Balance</span>
           <span className="wallet-info-value">{formattedBalance}</span>
         </div>
+        {ethereumAddress && (
+          <div className="wallet-info-item" title={ethereumAddress}>
+            <span className="wallet-info-label">EVM</span>
+            <div className="address-with-copy">
+              <span className="wallet-info-value validator-address">{ethereumAddress.slice(0, 8)}...{ethereumAddress.slice(-6)}</span>
+              <button
+                className="copy-button"
+                onClick={() => copyToClipboard(ethereumAddress, 'ethereum')}
+                title="Copy 0x address"
+                aria-label="Copy 0x address"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
+                  <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+                </svg>
+              </button>
+            </div>
+          </div>
+        )}
         {validatorOperatorAddress && (
           <div className="wallet-info-item" title={validatorOperatorAddress}>
             <span className="wallet-info-label">Validator</span>
@@ -0,0 +1,84 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { customNetworkSchema, CustomNetworkFormData } from '../utils/validation'
+
+interface CustomNetworkFormProps {
+  onSubmit: (data: CustomNetworkFormData) => void
+}
+
+export function CustomNetworkForm({ onSubmit }: CustomNetworkFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<CustomNetworkFormData>({
+    resolver: zodResolver(customNetworkSchema),
+    defaultValues: {
+      chainId: 'injective-888',
+    },
+  })
+
+  const handleFormSubmit = (data: CustomNetworkFormData) => {
+    onSubmit(data)
+    reset()
+  }
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="custom-network-form">
+      <h3>Add Custom Network</h3>
+
+      <div className="form-group">
+        <label>
+          Name:
+          <input {...register('name')} type="text" placeholder="My testnet node" />
+        </label>
+        {errors.name && (
+          <span className="error">{errors.name.message}</span>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>
+          Chain ID:
+          <input {...register('chainId')} type="text" placeholder="injective-888" />
+        </label>
+        {errors.chainId && (
+          <span className="error">{errors.chainId.message}</span>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>
+          RPC Endpoint:
+          <input {...register('rpc')} type="url" placeholder="https://..." />
+        </label>
+        {errors.rpc && (
+          <span className="error">{errors.rpc.message}</span>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>
+          REST Endpoint:
+          <input {...register('rest')} type="url" placeholder="https://..." />
+        </label>
+        {errors.rest && (
+          <span className="error">{errors.rest.message}</span>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>
+          Explorer URL (optional):
+          <input {...register('explorer')} type="url" placeholder="https://..." />
+        </label>
+        {errors.explorer && (
+          <span className="error">{errors.explorer.message}</span>
+        )}
+      </div>
+
+      <button type="submit">Add Network</button>
+    </form>
+  )
+}
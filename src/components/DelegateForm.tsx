@@ -1,6 +1,10 @@
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { delegationSchema, DelegationFormData } from '../utils/validation'
+import { formatTokenAmount, formatTokenAmountExact, parseTokenAmount } from '../utils/format'
+
+// Kept back by MAX to pay transaction fees
+const FEE_RESERVE = BigInt(parseTokenAmount('0.01'))
 
 interface DelegateFormProps {
   validatorAddress: string
@@ -23,13 +27,12 @@ export function DelegateForm({ validatorAddress, onSubmit, isSubmitting, availab
   setValue('validatorAddress', validatorAddress)
 
   const handleMaxClick = () => {
-    // Convert balance from base units (1e18) to INJ, leave some for fees (0.01 INJ)
-    const balanceInInj = parseFloat(availableBalance) / 1e18
-    const maxAmount = Math.max(0, balanceInInj - 0.01).toFixed(4)
-    setValue('amount', maxAmount)
+    // Leave some of the balance for fees
+    const maxAmount = BigInt(availableBalance || '0') - FEE_RESERVE
+    setValue('amount', formatTokenAmountExact((maxAmount > 0n ? maxAmount : 0n).toString()))
   }
 
-  const availableBalanceInInj = (parseFloat(availableBalance) / 1e18).toFixed(4)
+  const availableBalanceInInj = formatTokenAmount(availableBalance || '0')
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="delegate-form">
@@ -64,7 +67,7 @@ export function DelegateForm({ validatorAddress, onSubmit, isSubmitting, availab
             </button>
           </span>
         </label>
-        <input {...register('amount')} type="number" step="0.001" min="0" />
+        <input {...register('amount')} type="number" step="any" min="0" />
         {errors.amount && (
           <span className="error">{errors.amount.message}</span>
         )}
@@ -0,0 +1,134 @@
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { feeSchema, FeeFormData } from '../utils/validation'
+import {
+  computeFee,
+  FALLBACK_GAS_LIMIT,
+  FEE_TIERS,
+  getGasPrice,
+  getStoredFeePreference,
+  setStoredFeePreference,
+} from '../utils/fees'
+import { formatTokenAmount } from '../utils/format'
+import { FeeEstimate, FeeSelection } from '../types'
+
+interface FeeConfirmationProps {
+  estimate: FeeEstimate
+  onResolve: (selection: FeeSelection | null) => void
+}
+
+function isPositiveInteger(value: string | undefined): value is string {
+  return !!value && /^\d+$/.test(value.trim()) && BigInt(value.trim()) > 0n
+}
+
+function formatFee(gasLimit: string | undefined, gasPrice: string | undefined): string {
+  if (!isPositiveInteger(gasLimit) || !isPositiveInteger(gasPrice)) {
+    return '-'
+  }
+  return `${formatTokenAmount(computeFee(gasLimit.trim(), gasPrice.trim()).amount[0].amount, 18, 6)} INJ`
+}
+
+/**
+ * Fee review shown between simulation and the wallet prompt
+ */
+export function FeeConfirmation({ estimate, onResolve }: FeeConfirmationProps) {
+  const simulationFailed = estimate.gasLimit === null
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = useForm<FeeFormData>({
+    resolver: zodResolver(feeSchema),
+    defaultValues: {
+      ...getStoredFeePreference(),
+      gasLimit: estimate.gasLimit ?? FALLBACK_GAS_LIMIT,
+    },
+  })
+  const [tier, customGasPrice, gasLimit] = useWatch({ control, name: ['tier', 'customGasPrice', 'gasLimit'] })
+
+  const onSubmit = (data: FeeFormData) => {
+    setStoredFeePreference({
+      tier: data.tier,
+      customGasPrice: isPositiveInteger(data.customGasPrice) ? data.customGasPrice : getGasPrice('average', ''),
+    })
+    onResolve({
+      tier: data.tier,
+      gasPrice: getGasPrice(data.tier, data.customGasPrice),
+      gasLimit: data.gasLimit,
+    })
+  }
+
+  return (
+    <div className="fee-confirmation-backdrop">
+      <form onSubmit={handleSubmit(onSubmit)} className="fee-confirmation-form">
+        <h3>Transaction Fee</h3>
+
+        {simulationFailed && (
+          <div className="warning-box">
+            Gas estimation failed{estimate.simulationError ? `: ${estimate.simulationError}` : ''}.
+            The transaction may fail on chain as well. Check the gas limit before signing.
+          </div>
+        )}
+
+        <div className="form-section">
+          <div className="form-group">
+            <span className="info-label">Fee Tier:</span>
+            <div className="fee-tier-options">
+              {FEE_TIERS.map((option) => (
+                <label key={option.tier} className="checkbox-label">
+                  <input {...register('tier')} type="radio" value={option.tier} />
+                  {option.label}
+                  {option.tier !== 'custom' && (
+                    <span className="fee-tier-amount">{formatFee(gasLimit, getGasPrice(option.tier, ''))}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {tier === 'custom' && (
+            <div className="form-group">
+              <label>
+                Gas Price (inj per gas unit):
+                <input {...register('customGasPrice')} type="text" inputMode="numeric" />
+              </label>
+              {errors.customGasPrice && <span className="error">{errors.customGasPrice.message}</span>}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>
+              Gas Limit:
+              <input {...register('gasLimit')} type="text" inputMode="numeric" readOnly={!simulationFailed} />
+            </label>
+            {errors.gasLimit && <span className="error">{errors.gasLimit.message}</span>}
+            <small>
+              {simulationFailed
+                ? `No simulated gas available, ${FALLBACK_GAS_LIMIT} is a generous default for a single message.`
+                : 'Simulated gas usage plus a 50% safety margin.'}
+            </small>
+          </div>
+
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">Fee</span>
+              <span className="info-value">{formatFee(gasLimit, getGasPrice(tier, customGasPrice))}</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Gas Limit</span>
+              <span className="info-value">{gasLimit}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="fee-confirmation-actions">
+          <button type="submit">Confirm and Sign</button>
+          <button type="button" className="max-button-link" onClick={() => onResolve(null)}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { sendSchema, SendFormData } from '../utils/validation'
+import { formatTokenAmount, formatTokenAmountExact, numberToTokenAmount } from '../utils/format'
+
+interface FundOrchestratorFormProps {
+  orchestratorAddress: string
+  onSubmit: (data: SendFormData) => Promise<void>
+  isSubmitting: boolean
+  availableBalance: string
+  // INJ; suggested top-up brings the orchestrator back above this
+  minBalance: number
+  orchestratorBalance: string
+}
+
+export function FundOrchestratorForm({
+  orchestratorAddress,
+  onSubmit,
+  isSubmitting,
+  availableBalance,
+  minBalance,
+  orchestratorBalance,
+}: FundOrchestratorFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+  } = useForm<SendFormData>({
+    resolver: zodResolver(sendSchema),
+  })
+
+  // Pre-fill orchestrator address
+  setValue('recipientAddress', orchestratorAddress)
+
+  const availableBalanceInInj = formatTokenAmount(availableBalance || '0')
+  // Twice the threshold, so the orchestrator does not drop below it again right away
+  const topUpTarget = BigInt(numberToTokenAmount(minBalance * 2))
+  const topUp = topUpTarget - BigInt(orchestratorBalance || '0')
+
+  const handleTopUpClick = () => {
+    setValue('amount', formatTokenAmountExact((topUp > 0n ? topUp : 0n).toString()))
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="fund-orchestrator-form">
+      <h3>Fund Orchestrator</h3>
+
+      <div className="form-section">
+        <div className="form-group">
+        <label>
+          Orchestrator Address:
+          <input
+            {...register('recipientAddress')}
+            type="text"
+            disabled
+          />
+        </label>
+        {errors.recipientAddress && (
+          <span className="error">{errors.recipientAddress.message}</span>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span>Amount (INJ):</span>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+            <span style={{ color: 'var(--text-tertiary)', fontWeight: 500 }}>Available: {availableBalanceInInj} INJ</span>
+            <button
+              type="button"
+              onClick={handleTopUpClick}
+              disabled={topUp <= 0n}
+              className="max-button-link"
+            >
+              TOP UP
+            </button>
+          </span>
+        </label>
+        <input {...register('amount')} type="number" step="any" min="0" />
+        {errors.amount && (
+          <span className="error">{errors.amount.message}</span>
+        )}
+        <small>Sent from the connected operator wallet. The orchestrator pays the fees of its peggy claims from this balance.</small>
+        </div>
+      </div>
+
+      <button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Submitting...' : 'Fund Orchestrator'}
+      </button>
+    </form>
+  )
+}
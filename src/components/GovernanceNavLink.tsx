@@ -0,0 +1,28 @@
+import { Link } from 'react-router-dom'
+import { useUnvotedProposalsQuery } from '../hooks/queries'
+import { useGovernanceVoter } from '../hooks/useGovernanceVoter'
+
+interface GovernanceNavLinkProps {
+  to: string
+  label: string
+}
+
+const UNVOTED_REFETCH_INTERVAL_MS = 5 * 60_000
+
+/**
+ * Navigation link to the governance page with a badge counting
+ * open proposals our validator has not voted on
+ */
+export function GovernanceNavLink({ to, label }: GovernanceNavLinkProps) {
+  const { voterAddress } = useGovernanceVoter()
+  const unvoted = useUnvotedProposalsQuery(voterAddress, {
+    refetchIntervalMs: UNVOTED_REFETCH_INTERVAL_MS,
+  }).data ?? []
+
+  return (
+    <Link to={to} title={unvoted.length > 0 ? `${unvoted.length} open proposal(s) without our vote` : undefined}>
+      {label}
+      {unvoted.length > 0 && <span className="nav-badge">{unvoted.length}</span>}
+    </Link>
+  )
+}
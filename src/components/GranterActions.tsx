@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { AuthzGrant, WeightedVoteOption } from '../types'
+import { useProposalsQuery, useValidatorQuery, VOTING_PERIOD_STATUS } from '../hooks/queries'
+import { toValidatorOperatorAddress } from '../utils/address'
+import { describeGrant, hasGenericGrant, isGrantExpired } from '../utils/authz'
+import { VoteForm } from './VoteForm'
+
+interface GranterActionsProps {
+  granterAddress: string
+  // Grants this wallet holds from `granterAddress`
+  grants: AuthzGrant[]
+  onWithdrawCommission: () => Promise<void>
+  onUnjail: () => Promise<void>
+  onVote: (proposalId: string, options: WeightedVoteOption[]) => Promise<void>
+  isSubmitting: boolean
+}
+
+/**
+ * Operator actions the connected wallet may execute for one granter through MsgExec
+ */
+export function GranterActions({
+  granterAddress,
+  grants,
+  onWithdrawCommission,
+  onUnjail,
+  onVote,
+  isSubmitting,
+}: GranterActionsProps) {
+  const validator = useValidatorQuery(toValidatorOperatorAddress(granterAddress)).data ?? null
+  const canVote = hasGenericGrant(grants, '/cosmos.gov.v1.MsgVote')
+  const canVoteWeighted = hasGenericGrant(grants, '/cosmos.gov.v1.MsgVoteWeighted')
+  const canWithdrawCommission = hasGenericGrant(grants, '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission')
+  const canUnjail = hasGenericGrant(grants, '/cosmos.slashing.v1beta1.MsgUnjail')
+
+  const proposals = useProposalsQuery(VOTING_PERIOD_STATUS).data ?? []
+  const [proposalId, setProposalId] = useState('')
+  const selectedProposalId = proposalId || proposals[0]?.id || ''
+
+  return (
+    <div className="validator-info authz-granter">
+      <h3>{validator?.moniker || granterAddress}</h3>
+      <p className="monospace" style={{ color: 'var(--text-tertiary)', fontSize: '0.875rem' }}>{granterAddress}</p>
+
+      <div className="authz-grant-list">
+        {grants.map((grant) => (
+          <span
+            key={`${grant.authorizationType}-${grant.msgTypeUrl}`}
+            className={`status-badge ${isGrantExpired(grant) ? 'status-badge-error' : 'status-badge-info'}`}
+            title={grant.msgTypeUrl ?? grant.authorizationType}
+          >
+            {describeGrant(grant)}
+            {isGrantExpired(grant) && ' (expired)'}
+          </span>
+        ))}
+      </div>
+
+      <div className="authz-actions">
+        {canWithdrawCommission && (
+          <button type="button" onClick={onWithdrawCommission} disabled={isSubmitting}>
+            Withdraw Commission
+          </button>
+        )}
+        {canUnjail && (
+          <button type="button" onClick={onUnjail} disabled={isSubmitting || (validator !== null && !validator.jailed)}>
+            {validator && !validator.jailed ? 'Not Jailed' : 'Unjail'}
+          </button>
+        )}
+      </div>
+
+      {(canVote || canVoteWeighted) && (
+        <div className="authz-vote">
+          <h4>Vote as {validator?.moniker || 'granter'}</h4>
+          {proposals.length === 0 ? (
+            <p style={{ color: 'var(--text-tertiary)' }}>No proposals are in their voting period.</p>
+          ) : (
+            <>
+              <div className="form-group">
+                <label>
+                  Proposal:
+                  <select value={selectedProposalId} onChange={(e) => setProposalId(e.target.value)}>
+                    {proposals.map((proposal) => (
+                      <option key={proposal.id} value={proposal.id}>
+                        #{proposal.id} {proposal.title}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <VoteForm onVote={(options) => onVote(selectedProposalId, options)} isSubmitting={isSubmitting} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { offlineAccountSchema, OfflineAccountFormData } from '../utils/validation'
+
+interface MultisigAccountFormProps {
+  defaultAddress: string
+  onSubmit: (address: string) => Promise<void>
+  isLoading: boolean
+}
+
+/**
+ * Loads a multisig account's keys and current sequence from chain
+ */
+export function MultisigAccountForm({ defaultAddress, onSubmit, isLoading }: MultisigAccountFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<OfflineAccountFormData>({
+    resolver: zodResolver(offlineAccountSchema),
+    defaultValues: { address: defaultAddress },
+  })
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(data.address.trim()))}>
+      <div className="form-group">
+        <label>
+          Multisig Address:
+          <input {...register('address')} type="text" placeholder="inj1..." />
+        </label>
+        {errors.address && <span className="error">{errors.address.message}</span>}
+        <small>Load it again after every transaction of the multisig, so members sign the current sequence.</small>
+      </div>
+
+      <button type="submit" disabled={isLoading}>
+        {isLoading ? 'Loading...' : 'Load Account'}
+      </button>
+    </form>
+  )
+}
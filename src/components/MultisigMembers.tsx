@@ -0,0 +1,45 @@
+import { getMemberAddress, MultisigPubKey } from '../services/multisig'
+
+interface MultisigMembersProps {
+  multisig: MultisigPubKey
+  // Members whose signature has been collected
+  signedIndexes: number[]
+  walletAddress?: string
+}
+
+/**
+ * Threshold and member keys of a multisig account, with the signatures collected so far
+ */
+export function MultisigMembers({ multisig, signedIndexes, walletAddress }: MultisigMembersProps) {
+  return (
+    <div className="info-section">
+      <div className="info-grid">
+        <div className="info-item">
+          <span className="info-label">Threshold</span>
+          <span className="info-value">{multisig.threshold} of {multisig.members.length}</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">Signatures Collected</span>
+          <span className="info-value">{signedIndexes.length} of {multisig.threshold} required</span>
+        </div>
+      </div>
+
+      <ul className="multisig-members">
+        {multisig.members.map((member, index) => {
+          const address = getMemberAddress(member)
+          return (
+            <li key={member.key}>
+              <span className="multisig-member-address">
+                {address ?? member.key}
+                {address && address === walletAddress && ' (connected wallet)'}
+              </span>
+              {signedIndexes.includes(index)
+                ? <span className="status-badge status-badge-success">Signed</span>
+                : <span className="status-badge status-badge-info">Not signed</span>}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -1,11 +1,34 @@
-import { Network } from '../types'
+import { useState } from 'react'
+import { Network, CustomNetworkConfig, CustomNetworkId } from '../types'
+import { NetworkOption } from '../contexts/NetworkContext'
+import { CustomNetworkFormData } from '../utils/validation'
+import { CustomNetworkForm } from './CustomNetworkForm'
 
 interface NetworkSelectorProps {
   network: Network
+  networks: NetworkOption[]
+  customNetworks: CustomNetworkConfig[]
   onNetworkChange: (network: Network) => void
+  onAddCustomNetwork: (data: CustomNetworkFormData) => CustomNetworkId
+  onRemoveCustomNetwork: (id: CustomNetworkId) => void
 }
 
-export function NetworkSelector({ network, onNetworkChange }: NetworkSelectorProps) {
+export function NetworkSelector({
+  network,
+  networks,
+  customNetworks,
+  onNetworkChange,
+  onAddCustomNetwork,
+  onRemoveCustomNetwork,
+}: NetworkSelectorProps) {
+  const [showManager, setShowManager] = useState(false)
+
+  const handleAddCustomNetwork = (data: CustomNetworkFormData) => {
+    const id = onAddCustomNetwork(data)
+    onNetworkChange(id)
+    setShowManager(false)
+  }
+
   return (
     <div className="network-selector">
       <label>
@@ -14,10 +37,46 @@ export function NetworkSelector({ network, onNetworkChange }: NetworkSelectorPro
           value={network} 
           onChange={(e) => onNetworkChange(e.target.value as Network)}
         >
-          <option value="mainnet">Mainnet (injective-1)</option>
-          <option value="testnet">Testnet (injective-888)</option>
+          {networks.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name} ({option.chainId})
+            </option>
+          ))}
         </select>
       </label>
+      <button
+        type="button"
+        className="max-button-link"
+        onClick={() => setShowManager(!showManager)}
+      >
+        {showManager ? 'Close' : 'Custom'}
+      </button>
+
+      {showManager && (
+        <div className="network-manager">
+          {customNetworks.length > 0 && (
+            <ul className="custom-network-list">
+              {customNetworks.map((custom) => (
+                <li key={custom.id}>
+                  <span>
+                    <strong>{custom.name}</strong> ({custom.chainId})
+                    <br />
+                    <small>{custom.rest}</small>
+                  </span>
+                  <button
+                    type="button"
+                    className="max-button-link"
+                    onClick={() => onRemoveCustomNetwork(custom.id)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <CustomNetworkForm onSubmit={handleAddCustomNetwork} />
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,65 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { offlineAccountSchema, OfflineAccountFormData } from '../utils/validation'
+
+interface OfflineAccountFormProps {
+  offlineAddress: string | null
+  onChange: (address: string | null) => void
+}
+
+/**
+ * Switches offline mode on for an account, or back to signing with the connected wallet
+ */
+export function OfflineAccountForm({ offlineAddress, onChange }: OfflineAccountFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<OfflineAccountFormData>({
+    resolver: zodResolver(offlineAccountSchema),
+    defaultValues: { address: '' },
+  })
+
+  if (offlineAddress) {
+    return (
+      <div className="offline-account-form">
+        <h3>Offline Mode</h3>
+        <div className="info-grid">
+          <div className="info-item">
+            <span className="info-label">Offline Account</span>
+            <span className="info-value">{offlineAddress}</span>
+          </div>
+        </div>
+        <p style={{ margin: '1rem 0', color: 'var(--text-secondary)' }}>
+          Transactions on every page are exported unsigned for this account instead of being signed by the wallet.
+        </p>
+        <button type="button" onClick={() => onChange(null)}>
+          Disable Offline Mode
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit((data) => onChange(data.address.trim()))} className="offline-account-form">
+      <h3>Offline Mode</h3>
+
+      <div className="form-section">
+        <div className="form-group">
+          <label>
+            Offline Account Address:
+            <input {...register('address')} type="text" placeholder="inj1..." />
+          </label>
+          {errors.address && <span className="error">{errors.address.message}</span>}
+          <small>
+            The account whose key is kept on the offline machine. It needs a balance and at least one
+            sent transaction, so its public key is known on chain. A multisig address works as well; its
+            members sign on the Multisig page.
+          </small>
+        </div>
+      </div>
+
+      <button type="submit">Enable Offline Mode</button>
+    </form>
+  )
+}
@@ -1,8 +1,8 @@
-import { useForm } from 'react-hook-form'
+import { useForm, useWatch } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { orchestratorRegistrationSchema, OrchestratorRegistrationFormData } from '../utils/validation'
-import { useChain } from '@cosmos-kit/react'
-import { toValidatorOperatorAddress } from '../utils/address'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { getAddressForms, toValidatorOperatorAddress } from '../utils/address'
 import { useEffect } from 'react'
 
 interface OrchestratorFormProps {
@@ -11,17 +11,25 @@ interface OrchestratorFormProps {
 }
 
 export function OrchestratorForm({ onSubmit, isSubmitting }: OrchestratorFormProps) {
-  const { address } = useChain('injective')
+  const { address } = useTxAccount()
   
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    control,
   } = useForm<OrchestratorRegistrationFormData>({
     resolver: zodResolver(orchestratorRegistrationSchema),
+    defaultValues: { separateEthereumKey: false },
   })
 
+  // Show the other form of each address so a mistyped pair is easy to spot
+  const orchestratorAddress = useWatch({ control, name: 'orchestratorAddress' })
+  const ethereumAddress = useWatch({ control, name: 'ethereumAddress' })
+  const orchestratorForms = orchestratorAddress ? getAddressForms(orchestratorAddress.trim()) : null
+  const ethereumForms = ethereumAddress ? getAddressForms(ethereumAddress.trim()) : null
+
   // Derive validator operator address from connected wallet (same as createValidatorTransaction)
   useEffect(() => {
     if (address) {
@@ -68,6 +76,7 @@ export function OrchestratorForm({ onSubmit, isSubmitting }: OrchestratorFormPro
             placeholder="inj1..."
           />
           <small>Can be the same as validator address or a separate address</small>
+          {orchestratorForms && <small>0x form: {orchestratorForms.ethereum}</small>}
         </label>
         {errors.orchestratorAddress && (
           <span className="error">{errors.orchestratorAddress.message}</span>
@@ -82,10 +91,19 @@ export function OrchestratorForm({ onSubmit, isSubmitting }: OrchestratorFormPro
             type="text"
             placeholder="0x..."
           />
+          <small>Usually the 0x form of the orchestrator address, when peggo uses one key for both</small>
+          {ethereumForms && <small>inj form: {ethereumForms.injective}</small>}
         </label>
         {errors.ethereumAddress && (
           <span className="error">{errors.ethereumAddress.message}</span>
         )}
+      </div>
+
+      <div className="form-group">
+        <label className="checkbox-label">
+          <input {...register('separateEthereumKey')} type="checkbox" />
+          The orchestrator uses a separate Ethereum key
+        </label>
         </div>
       </div>
 
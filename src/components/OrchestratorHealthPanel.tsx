@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react'
+import { useAllValidatorsQuery, useOrchestratorEventNoncesQuery, usePeggyModuleStateQuery } from '../hooks/queries'
+import { useOrchestratorHealth } from '../hooks/useOrchestratorHealth'
+import { describeQueryError } from '../services/lcd-client'
+
+interface OrchestratorHealthPanelProps {
+  orchestratorAddress: string
+}
+
+const LEVEL_BADGES = {
+  ok: { className: 'status-badge-success', label: 'In sync' },
+  warning: { className: 'status-badge-warning', label: 'Lagging' },
+  critical: { className: 'status-badge-error', label: 'Stalled' },
+}
+
+function lagClassName(lag: number): string {
+  return lag > 0 ? 'status-jailed' : 'status-active'
+}
+
+export function OrchestratorHealthPanel({ orchestratorAddress }: OrchestratorHealthPanelProps) {
+  const { health, isLoading, error } = useOrchestratorHealth(orchestratorAddress)
+  const [showAllOrchestrators, setShowAllOrchestrators] = useState(false)
+  const moduleStateQuery = usePeggyModuleStateQuery()
+  const eventNoncesQuery = useOrchestratorEventNoncesQuery(showAllOrchestrators ? moduleStateQuery.data?.orchestrators : null)
+  const validatorsQuery = useAllValidatorsQuery()
+
+  const monikers = useMemo(
+    () => new Map((validatorsQuery.data ?? []).map((validator) => [validator.operatorAddress, validator.moniker])),
+    [validatorsQuery.data]
+  )
+
+  return (
+    <div className="info-section orchestrator-health-panel">
+      <h3>Orchestrator Health</h3>
+      {isLoading ? (
+        <div>Loading peggy state...</div>
+      ) : !health ? (
+        <div className="error-message">
+          Failed to load peggy state: {describeQueryError(error)}
+        </div>
+      ) : (
+        <>
+          {health.warnings.length > 0 && (
+            <div className={health.level === 'critical' ? 'error-message' : 'warning-box'}>
+              {health.level === 'critical' && (
+                <strong>The orchestrator appears to be stalled. Unsigned valsets and batches get the validator slashed. </strong>
+              )}
+              <ul className="orchestrator-health-warnings">
+                {health.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">State</span>
+              <span className="info-value">
+                <span className={`status-badge ${LEVEL_BADGES[health.level].className}`}>
+                  {LEVEL_BADGES[health.level].label}
+                </span>
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Valset Nonce (Latest / Confirmed)</span>
+              <span className={`info-value ${lagClassName(health.valsetLag)}`}>
+                {health.latestValsetNonce} / {health.lastConfirmedValsetNonce}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Batches Awaiting Signature</span>
+              <span className={`info-value ${lagClassName(health.pendingBatchCount)}`}>
+                {health.pendingBatchCount}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Event Nonce (Observed / Claimed)</span>
+              <span className={`info-value ${lagClassName(health.eventLag)}`}>
+                {health.lastObservedEventNonce} / {health.orchestratorEventNonce}
+              </span>
+            </div>
+          </div>
+          {error != null && (
+            <div className="orchestrator-health-note">
+              Showing cached data, the last refresh failed: {describeQueryError(error)}
+            </div>
+          )}
+        </>
+      )}
+
+      <button
+        type="button"
+        className="max-button-link"
+        onClick={() => setShowAllOrchestrators((current) => !current)}
+      >
+        {showAllOrchestrators ? 'Hide' : 'Compare with'} all orchestrators
+      </button>
+      {showAllOrchestrators && (
+        moduleStateQuery.isLoading || eventNoncesQuery.isLoading ? (
+          <div>Loading event nonces of all orchestrators...</div>
+        ) : !eventNoncesQuery.data ? (
+          <div className="error-message">
+            Failed to load event nonces: {describeQueryError(moduleStateQuery.data ? eventNoncesQuery.error : moduleStateQuery.error)}
+          </div>
+        ) : (
+          <div className="orchestrator-nonce-table">
+            {eventNoncesQuery.data.map((entry) => {
+              const lag = Math.max(0, (health?.lastObservedEventNonce ?? entry.eventNonce) - entry.eventNonce)
+              return (
+                <div
+                  key={entry.orchestratorAddress}
+                  className={`orchestrator-nonce-row${entry.orchestratorAddress === orchestratorAddress ? ' orchestrator-nonce-row-own' : ''}`}
+                >
+                  <span>{monikers.get(entry.validatorAddress) || entry.validatorAddress}</span>
+                  <span className="monospace">{entry.eventNonce}</span>
+                  <span className={lagClassName(lag)}>
+                    {lag > 0 ? `lagging by ${lag}` : 'in sync'}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { GovProposal, GovTally, WeightedVoteOption } from '../types'
+import { useProposalTallyQuery, useVoteQuery, VOTING_PERIOD_STATUS } from '../hooks/queries'
+import { formatDuration } from '../utils/format'
+import { VOTE_OPTION_LABELS } from '../utils/governance'
+import { VoteForm } from './VoteForm'
+
+interface ProposalCardProps {
+  proposal: GovProposal
+  voterAddress: string | null
+  canVote: boolean
+  onVote: (proposalId: string, options: WeightedVoteOption[]) => Promise<void>
+  isSubmitting: boolean
+}
+
+const STATUS_BADGES: Record<string, { className: string; label: string }> = {
+  PROPOSAL_STATUS_DEPOSIT_PERIOD: { className: 'status-badge-info', label: 'Deposit Period' },
+  PROPOSAL_STATUS_VOTING_PERIOD: { className: 'status-badge-warning', label: 'Voting' },
+  PROPOSAL_STATUS_PASSED: { className: 'status-badge-success', label: 'Passed' },
+  PROPOSAL_STATUS_REJECTED: { className: 'status-badge-error', label: 'Rejected' },
+  PROPOSAL_STATUS_FAILED: { className: 'status-badge-error', label: 'Failed' },
+}
+
+const TALLY_SEGMENTS: Array<{ key: keyof GovTally; label: string }> = [
+  { key: 'yes', label: 'Yes' },
+  { key: 'no', label: 'No' },
+  { key: 'noWithVeto', label: 'Veto' },
+  { key: 'abstain', label: 'Abstain' },
+]
+
+function TallyBar({ tally }: { tally: GovTally }) {
+  const total = TALLY_SEGMENTS.reduce((sum, { key }) => sum + BigInt(tally[key] || '0'), 0n)
+  if (total === 0n) {
+    return <div className="tally-empty">No votes yet</div>
+  }
+
+  // Basis points keep the BigInt division exact enough for display
+  const percent = (value: string) => Number((BigInt(value || '0') * 10000n) / total) / 100
+
+  return (
+    <div className="tally">
+      <div className="tally-bar">
+        {TALLY_SEGMENTS.map(({ key }) => (
+          <div key={key} className={`tally-segment tally-${key}`} style={{ width: `${percent(tally[key])}%` }} />
+        ))}
+      </div>
+      <div className="tally-legend">
+        {TALLY_SEGMENTS.map(({ key, label }) => (
+          <span key={key}>
+            <span className={`tally-swatch tally-${key}`} /> {label} {percent(tally[key]).toFixed(2)}%
+            <span className="tally-amount"> ({(BigInt(tally[key] || '0') / 10n ** 18n).toLocaleString()} INJ)</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function ProposalCard({ proposal, voterAddress, canVote, onVote, isSubmitting }: ProposalCardProps) {
+  const isVoting = proposal.status === VOTING_PERIOD_STATUS
+  // Live tally while voting; afterwards the proposal carries the final result
+  const tallyQuery = useProposalTallyQuery(isVoting ? proposal.id : null)
+  const tally = isVoting ? tallyQuery.data : proposal.finalTally
+  // Votes are pruned when voting ends, so only active proposals can show ours
+  const voteQuery = useVoteQuery(isVoting ? proposal.id : null, voterAddress)
+  const vote = voteQuery.data ?? null
+  const badge = STATUS_BADGES[proposal.status] ?? { className: 'status-badge-info', label: proposal.status }
+  const votingEndsInMs = proposal.votingEndTime ? Date.parse(proposal.votingEndTime) - Date.now() : null
+
+  return (
+    <div className="validator-info proposal-card">
+      <div className="proposal-header">
+        <h3>
+          <span className="proposal-id">#{proposal.id}</span> {proposal.title}
+        </h3>
+        <span className={`status-badge ${badge.className}`}>{badge.label}</span>
+      </div>
+
+      {proposal.summary && <p className="proposal-summary">{proposal.summary}</p>}
+
+      <div className="info-grid">
+        {proposal.votingEndTime && (
+          <div className="info-item">
+            <span className="info-label">{isVoting ? 'Voting Ends' : 'Voting Ended'}</span>
+            <span className="info-value">
+              {new Date(proposal.votingEndTime).toLocaleString()}
+              {isVoting && votingEndsInMs !== null && votingEndsInMs > 0 && ` (in ${formatDuration(votingEndsInMs)})`}
+            </span>
+          </div>
+        )}
+        {proposal.messageTypes.length > 0 && (
+          <div className="info-item">
+            <span className="info-label">Messages</span>
+            <span className="info-value monospace">
+              {proposal.messageTypes.map((type) => type.split('.').pop()).join(', ')}
+            </span>
+          </div>
+        )}
+        {isVoting && voterAddress && (
+          <div className="info-item">
+            <span className="info-label">Our Vote</span>
+            <span className={`info-value ${vote ? 'status-active' : 'status-jailed'}`}>
+              {voteQuery.isLoading
+                ? 'Loading...'
+                : vote
+                  ? vote.options
+                      .map((option) =>
+                        vote.options.length > 1
+                          ? `${VOTE_OPTION_LABELS[option.option] ?? option.option} ${(parseFloat(option.weight) * 100).toFixed(2)}%`
+                          : VOTE_OPTION_LABELS[option.option] ?? option.option
+                      )
+                      .join(', ')
+                  : 'Not voted'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {tally && <TallyBar tally={tally} />}
+
+      {isVoting && canVote && (
+        <VoteForm onVote={(options) => onVote(proposal.id, options)} isSubmitting={isSubmitting} />
+      )}
+    </div>
+  )
+}
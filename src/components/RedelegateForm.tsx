@@ -0,0 +1,202 @@
+import { useMemo } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { redelegationSchema, RedelegationFormData } from '../utils/validation'
+import { Redelegation, ValidatorInfo } from '../types'
+import { useDelegationQuery } from '../hooks/queries'
+import { formatTokenAmount, formatTokenAmountExact } from '../utils/format'
+
+interface RedelegateFormProps {
+  delegatorAddress: string
+  defaultSourceAddress: string
+  validators: ValidatorInfo[]
+  redelegations: Redelegation[]
+  onSubmit: (data: RedelegationFormData) => Promise<void>
+  isSubmitting: boolean
+}
+
+// The staking module keeps at most this many entries per (delegator, source, destination)
+const MAX_REDELEGATION_ENTRIES = 7
+
+function isMaturing(completionTime: string): boolean {
+  return Date.parse(completionTime) > Date.now()
+}
+
+export function RedelegateForm({
+  delegatorAddress,
+  defaultSourceAddress,
+  validators,
+  redelegations,
+  onSubmit,
+  isSubmitting,
+}: RedelegateFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    control,
+  } = useForm<RedelegationFormData>({
+    resolver: zodResolver(redelegationSchema),
+    defaultValues: {
+      sourceValidatorAddress: defaultSourceAddress,
+      destinationValidatorAddress: '',
+      amount: '',
+    },
+  })
+
+  const sourceValidatorAddress = useWatch({ control, name: 'sourceValidatorAddress' })
+  const destinationValidatorAddress = useWatch({ control, name: 'destinationValidatorAddress' })
+  const sourceDelegation = useDelegationQuery(delegatorAddress, sourceValidatorAddress).data ?? null
+
+  const sortedValidators = useMemo(
+    () => [...validators].sort((a, b) => a.moniker.localeCompare(b.moniker)),
+    [validators]
+  )
+  const monikers = useMemo(
+    () => new Map(validators.map((validator) => [validator.operatorAddress, validator.moniker])),
+    [validators]
+  )
+  const describeValidator = (address: string) => monikers.get(address) ?? address
+
+  // Stake that arrived at the source through a redelegation cannot move again until that redelegation completes
+  const blockingRedelegations = redelegations.filter(
+    (redelegation) =>
+      redelegation.destinationValidatorAddress === sourceValidatorAddress &&
+      redelegation.entries.some((entry) => isMaturing(entry.completionTime))
+  )
+  const blockedUntil = blockingRedelegations
+    .flatMap((redelegation) => redelegation.entries.map((entry) => entry.completionTime))
+    .filter(isMaturing)
+    .sort((a, b) => Date.parse(b) - Date.parse(a))[0]
+
+  const pairEntries = redelegations
+    .filter(
+      (redelegation) =>
+        redelegation.sourceValidatorAddress === sourceValidatorAddress &&
+        redelegation.destinationValidatorAddress === destinationValidatorAddress
+    )
+    .reduce((count, redelegation) => count + redelegation.entries.length, 0)
+
+  const sourceDelegationInInj = sourceDelegation ? formatTokenAmount(sourceDelegation.balance.amount) : '0'
+
+  const handleMaxClick = () => {
+    if (sourceDelegation) {
+      setValue('amount', formatTokenAmountExact(sourceDelegation.balance.amount))
+    }
+  }
+
+  const renderValidatorOptions = () =>
+    sortedValidators.map((validator) => (
+      <option key={validator.operatorAddress} value={validator.operatorAddress}>
+        {validator.moniker || validator.operatorAddress}
+        {validator.jailed ? ' (jailed)' : validator.status !== 'BOND_STATUS_BONDED' ? ' (inactive)' : ''}
+      </option>
+    ))
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="redelegate-form">
+      <h3>Redelegate</h3>
+
+      <div className="form-section">
+        <div className="form-group">
+          <label>
+            Source Validator:
+            <select {...register('sourceValidatorAddress')}>
+              <option value="">Select a validator</option>
+              {renderValidatorOptions()}
+            </select>
+          </label>
+          {errors.sourceValidatorAddress && (
+            <span className="error">{errors.sourceValidatorAddress.message}</span>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label>
+            Destination Validator:
+            <select {...register('destinationValidatorAddress')}>
+              <option value="">Select a validator</option>
+              {renderValidatorOptions()}
+            </select>
+          </label>
+          {errors.destinationValidatorAddress && (
+            <span className="error">{errors.destinationValidatorAddress.message}</span>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span>Amount (INJ):</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+              <span style={{ color: 'var(--text-tertiary)', fontWeight: 500 }}>Delegated: {sourceDelegationInInj} INJ</span>
+              <button
+                type="button"
+                onClick={handleMaxClick}
+                disabled={!sourceDelegation}
+                className="max-button-link"
+              >
+                MAX
+              </button>
+            </span>
+          </label>
+          <input {...register('amount')} type="number" step="any" min="0" />
+          {errors.amount && (
+            <span className="error">{errors.amount.message}</span>
+          )}
+        </div>
+
+        {blockedUntil && (
+          <div className="warning-box">
+            <strong>Transitive redelegation blocked</strong>
+            <p>
+              Stake was redelegated to {describeValidator(sourceValidatorAddress)} recently. The chain does not allow
+              moving redelegated stake again until that redelegation completes on{' '}
+              {new Date(blockedUntil).toLocaleString()}. Only stake delegated to this validator directly can be
+              redelegated before then.
+            </p>
+          </div>
+        )}
+
+        {pairEntries >= MAX_REDELEGATION_ENTRIES - 1 && (
+          <div className="warning-box">
+            <strong>Redelegation entry limit</strong>
+            <p>
+              {pairEntries} of {MAX_REDELEGATION_ENTRIES} redelegation entries between these validators are in use.
+              {pairEntries >= MAX_REDELEGATION_ENTRIES && ' Wait for one to complete before redelegating again.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Submitting...' : 'Redelegate'}
+      </button>
+
+      {redelegations.length > 0 && (
+        <div className="info-section" style={{ marginTop: '2rem' }}>
+          <h4>Pending Redelegations</h4>
+          <div className="redelegation-list">
+            {redelegations.flatMap((redelegation) =>
+              redelegation.entries.map((entry) => (
+                <div
+                  key={`${redelegation.sourceValidatorAddress}-${redelegation.destinationValidatorAddress}-${entry.creationHeight}`}
+                  className="redelegation-item"
+                >
+                  <span>
+                    {describeValidator(redelegation.sourceValidatorAddress)} →{' '}
+                    {describeValidator(redelegation.destinationValidatorAddress)}
+                  </span>
+                  <span className="info-value">{formatTokenAmount(entry.balance)} INJ</span>
+                  <span style={{ color: 'var(--text-tertiary)' }}>
+                    Completes {new Date(entry.completionTime).toLocaleString()}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useAllValidatorsQuery } from '../hooks/queries'
+import { HeatmapBlock, useSignatureHeatmap } from '../hooks/useSignatureHeatmap'
+import { describeQueryError } from '../services/lcd-client'
+import { toConsensusAddressHex } from '../utils/pubkey'
+
+interface SignatureHeatmapProps {
+  consensusPubkey: string
+}
+
+const WINDOW_OPTIONS = [100, 200, 500]
+const DEFAULT_WINDOW = 200
+
+type CellState = 'signed' | 'missed' | 'loading' | 'error'
+
+function getCellState(cell: HeatmapBlock, consensusHex: string | null): CellState {
+  if (cell.block) {
+    return consensusHex && cell.block.signersHex.includes(consensusHex) ? 'signed' : 'missed'
+  }
+  return cell.error ? 'error' : 'loading'
+}
+
+const STATE_LABELS: Record<CellState, string> = {
+  signed: 'Signed',
+  missed: 'Missed',
+  loading: 'Loading...',
+  error: 'Failed to load',
+}
+
+export function SignatureHeatmap({ consensusPubkey }: SignatureHeatmapProps) {
+  const { chain } = useChain('injective')
+  const { network } = useNetwork()
+  const [blockCount, setBlockCount] = useState(DEFAULT_WINDOW)
+  const { blocks, error, isLoading } = useSignatureHeatmap(blockCount)
+  const validatorsQuery = useAllValidatorsQuery()
+  const [consensusHex, setConsensusHex] = useState<string | null>(null)
+  // Consensus address (hex) -> moniker, to name the proposer of each block
+  const [monikers, setMonikers] = useState<Map<string, string>>(new Map())
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet'
+    ? 'https://explorer.injective.network'
+    : 'https://testnet.explorer.injective.network')
+
+  useEffect(() => {
+    let cancelled = false
+    toConsensusAddressHex(consensusPubkey)
+      .then((hex) => {
+        if (!cancelled) setConsensusHex(hex)
+      })
+      .catch((err) => {
+        console.error('[HEATMAP] Failed to derive consensus address:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [consensusPubkey])
+
+  useEffect(() => {
+    const validators = validatorsQuery.data
+    if (!validators) return
+
+    let cancelled = false
+    Promise.all(
+      validators.map(async (validator): Promise<[string, string] | null> => {
+        if (!validator.consensusPubkey) return null
+        try {
+          return [await toConsensusAddressHex(validator.consensusPubkey), validator.moniker]
+        } catch {
+          return null
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) {
+        setMonikers(new Map(entries.filter((entry): entry is [string, string] => entry !== null)))
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [validatorsQuery.data])
+
+  const loaded = blocks.filter((cell) => cell.block)
+  const signedCount = loaded.filter((cell) => getCellState(cell, consensusHex) === 'signed').length
+  const proposedCount = loaded.filter((cell) => consensusHex && cell.block?.proposerHex === consensusHex).length
+
+  return (
+    <div className="info-section signature-heatmap">
+      <div className="signature-heatmap-header">
+        <h3>Recent Block Signatures</h3>
+        <select
+          value={blockCount}
+          onChange={(e) => setBlockCount(parseInt(e.target.value, 10))}
+          aria-label="Number of blocks"
+        >
+          {WINDOW_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} blocks
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div>Loading latest block...</div>
+      ) : error && blocks.length === 0 ? (
+        <div className="error-message">Failed to load blocks: {describeQueryError(error)}</div>
+      ) : (
+        <>
+          <div className="signature-heatmap-summary">
+            Signed {signedCount} of {loaded.length} loaded blocks
+            {proposedCount > 0 && `, proposed ${proposedCount}`}
+          </div>
+          <div className="heatmap-grid">
+            {blocks.map((cell) => {
+              const state = getCellState(cell, consensusHex)
+              const proposerHex = cell.block?.proposerHex
+              const proposedByUs = !!consensusHex && proposerHex === consensusHex
+              const proposer = proposerHex ? monikers.get(proposerHex) ?? proposerHex : 'Unknown'
+              const title = `Block ${cell.height}: ${STATE_LABELS[state]}`
+                + (cell.block ? `\nProposer: ${proposedByUs ? `${proposer} (us)` : proposer}` : '')
+
+              return (
+                <a
+                  key={cell.height}
+                  className={`heatmap-cell heatmap-cell-${state}${proposedByUs ? ' heatmap-cell-proposed' : ''}`}
+                  href={`${explorerUrl}/block/${cell.height}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={title}
+                  aria-label={title}
+                />
+              )
+            })}
+          </div>
+          <div className="heatmap-legend">
+            <span><span className="heatmap-cell heatmap-cell-signed" /> Signed</span>
+            <span><span className="heatmap-cell heatmap-cell-missed" /> Missed</span>
+            <span><span className="heatmap-cell heatmap-cell-signed heatmap-cell-proposed" /> Proposed by us</span>
+            <span><span className="heatmap-cell heatmap-cell-loading" /> Loading</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
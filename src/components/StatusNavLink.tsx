@@ -0,0 +1,33 @@
+import { Link } from 'react-router-dom'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { useBranding } from '../contexts/BrandingContext'
+import { useUptime } from '../hooks/useUptime'
+import { toValidatorOperatorAddress } from '../utils/address'
+
+interface StatusNavLinkProps {
+  to: string
+  label: string
+}
+
+/**
+ * Navigation link to the status page that turns yellow/red when the
+ * validator's uptime approaches the jail threshold
+ */
+export function StatusNavLink({ to, label }: StatusNavLinkProps) {
+  const { address } = useTxAccount()
+  const { branding } = useBranding()
+  const validatorAddress = address ? toValidatorOperatorAddress(address) : branding.defaultValidator
+  const { uptime } = useUptime(validatorAddress)
+  const level = uptime?.level ?? 'ok'
+
+  const title = uptime && level !== 'ok'
+    ? `Uptime ${uptime.uptimePercent.toFixed(2)}%, ${uptime.blocksUntilJail} blocks left before jail`
+    : undefined
+
+  return (
+    <Link to={to} className={level !== 'ok' ? `nav-uptime-${level}` : undefined} title={title}>
+      {label}
+      {level !== 'ok' && <span className="nav-uptime-dot" aria-label={`Uptime ${level}`} />}
+    </Link>
+  )
+}
@@ -1,8 +1,19 @@
 import { useState, useEffect } from 'react'
-import { TransactionStatus as TxStatus } from '../types'
+import { Link } from 'react-router-dom'
+import { TransactionStatus as TxStatus, TxStage } from '../types'
 import { getMintscanLink } from '../services/transactions'
 import { useNetwork } from '../contexts/NetworkContext'
 
+const STAGE_LABELS: Record<TxStage, string> = {
+  build: 'Preparing transaction...',
+  simulate: 'Estimating gas...',
+  fee: 'Review the fee to continue...',
+  sign: 'Waiting for approval in your wallet...',
+  export: 'Exporting unsigned transaction...',
+  broadcast: 'Broadcasting transaction...',
+  confirm: 'Waiting for block finalization...',
+}
+
 interface TransactionStatusProps {
   status: TxStatus
   explorerUrl?: string
@@ -28,7 +39,8 @@ export function TransactionStatus({ status, explorerUrl, onDismiss, inline = fal
       return
     }
     
-    if (status.status !== 'idle') {
+    // Exported transactions stay until dismissed, the sign command is needed on the offline machine
+    if (status.status !== 'idle' && status.status !== 'exported') {
       const timer = setTimeout(() => {
         setIsVisible(false)
         if (onDismiss) {
@@ -59,7 +71,7 @@ export function TransactionStatus({ status, explorerUrl, onDismiss, inline = fal
         <div className="transaction-status-content">
           <p style={{ margin: 0, fontWeight: 600 }}>Transaction pending...</p>
           <p style={{ fontSize: '0.9em', opacity: 0.8, marginTop: '0.5rem', margin: 0 }}>
-            Waiting for block finalization...
+            {STAGE_LABELS[status.stage ?? 'confirm']}
           </p>
         </div>
       </div>
@@ -81,14 +93,16 @@ export function TransactionStatus({ status, explorerUrl, onDismiss, inline = fal
               <strong>Hash:</strong> <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{status.hash}</span>
             </div>
             <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-              <a 
-                href={mintscanLink} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="transaction-status-link"
-              >
-                View on Mintscan
-              </a>
+              {mintscanLink && (
+                <a 
+                  href={mintscanLink} 
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                  className="transaction-status-link"
+                >
+                  View on Mintscan
+                </a>
+              )}
               {explorerUrl && (
                 <a 
                   href={`${explorerUrl}/transaction/${status.hash}`} 
@@ -112,6 +126,31 @@ export function TransactionStatus({ status, explorerUrl, onDismiss, inline = fal
     )
   }
 
+  if (status.status === 'exported' && status.exportFile) {
+    return (
+      <div className="transaction-status-overlay info">
+        <button className="transaction-status-close" onClick={handleDismiss} aria-label="Close">
+          ×
+        </button>
+        <div className="transaction-status-content">
+          <p style={{ margin: 0, marginBottom: '0.75rem', fontWeight: 600 }}>Unsigned transaction exported</p>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', fontSize: '0.9em' }}>
+            <div>
+              Saved as <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{status.exportFile}</span>.
+              {status.multisig
+                ? 'Each member signs it on the Multisig page with their wallet, or offline:'
+                : 'Sign it on the offline machine:'}
+            </div>
+            <pre className="offline-sign-command">{status.signCommand}</pre>
+            <Link to={status.multisig ? '/multisig' : '/offline'} className="transaction-status-link">
+              {status.multisig ? 'Collect the signatures' : 'Import the signed file'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   if (status.status === 'warning' && status.warning) {
     if (inline) {
       return (
@@ -195,14 +234,16 @@ export function TransactionStatus({ status, explorerUrl, onDismiss, inline = fal
               <div style={{ marginBottom: '0.5rem' }}>
                 <strong>Hash:</strong> <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{status.hash}</span>
               </div>
-              <a 
-                href={getMintscanLink(status.hash, network)} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="transaction-status-link"
-              >
-                View on Mintscan
-              </a>
+              {getMintscanLink(status.hash, network) && (
+                <a 
+                  href={getMintscanLink(status.hash, network)} 
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                  className="transaction-status-link"
+                >
+                  View on Mintscan
+                </a>
+              )}
             </div>
           )}
         </div>
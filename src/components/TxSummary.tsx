@@ -0,0 +1,91 @@
+import type { UnsignedTxImport } from '../services/offline-tx'
+import { formatTokenAmount } from '../utils/format'
+
+interface TxSummaryProps {
+  tx: UnsignedTxImport
+  // Shown for signed transactions
+  signatureCount?: number
+}
+
+function isCoin(value: unknown): value is { denom: string; amount: string } {
+  return typeof value === 'object' && value !== null
+    && typeof (value as { denom?: unknown }).denom === 'string'
+    && typeof (value as { amount?: unknown }).amount === 'string'
+}
+
+function formatCoin(coin: { denom: string; amount: string }): string {
+  return coin.denom === 'inj' ? `${formatTokenAmount(coin.amount, 18, 6)} INJ` : `${coin.amount} ${coin.denom}`
+}
+
+function formatLabel(key: string): string {
+  const label = key.replace(/_/g, ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function isCoinList(value: unknown): value is { denom: string; amount: string }[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isCoin)
+}
+
+// Nested structures (descriptions, commission rates, MsgExec inner messages) are shown as JSON
+function isNested(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !isCoin(value) && !isCoinList(value)
+}
+
+function formatFieldValue(value: unknown): string {
+  if (isCoin(value)) {
+    return formatCoin(value)
+  }
+  if (isCoinList(value)) {
+    return value.map(formatCoin).join(', ')
+  }
+  if (isNested(value)) {
+    return JSON.stringify(value, null, 2)
+  }
+  return String(value)
+}
+
+/**
+ * Human-readable view of a transaction file before it is signed or broadcast
+ */
+export function TxSummary({ tx, signatureCount }: TxSummaryProps) {
+  return (
+    <div className="tx-summary">
+      {tx.messagesJSON.map((message, index) => (
+        <div key={index} className="info-section">
+          <h4>{String(message['@type']).split('.').pop()}</h4>
+          <div className="info-grid">
+            {Object.entries(message).filter(([key]) => key !== '@type').map(([key, value]) => (
+              <div key={key} className="info-item">
+                <span className="info-label">{formatLabel(key)}</span>
+                {isNested(value)
+                  ? <pre className="info-value signed-tx-field">{formatFieldValue(value)}</pre>
+                  : <span className="info-value">{formatFieldValue(value)}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="info-grid">
+        <div className="info-item">
+          <span className="info-label">Fee</span>
+          <span className="info-value">{tx.fee.amount.length > 0 ? tx.fee.amount.map(formatCoin).join(', ') : 'None'}</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">Gas Limit</span>
+          <span className="info-value">{tx.fee.gas}</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">Memo</span>
+          <span className="info-value">{tx.memo || '-'}</span>
+        </div>
+        {signatureCount !== undefined && (
+          <div className="info-item">
+            <span className="info-label">Signatures</span>
+            <span className="info-value">{signatureCount}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react'
+import { UnbondingDelegation } from '../types'
+import { formatDuration, formatTokenAmount } from '../utils/format'
+
+type UnbondingEntry = UnbondingDelegation['entries'][number]
+
+interface UnbondingTimelineProps {
+  unbonding: UnbondingDelegation | null
+  onCancel: (entry: UnbondingEntry) => Promise<void>
+  isSubmitting: boolean
+}
+
+// The staking module rejects new undelegations once a delegation has this many unbonding entries
+const MAX_UNBONDING_ENTRIES = 7
+const ENTRY_LIMIT_WARNING_THRESHOLD = 5
+
+export function UnbondingTimeline({ unbonding, onCancel, isSubmitting }: UnbondingTimelineProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const entries = [...(unbonding?.entries ?? [])].sort(
+    (a, b) => Date.parse(a.completionTime) - Date.parse(b.completionTime)
+  )
+
+  return (
+    <div className="unbonding-timeline">
+      <h3>Unbonding</h3>
+
+      {entries.length === 0 ? (
+        <p style={{ color: 'var(--text-tertiary)' }}>No pending unbonding entries.</p>
+      ) : (
+        <>
+          {entries.length >= ENTRY_LIMIT_WARNING_THRESHOLD && (
+            <div className="warning-box">
+              <strong>
+                {entries.length >= MAX_UNBONDING_ENTRIES ? 'Unbonding entry limit reached' : 'Unbonding entry limit close'}
+              </strong>
+              <p>
+                {entries.length} of {MAX_UNBONDING_ENTRIES} unbonding entries are in use.
+                {entries.length >= MAX_UNBONDING_ENTRIES
+                  ? ' New undelegations will fail until an entry completes or is cancelled.'
+                  : ' New undelegations fail once the limit is reached.'}
+              </p>
+            </div>
+          )}
+
+          <ol className="unbonding-entries">
+            {entries.map((entry) => {
+              const remainingMs = Date.parse(entry.completionTime) - now
+              const completed = remainingMs <= 0
+
+              return (
+                <li key={entry.creationHeight} className="unbonding-entry">
+                  <div className="unbonding-entry-amount">
+                    {formatTokenAmount(entry.balance)} INJ
+                    {entry.balance !== entry.initialBalance && (
+                      <span className="unbonding-entry-initial">
+                        {' '}(of {formatTokenAmount(entry.initialBalance)} INJ)
+                      </span>
+                    )}
+                  </div>
+                  <div className="unbonding-entry-time">
+                    {completed ? 'Completed' : `Completes in ${formatDuration(remainingMs)}`}
+                    <span className="unbonding-entry-date">
+                      {new Date(entry.completionTime).toLocaleString()} · started at block {entry.creationHeight}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onCancel(entry)}
+                    disabled={isSubmitting || completed}
+                  >
+                    Cancel Unbonding
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+          <p style={{ color: 'var(--text-tertiary)', fontSize: '0.875rem' }}>
+            Cancelling an entry delegates its remaining balance back to the validator immediately.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
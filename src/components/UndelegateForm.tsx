@@ -3,6 +3,7 @@ import { useForm, useWatch } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { delegationSchema, DelegationFormData } from '../utils/validation'
 import { DelegationInfo, ValidatorInfo } from '../types'
+import { formatTokenAmount, formatTokenAmountExact, parseTokenAmount } from '../utils/format'
 
 interface UndelegateFormProps {
   validatorAddress: string
@@ -12,6 +13,15 @@ interface UndelegateFormProps {
   validator: ValidatorInfo | null
 }
 
+// Entered amount in base units, 0 while the input is empty or invalid
+function parseAmountOrZero(amount: string | undefined): bigint {
+  try {
+    return amount ? BigInt(parseTokenAmount(amount)) : 0n
+  } catch {
+    return 0n
+  }
+}
+
 export function UndelegateForm({ validatorAddress, onSubmit, isSubmitting, currentDelegation, validator }: UndelegateFormProps) {
   const [warningDismissed, setWarningDismissed] = useState(false)
   
@@ -33,32 +43,32 @@ export function UndelegateForm({ validatorAddress, onSubmit, isSubmitting, curre
 
   const handleMaxClick = () => {
     if (currentDelegation && currentDelegation.balance) {
-      // Set to full delegation amount (allow unbonding all)
-      const balanceInInj = parseFloat(currentDelegation.balance.amount) / 1e18
-      setValue('amount', balanceInInj.toFixed(4))
+      // Set to the exact delegated amount, so unbonding all leaves no dust
+      setValue('amount', formatTokenAmountExact(currentDelegation.balance.amount))
       setWarningDismissed(false) // Show warning when MAX is clicked
     }
   }
 
+  // Compare in base units to avoid floating point rounding
+  const currentDelegationBase = BigInt(currentDelegation?.balance?.amount || '0')
+  const minSelfDelegationBase = BigInt(validator?.minSelfDelegation || '0')
+
   // Get current delegation amount in INJ
-  const currentDelegationInInj = currentDelegation && currentDelegation.balance
-    ? (parseFloat(currentDelegation.balance.amount) / 1e18).toFixed(4)
-    : '0.0000'
+  const currentDelegationInInj = formatTokenAmount(currentDelegationBase.toString())
 
   // Calculate min self delegation in INJ
-  const minSelfDelegationInInj = validator
-    ? (parseFloat(validator.minSelfDelegation) / 1e18).toFixed(4)
-    : '0.0000'
+  const minSelfDelegationInInj = formatTokenAmount(minSelfDelegationBase.toString())
 
   // Calculate maximum allowed undelegation
-  const maxUndelegationInInj = currentDelegation && validator
-    ? Math.max(0, parseFloat(currentDelegationInInj) - parseFloat(minSelfDelegationInInj)).toFixed(4)
-    : currentDelegationInInj
+  const maxUndelegationBase = currentDelegationBase > minSelfDelegationBase
+    ? currentDelegationBase - minSelfDelegationBase
+    : 0n
+  const maxUndelegationInInj = formatTokenAmountExact(maxUndelegationBase.toString())
 
   // Check if the entered amount would violate min-self-delegation
-  const amountValue = amount ? parseFloat(amount) : 0
-  const wouldViolateMinSelfDelegation = currentDelegation && validator && amountValue > 0
-    ? (parseFloat(currentDelegationInInj) - amountValue) < parseFloat(minSelfDelegationInInj)
+  const amountBase = parseAmountOrZero(amount)
+  const wouldViolateMinSelfDelegation = currentDelegation && validator && amountBase > 0n
+    ? currentDelegationBase - amountBase < minSelfDelegationBase
     : false
 
   return (
@@ -88,14 +98,14 @@ export function UndelegateForm({ validatorAddress, onSubmit, isSubmitting, curre
             <button
               type="button"
               onClick={handleMaxClick}
-              disabled={!currentDelegation || parseFloat(currentDelegationInInj) === 0}
+              disabled={!currentDelegation || currentDelegationBase === 0n}
               className="max-button-link"
             >
               MAX
             </button>
           </span>
         </label>
-        <input {...register('amount')} type="number" step="0.001" min="0" />
+        <input {...register('amount')} type="number" step="any" min="0" />
         {errors.amount && (
           <span className="error">{errors.amount.message}</span>
         )}
@@ -0,0 +1,54 @@
+import { UnjailBlocker, UnjailEligibility } from '../utils/unjail'
+import { formatDuration, formatTokenAmount } from '../utils/format'
+
+interface UnjailEligibilityPanelProps {
+  eligibility: UnjailEligibility
+}
+
+function describeBlocker(blocker: UnjailBlocker, eligibility: UnjailEligibility): string {
+  switch (blocker) {
+    case 'not-jailed':
+      return 'The validator is not jailed.'
+    case 'tombstoned':
+      return 'The validator is tombstoned after a double-sign and can never be unjailed.'
+    case 'jail-period':
+      return `The jail period has not ended yet${eligibility.jailedUntilMs !== null
+        ? ` (until ${new Date(eligibility.jailedUntilMs).toLocaleString()})`
+        : ''}.`
+    case 'self-delegation':
+      return `Self-delegation of ${formatTokenAmount(eligibility.selfDelegation)} INJ is below the minimum of `
+        + `${formatTokenAmount(eligibility.minSelfDelegation)} INJ. Delegate more from the operator account first.`
+  }
+}
+
+export function UnjailEligibilityPanel({ eligibility }: UnjailEligibilityPanelProps) {
+  const waiting = eligibility.blockers.includes('jail-period')
+
+  return (
+    <div className="unjail-eligibility">
+      {waiting && (
+        <div className="unjail-countdown">
+          <span className="info-label">Unjail possible in</span>
+          <span className="unjail-countdown-value">{formatDuration(eligibility.remainingMs)}</span>
+          {eligibility.downtimeJailDurationMs !== null && (
+            <small>Downtime jail duration: {formatDuration(eligibility.downtimeJailDurationMs)}</small>
+          )}
+        </div>
+      )}
+      {eligibility.eligible ? (
+        <div className="success-message">All checks passed. Unjailing should succeed.</div>
+      ) : (
+        <div className={eligibility.blockers.includes('tombstoned') ? 'error-message' : 'warning-box'}>
+          <strong>
+            {eligibility.blockers.includes('tombstoned') ? 'Unjail is not possible:' : 'Unjail is not possible yet:'}
+          </strong>
+          <ul className="unjail-blockers">
+            {eligibility.blockers.map((blocker) => (
+              <li key={blocker}>{describeBlocker(blocker, eligibility)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
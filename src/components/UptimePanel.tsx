@@ -0,0 +1,73 @@
+import { useUptime } from '../hooks/useUptime'
+import { describeQueryError } from '../services/lcd-client'
+import { formatDuration } from '../utils/format'
+
+interface UptimePanelProps {
+  validatorAddress: string
+}
+
+const LEVEL_BADGES = {
+  ok: { className: 'status-badge-success', label: 'Healthy' },
+  warning: { className: 'status-badge-warning', label: 'Missing blocks' },
+  critical: { className: 'status-badge-error', label: 'Critical' },
+}
+
+export function UptimePanel({ validatorAddress }: UptimePanelProps) {
+  const { uptime, isLoading, error } = useUptime(validatorAddress)
+
+  return (
+    <div className="info-section uptime-panel">
+      <h3>Uptime</h3>
+      {isLoading ? (
+        <div>Loading signing information...</div>
+      ) : !uptime ? (
+        <div className="error-message">
+          {error
+            ? `Failed to load signing information: ${describeQueryError(error)}`
+            : 'No signing information found. The validator may not have been in the active set yet.'}
+        </div>
+      ) : (
+        <>
+          <div className={`uptime-bar uptime-bar-${uptime.level}`}>
+            <div
+              className="uptime-bar-fill"
+              style={{ width: `${Math.min(100, (uptime.missedBlocks / Math.max(1, uptime.maxMissedBlocks)) * 100)}%` }}
+            />
+          </div>
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">Window Uptime</span>
+              <span className="info-value highlight-value">{uptime.uptimePercent.toFixed(2)}%</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">State</span>
+              <span className="info-value">
+                <span className={`status-badge ${LEVEL_BADGES[uptime.level].className}`}>
+                  {LEVEL_BADGES[uptime.level].label}
+                </span>
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Missed Blocks</span>
+              <span className="info-value">
+                {uptime.missedBlocks} of {uptime.maxMissedBlocks} allowed ({uptime.signedBlocksWindow} block window)
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Blocks Left Before Jail</span>
+              <span className={`info-value ${uptime.level === 'ok' ? 'status-active' : 'status-jailed'}`}>
+                {uptime.blocksUntilJail}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Time To Jail If Offline</span>
+              <span className="info-value">
+                {uptime.timeToJailMs !== null ? `~${formatDuration(uptime.timeToJailMs)}` : 'Unknown'}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
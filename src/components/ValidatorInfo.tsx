@@ -1,14 +1,17 @@
 import { useState, useEffect } from 'react'
 import { ValidatorInfo as ValidatorInfoType, OrchestratorMapping } from '../types'
 import { formatTokenAmount } from '../utils/format'
+import { AccountAddress } from './AccountAddress'
 
 interface ValidatorInfoProps {
   validator: ValidatorInfoType | null
   orchestrator: OrchestratorMapping | null
+  // Set when the mapping could not be loaded, as opposed to not being registered
+  orchestratorError?: string | null
   loading: boolean
 }
 
-export function ValidatorInfo({ validator, orchestrator, loading }: ValidatorInfoProps) {
+export function ValidatorInfo({ validator, orchestrator, orchestratorError, loading }: ValidatorInfoProps) {
   // Hooks must be called before any early returns
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null)
   const [profileImageError, setProfileImageError] = useState(false)
@@ -158,6 +161,21 @@ export function ValidatorInfo({ validator, orchestrator, loading }: ValidatorInf
               <span className="info-value status-error">Yes (Validator is permanently banned)</span>
             </div>
           )}
+          {validator.slashingInfo && (
+            <div className="info-item">
+              <span className="info-label">Missed Blocks</span>
+              <span className="info-value">
+                {validator.slashingInfo.missedBlocksCounter}
+                {validator.slashingParams && ` / ${validator.slashingParams.signedBlocksWindow}`}
+              </span>
+            </div>
+          )}
+          {validator.slashingInfo && (
+            <div className="info-item info-item-full">
+              <span className="info-label">Consensus Address</span>
+              <span className="info-value address-value">{validator.slashingInfo.consensusAddress}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -197,21 +215,46 @@ export function ValidatorInfo({ validator, orchestrator, loading }: ValidatorInf
         </div>
       </div>
 
-      {orchestrator && (
-        <div className="info-section">
-          <h3>Orchestrator</h3>
-          <div className="info-grid">
+      <div className="info-section">
+        <h3>Orchestrator</h3>
+        <div className="info-grid">
+          <div className="info-item info-item-full">
+            <span className="info-label">Validator Operator</span>
+            <span className="info-value address-value">{validator.operatorAddress}</span>
+          </div>
+          <div className="info-item info-item-full">
+            <span className="info-label">Orchestrator Address</span>
+            {orchestrator ? (
+              <AccountAddress address={orchestrator.orchestratorAddress} />
+            ) : (
+              <span className="info-value address-value status-jailed">
+                {orchestratorError ? 'Unavailable' : 'Not registered'}
+              </span>
+            )}
+          </div>
+          <div className="info-item info-item-full">
+            <span className="info-label">Ethereum Address</span>
+            {orchestrator ? (
+              <AccountAddress address={orchestrator.ethereumAddress} primary="ethereum" />
+            ) : (
+              <span className="info-value address-value status-jailed">
+                {orchestratorError ? 'Unavailable' : 'Not registered'}
+              </span>
+            )}
+          </div>
+          {orchestratorError ? (
             <div className="info-item info-item-full">
-              <span className="info-label">Orchestrator Address</span>
-              <span className="info-value address-value">{orchestrator.orchestratorAddress}</span>
+              <span className="info-value status-error">Failed to load orchestrator mapping: {orchestratorError}</span>
             </div>
+          ) : !orchestrator && (
             <div className="info-item info-item-full">
-              <span className="info-label">Ethereum Address</span>
-              <span className="info-value address-value">{orchestrator.ethereumAddress}</span>
+              <span className="info-value">
+                No orchestrator is registered for this validator. Peggy bridge duties cannot be performed until orchestrator and Ethereum addresses are set.
+              </span>
             </div>
-          </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react'
+import { ValidatorInfo } from '../types'
+
+interface ValidatorPickerProps {
+  validators: ValidatorInfo[]
+  selectedAddress: string | null
+  // Pinned to the top and labelled, e.g. the whitelabel operator's validator
+  featuredAddress?: string
+  featuredLabel?: string
+  onSelect: (validatorAddress: string) => void
+}
+
+// Rendering hundreds of rows makes typing in the search box sluggish
+const MAX_RESULTS = 50
+
+function byStake(a: ValidatorInfo, b: ValidatorInfo): number {
+  const difference = BigInt(b.tokens || '0') - BigInt(a.tokens || '0')
+  return difference > 0n ? 1 : difference < 0n ? -1 : 0
+}
+
+export function ValidatorPicker({
+  validators,
+  selectedAddress,
+  featuredAddress,
+  featuredLabel,
+  onSelect,
+}: ValidatorPickerProps) {
+  const [search, setSearch] = useState('')
+
+  // Active validators first, ordered by stake; the featured validator always leads
+  const sortedValidators = useMemo(() => {
+    const rank = (validator: ValidatorInfo) =>
+      validator.operatorAddress === featuredAddress ? 0 : validator.status === 'BOND_STATUS_BONDED' && !validator.jailed ? 1 : 2
+    return [...validators].sort((a, b) => rank(a) - rank(b) || byStake(a, b))
+  }, [validators, featuredAddress])
+
+  const query = search.trim().toLowerCase()
+  const matches = query
+    ? sortedValidators.filter(
+        (validator) =>
+          validator.moniker.toLowerCase().includes(query) || validator.operatorAddress.toLowerCase() === query
+      )
+    : sortedValidators
+
+  return (
+    <div className="validator-picker">
+      <div className="form-group">
+        <label>
+          Search Validators:
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Moniker or injvaloper... address"
+          />
+        </label>
+      </div>
+
+      {matches.length === 0 ? (
+        <p style={{ color: 'var(--text-tertiary)' }}>No validators match "{search}".</p>
+      ) : (
+        <ul className="validator-picker-list">
+          {matches.slice(0, MAX_RESULTS).map((validator) => (
+            <li key={validator.operatorAddress}>
+              <button
+                type="button"
+                className={`validator-picker-item${validator.operatorAddress === selectedAddress ? ' selected' : ''}`}
+                onClick={() => onSelect(validator.operatorAddress)}
+              >
+                <span className="validator-picker-moniker">
+                  {validator.moniker || validator.operatorAddress}
+                  {validator.operatorAddress === featuredAddress && featuredLabel && (
+                    <span className="status-badge status-badge-success">{featuredLabel}</span>
+                  )}
+                  {validator.jailed ? (
+                    <span className="status-badge status-badge-warning">Jailed</span>
+                  ) : validator.status !== 'BOND_STATUS_BONDED' && (
+                    <span className="status-badge status-badge-info">Inactive</span>
+                  )}
+                </span>
+                <span className="validator-picker-meta">
+                  {(parseFloat(validator.commission.rate) * 100).toFixed(2)}% commission ·{' '}
+                  {(BigInt(validator.tokens || '0') / 10n ** 18n).toLocaleString()} INJ staked
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {matches.length > MAX_RESULTS && (
+        <p style={{ color: 'var(--text-tertiary)', fontSize: '0.875rem' }}>
+          Showing {MAX_RESULTS} of {matches.length} validators. Refine the search to see more.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -153,7 +153,7 @@ export function ValidatorRegistrationForm({ onSubmit, isSubmitting }: ValidatorR
         <div className="form-group">
           <label>
             Min Self Delegation (INJ):
-            <input {...register('minSelfDelegation')} type="number" step="0.001" min="0" />
+            <input {...register('minSelfDelegation')} type="number" step="any" min="0" />
           </label>
           {errors.minSelfDelegation && (
             <span className="error">{errors.minSelfDelegation.message}</span>
@@ -163,7 +163,7 @@ export function ValidatorRegistrationForm({ onSubmit, isSubmitting }: ValidatorR
         <div className="form-group">
           <label>
             Self Delegation Amount (INJ):
-            <input {...register('selfDelegation')} type="number" step="0.001" min="0" />
+            <input {...register('selfDelegation')} type="number" step="any" min="0" />
           </label>
           {errors.selfDelegation && (
             <span className="error">{errors.selfDelegation.message}</span>
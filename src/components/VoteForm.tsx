@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { weightedVoteSchema, WeightedVoteFormData } from '../utils/validation'
+import { VoteOption, WeightedVoteOption } from '../types'
+import { percentToVoteWeight, VOTE_OPTION_LABELS } from '../utils/governance'
+
+interface VoteFormProps {
+  onVote: (options: WeightedVoteOption[]) => Promise<void>
+  isSubmitting: boolean
+}
+
+const WEIGHTED_FIELDS: Array<{ name: keyof WeightedVoteFormData; option: VoteOption }> = [
+  { name: 'yes', option: 'VOTE_OPTION_YES' },
+  { name: 'no', option: 'VOTE_OPTION_NO' },
+  { name: 'abstain', option: 'VOTE_OPTION_ABSTAIN' },
+  { name: 'noWithVeto', option: 'VOTE_OPTION_NO_WITH_VETO' },
+]
+
+export function VoteForm({ onVote, isSubmitting }: VoteFormProps) {
+  const [weighted, setWeighted] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<WeightedVoteFormData>({
+    resolver: zodResolver(weightedVoteSchema),
+    defaultValues: { yes: '', no: '', abstain: '', noWithVeto: '' },
+  })
+
+  const submitWeighted = (data: WeightedVoteFormData) =>
+    onVote(
+      WEIGHTED_FIELDS
+        .filter(({ name }) => (parseFloat(data[name]) || 0) > 0)
+        .map(({ name, option }) => ({ option, weight: percentToVoteWeight(data[name]) }))
+    )
+
+  return (
+    <div className="vote-form">
+      {!weighted ? (
+        <div className="vote-buttons">
+          {WEIGHTED_FIELDS.map(({ option }) => (
+            <button
+              key={option}
+              type="button"
+              className={`vote-button vote-button-${option.replace('VOTE_OPTION_', '').toLowerCase()}`}
+              disabled={isSubmitting}
+              onClick={() => onVote([{ option, weight: '1' }])}
+            >
+              {VOTE_OPTION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(submitWeighted)} className="weighted-vote-form">
+          <div className="weighted-vote-fields">
+            {WEIGHTED_FIELDS.map(({ name, option }) => (
+              <div key={name} className="form-group">
+                <label>
+                  {VOTE_OPTION_LABELS[option]} (%):
+                  <input {...register(name)} type="number" step="0.01" min="0" max="100" placeholder="0" />
+                </label>
+                {errors[name] && <span className="error">{errors[name]?.message}</span>}
+              </div>
+            ))}
+          </div>
+          <button type="submit" className="vote-button" disabled={isSubmitting}>
+            {isSubmitting ? 'Submitting...' : 'Submit Weighted Vote'}
+          </button>
+        </form>
+      )}
+      <button type="button" className="max-button-link" onClick={() => setWeighted(!weighted)}>
+        {weighted ? 'Single option vote' : 'Split vote (weighted)'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { z } from 'zod'
+import { validatorOperatorAddressSchema } from '../utils/validation'
+
+/**
+ * Runtime branding / operator profile configuration.
+ *
+ * The config is served as `branding.json` next to `index.html`, so every
+ * deployment can be rebranded by replacing that file without rebuilding.
+ * Any field that is missing falls back to the defaults below.
+ */
+
+export const BRANDING_CONFIG_FILE = 'branding.json'
+
+// A single URL or an ordered list of URLs (first = preferred)
+const endpointListSchema = (message: string) => z
+  .union([z.string().url(message), z.array(z.string().url(message)).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]))
+
+const endpointConfigSchema = z.object({
+  rpc: endpointListSchema('Invalid RPC URL'),
+  rest: endpointListSchema('Invalid REST URL'),
+  grpc: z.string().optional(),
+})
+
+export const brandingConfigSchema = z.object({
+  productName: z.string().min(1, 'Product name is required').optional(),
+  operatorName: z.string().min(1, 'Operator name is required').optional(),
+  logo: z.object({
+    src: z.string().min(1, 'Logo source is required'),
+    alt: z.string().optional(),
+  }).optional(),
+  // Keys are CSS custom property names without the leading "--" (e.g. "accent-primary")
+  theme: z.record(
+    z.string().regex(/^[a-z0-9-]+$/, 'Theme keys must be CSS variable names without "--"'),
+    z.string().min(1)
+  ).optional(),
+  footerLinks: z.array(z.object({
+    label: z.string().min(1, 'Footer link label is required'),
+    url: z.string().url('Invalid footer link URL'),
+  })).optional(),
+  defaultValidator: validatorOperatorAddressSchema.optional(),
+  // INJ; the status page warns when the orchestrator account holds less
+  orchestratorMinBalance: z.number().nonnegative('Orchestrator minimum balance cannot be negative').optional(),
+  routes: z.object({
+    register: z.boolean(),
+    orchestrator: z.boolean(),
+    edit: z.boolean(),
+    delegation: z.boolean(),
+    unjail: z.boolean(),
+    rewards: z.boolean(),
+    governance: z.boolean(),
+    authz: z.boolean(),
+    offline: z.boolean(),
+    multisig: z.boolean(),
+    status: z.boolean(),
+  }).partial().optional(),
+  endpoints: z.object({
+    mainnet: endpointConfigSchema,
+    testnet: endpointConfigSchema,
+  }).partial().optional(),
+})
+
+export type BrandingConfigInput = z.output<typeof brandingConfigSchema>
+export type EndpointConfig = z.output<typeof endpointConfigSchema>
+export type RouteKey = 'register' | 'orchestrator' | 'edit' | 'delegation' | 'unjail' | 'rewards' | 'governance' | 'authz' | 'offline' | 'multisig' | 'status'
+
+export interface BrandingConfig {
+  productName: string
+  operatorName: string
+  logo: {
+    src: string
+    alt: string
+  }
+  theme: Record<string, string>
+  footerLinks: Array<{ label: string; url: string }>
+  defaultValidator?: string
+  orchestratorMinBalance: number
+  routes: Record<RouteKey, boolean>
+  endpoints: Partial<Record<'mainnet' | 'testnet', EndpointConfig>>
+}
+
+export const DEFAULT_BRANDING: BrandingConfig = {
+  productName: 'Injective Validator Control',
+  operatorName: 'CryptoCrew Validators',
+  logo: {
+    src: 'ccvalidators_logo.png',
+    alt: 'CryptoCrew Validators',
+  },
+  theme: {},
+  footerLinks: [],
+  orchestratorMinBalance: 1,
+  routes: {
+    register: true,
+    orchestrator: true,
+    edit: true,
+    delegation: true,
+    unjail: true,
+    rewards: true,
+    governance: true,
+    authz: true,
+    offline: true,
+    multisig: true,
+    status: true,
+  },
+  endpoints: {},
+}
+
+/**
+ * Merges a validated config over the defaults
+ */
+export function resolveBrandingConfig(input: BrandingConfigInput): BrandingConfig {
+  return {
+    productName: input.productName ?? DEFAULT_BRANDING.productName,
+    operatorName: input.operatorName ?? DEFAULT_BRANDING.operatorName,
+    logo: {
+      src: input.logo?.src ?? DEFAULT_BRANDING.logo.src,
+      alt: input.logo?.alt ?? input.operatorName ?? DEFAULT_BRANDING.logo.alt,
+    },
+    theme: { ...DEFAULT_BRANDING.theme, ...input.theme },
+    footerLinks: input.footerLinks ?? DEFAULT_BRANDING.footerLinks,
+    defaultValidator: input.defaultValidator ?? DEFAULT_BRANDING.defaultValidator,
+    orchestratorMinBalance: input.orchestratorMinBalance ?? DEFAULT_BRANDING.orchestratorMinBalance,
+    routes: { ...DEFAULT_BRANDING.routes, ...input.routes },
+    endpoints: { ...DEFAULT_BRANDING.endpoints, ...input.endpoints },
+  }
+}
+
+/**
+ * Resolves an asset path from the config relative to the app base URL.
+ * Absolute URLs are returned unchanged.
+ */
+export function resolveBrandingAsset(src: string): string {
+  if (/^(https?:)?\/\//.test(src) || src.startsWith('data:')) {
+    return src
+  }
+  return `${import.meta.env.BASE_URL}${src.replace(/^\//, '')}`
+}
+
+/**
+ * Loads and validates the branding config served next to index.html.
+ * Falls back to the defaults when the file is missing or invalid.
+ */
+export async function loadBrandingConfig(): Promise<BrandingConfig> {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}${BRANDING_CONFIG_FILE}`, { cache: 'no-cache' })
+
+    if (!response.ok) {
+      console.warn(`[Branding] ${BRANDING_CONFIG_FILE} not found (${response.status}), using defaults`)
+      return DEFAULT_BRANDING
+    }
+
+    const data = await response.json()
+    const result = brandingConfigSchema.safeParse(data)
+
+    if (!result.success) {
+      console.error('[Branding] Invalid branding config, using defaults:', result.error.issues)
+      return DEFAULT_BRANDING
+    }
+
+    return resolveBrandingConfig(result.data)
+  } catch (error) {
+    console.error('[Branding] Error loading branding config, using defaults:', error)
+    return DEFAULT_BRANDING
+  }
+}
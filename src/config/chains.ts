@@ -1,32 +1,113 @@
 import { Chain } from '@chain-registry/types'
-import { Network, ChainConfig } from '../types'
+import { Network, BuiltinNetwork, ChainConfig, CustomNetworkId } from '../types'
+import type { EndpointConfig } from './branding'
+import { getCustomNetworks } from '../utils/network-storage'
 
 export const MAINNET_CONFIG: ChainConfig = {
+  name: 'Injective',
   chainId: 'injective-1',
-  rpc: 'https://rpc.injective-main-eu1.ccvalidators.com:443',
-  rest: 'https://rest.injective-main-eu1.ccvalidators.com:443',
+  rpc: [
+    'https://rpc.injective-main-eu1.ccvalidators.com:443',
+    'https://sentry.tm.injective.network:443',
+  ],
+  rest: [
+    'https://rest.injective-main-eu1.ccvalidators.com:443',
+    'https://sentry.lcd.injective.network:443',
+  ],
+  grpc: 'grpc.injective-main-eu1.ccvalidators.com:443',
+  explorer: 'https://explorer.injective.network',
   bech32Prefix: 'inj',
 }
 
 export const TESTNET_CONFIG: ChainConfig = {
+  name: 'Injective Testnet',
   chainId: 'injective-888',
-  rpc: 'https://testnet.tm.injective.dev',
-  rest: 'https://testnet.lcd.injective.dev',
+  rpc: [
+    'https://testnet.tm.injective.dev',
+    'https://testnet.sentry.tm.injective.network:443',
+  ],
+  rest: [
+    'https://testnet.lcd.injective.dev',
+    'https://testnet.sentry.lcd.injective.network:443',
+  ],
+  explorer: 'https://testnet.explorer.injective.network',
   bech32Prefix: 'inj',
 }
 
+export const BUILTIN_NETWORKS: BuiltinNetwork[] = ['mainnet', 'testnet']
+
+// Gas prices in inj (10^-18 INJ) per gas unit for the low/average/high fee tiers
+export const INJ_GAS_PRICES = {
+  low: 500000000,
+  average: 700000000,
+  high: 900000000,
+} as const
+
+// Endpoint overrides from the runtime branding config (see config/branding.ts)
+let endpointOverrides: Partial<Record<BuiltinNetwork, EndpointConfig>> = {}
+
+/**
+ * Replaces the built-in endpoints with the ones from the branding config.
+ * Must be called before any service reads the chain config.
+ */
+export function configureChainEndpoints(overrides: Partial<Record<BuiltinNetwork, EndpointConfig>>) {
+  endpointOverrides = overrides
+}
+
+export function isCustomNetwork(network: string): network is CustomNetworkId {
+  return network.startsWith('custom-')
+}
+
+/**
+ * Checks whether a network id refers to a built-in or a stored custom network
+ */
+export function isKnownNetwork(network: string): network is Network {
+  if (isCustomNetwork(network)) {
+    return getCustomNetworks().some((custom) => custom.id === network)
+  }
+  return (BUILTIN_NETWORKS as string[]).includes(network)
+}
+
 export function getChainConfig(network: Network): ChainConfig {
-  return network === 'mainnet' ? MAINNET_CONFIG : TESTNET_CONFIG
+  if (isCustomNetwork(network)) {
+    const custom = getCustomNetworks().find((candidate) => candidate.id === network)
+    if (!custom) {
+      // Never fall back silently: a transaction could end up on the wrong chain
+      throw new Error(`Unknown network: ${network}`)
+    }
+    return {
+      name: custom.name,
+      chainId: custom.chainId,
+      rpc: [custom.rpc],
+      rest: [custom.rest],
+      explorer: custom.explorer,
+      bech32Prefix: 'inj',
+    }
+  }
+
+  const baseConfig = network === 'mainnet' ? MAINNET_CONFIG : TESTNET_CONFIG
+  const override = endpointOverrides[network]
+
+  if (!override) {
+    return baseConfig
+  }
+
+  return {
+    ...baseConfig,
+    rpc: override.rpc,
+    rest: override.rest,
+    grpc: override.grpc ?? baseConfig.grpc,
+  }
 }
 
 export function getInjectiveChainConfig(network: Network = 'mainnet'): Chain {
-  const config = network === 'mainnet' ? MAINNET_CONFIG : TESTNET_CONFIG
+  const config = getChainConfig(network)
   
   return {
     chain_name: 'injective',
-    status: network === 'mainnet' ? 'live' : 'live',
-    network_type: network,
-    pretty_name: network === 'mainnet' ? 'Injective' : 'Injective Testnet',
+    status: 'live',
+    network_type: network === 'mainnet' ? 'mainnet' : 'testnet',
+    pretty_name: config.name,
     chain_id: config.chainId,
     bech32_prefix: config.bech32Prefix,
     daemon_name: 'injectived',
@@ -36,10 +117,10 @@ export function getInjectiveChainConfig(network: Network = 'mainnet'): Chain {
       fee_tokens: [
         {
           denom: 'inj',
-          fixed_min_gas_price: 500000000,
-          low_gas_price: 500000000,
-          average_gas_price: 700000000,
-          high_gas_price: 900000000,
+          fixed_min_gas_price: INJ_GAS_PRICES.low,
+          low_gas_price: INJ_GAS_PRICES.low,
+          average_gas_price: INJ_GAS_PRICES.average,
+          high_gas_price: INJ_GAS_PRICES.high,
         },
       ],
     },
@@ -51,32 +132,20 @@ export function getInjectiveChainConfig(network: Network = 'mainnet'): Chain {
       ],
     },
     apis: {
-      rpc: [
-        {
-          address: config.rpc,
-        },
-      ],
-      rest: [
-        {
-          address: config.rest,
-        },
-      ],
-      grpc: network === 'mainnet' ? [
+      rpc: config.rpc.map((address) => ({ address })),
+      rest: config.rest.map((address) => ({ address })),
+      grpc: config.grpc ? [
         {
-          address: 'grpc.injective-main-eu1.ccvalidators.com:443',
+          address: config.grpc,
         },
       ] : undefined,
     },
-    explorers: [
+    explorers: config.explorer ? [
       {
         kind: 'injectiveprotocol',
-        url: network === 'mainnet' 
-          ? 'https://explorer.injective.network'
-          : 'https://testnet.explorer.injective.network',
-        tx_page: network === 'mainnet'
-          ? 'https://explorer.injective.network/transaction/${txHash}'
-          : 'https://testnet.explorer.injective.network/transaction/${txHash}',
+        url: config.explorer,
+        tx_page: `${config.explorer}/transaction/\${txHash}`,
       },
-    ],
+    ] : [],
   } as Chain
 }
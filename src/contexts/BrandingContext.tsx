@@ -0,0 +1,61 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { BrandingConfig, loadBrandingConfig } from '../config/branding'
+import { configureChainEndpoints } from '../config/chains'
+
+interface BrandingContextType {
+  branding: BrandingConfig
+}
+
+const BrandingContext = createContext<BrandingContextType | undefined>(undefined)
+
+function applyBranding(branding: BrandingConfig) {
+  // Endpoints must be in place before any service reads the chain config
+  configureChainEndpoints(branding.endpoints)
+
+  const root = document.documentElement
+  Object.entries(branding.theme).forEach(([name, value]) => {
+    root.style.setProperty(`--${name}`, value)
+  })
+
+  document.title = branding.productName
+}
+
+export function BrandingProvider({ children }: { children: ReactNode }) {
+  const [branding, setBranding] = useState<BrandingConfig | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadBrandingConfig().then((config) => {
+      if (cancelled) return
+      applyBranding(config)
+      setBranding(config)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!branding) {
+    return (
+      <div style={{ padding: '2rem', color: 'white', background: '#242424', minHeight: '100vh' }}>
+        <h1>Loading...</h1>
+      </div>
+    )
+  }
+
+  return (
+    <BrandingContext.Provider value={{ branding }}>
+      {children}
+    </BrandingContext.Provider>
+  )
+}
+
+export function useBranding() {
+  const context = useContext(BrandingContext)
+  if (!context) {
+    throw new Error('useBranding must be used within BrandingProvider')
+  }
+  return context
+}
@@ -1,23 +1,148 @@
-import { createContext, useContext, ReactNode } from 'react'
-import { Network } from '../types'
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Network, CustomNetworkConfig, CustomNetworkId } from '../types'
+import { BUILTIN_NETWORKS, getChainConfig, isKnownNetwork } from '../config/chains'
+import { getStoredNetwork, setStoredNetwork, getCustomNetworks, saveCustomNetworks } from '../utils/network-storage'
+import { CustomNetworkFormData } from '../utils/validation'
+
+const NETWORK_QUERY_PARAM = 'network'
+
+export interface NetworkOption {
+  id: Network
+  name: string
+  chainId: string
+}
 
 interface NetworkContextType {
   network: Network
+  networks: NetworkOption[]
+  customNetworks: CustomNetworkConfig[]
+  setNetwork: (network: Network) => void
+  addCustomNetwork: (data: CustomNetworkFormData) => CustomNetworkId
+  removeCustomNetwork: (id: CustomNetworkId) => void
 }
 
 const NetworkContext = createContext<NetworkContextType | undefined>(undefined)
 
+/**
+ * Resolves the initial network: ?network= in the URL first, then the persisted choice
+ */
+function getInitialNetwork(): Network {
+  const fromUrl = new URLSearchParams(window.location.search).get(NETWORK_QUERY_PARAM)
+  if (fromUrl && isKnownNetwork(fromUrl)) {
+    return fromUrl
+  }
+
+  const stored = getStoredNetwork()
+  if (stored && isKnownNetwork(stored)) {
+    return stored
+  }
+
+  return 'mainnet'
+}
+
+function createCustomNetworkId(name: string, existing: CustomNetworkConfig[]): CustomNetworkId {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'network'
+  let id: CustomNetworkId = `custom-${slug}`
+  let suffix = 2
+  while (existing.some((network) => network.id === id)) {
+    id = `custom-${slug}-${suffix}`
+    suffix++
+  }
+  return id
+}
+
 export function NetworkProvider({ children }: { children: ReactNode }) {
-  // Always use mainnet - network selector removed
-  const network: Network = 'mainnet'
+  const [customNetworks, setCustomNetworks] = useState<CustomNetworkConfig[]>(() => getCustomNetworks())
+  const [network, setNetworkState] = useState<Network>(getInitialNetwork)
+
+  // Persist the selected network; NetworkUrlSync keeps it in the URL
+  useEffect(() => {
+    setStoredNetwork(network)
+  }, [network])
+
+  const setNetwork = useCallback((next: Network) => {
+    if (!isKnownNetwork(next)) {
+      console.error('[Network] Ignoring unknown network:', next)
+      return
+    }
+    setNetworkState(next)
+  }, [])
+
+  const addCustomNetwork = useCallback((data: CustomNetworkFormData) => {
+    const current = getCustomNetworks()
+    const id = createCustomNetworkId(data.name, current)
+    const updated = [
+      ...current,
+      {
+        id,
+        name: data.name,
+        chainId: data.chainId,
+        rpc: data.rpc.replace(/\/+$/, ''),
+        rest: data.rest.replace(/\/+$/, ''),
+        explorer: data.explorer ? data.explorer.replace(/\/+$/, '') : undefined,
+      },
+    ]
+    saveCustomNetworks(updated)
+    setCustomNetworks(updated)
+    return id
+  }, [])
+
+  const removeCustomNetwork = useCallback((id: CustomNetworkId) => {
+    const updated = getCustomNetworks().filter((custom) => custom.id !== id)
+    saveCustomNetworks(updated)
+    setCustomNetworks(updated)
+    // Switch away first so nothing keeps reading the removed config
+    setNetworkState((current) => (current === id ? 'mainnet' : current))
+  }, [])
+
+  const networks: NetworkOption[] = [
+    ...BUILTIN_NETWORKS.map((id) => {
+      const config = getChainConfig(id)
+      return { id, name: config.name, chainId: config.chainId }
+    }),
+    ...customNetworks.map((custom) => ({ id: custom.id, name: custom.name, chainId: custom.chainId })),
+  ]
 
   return (
-    <NetworkContext.Provider value={{ network }}>
+    <NetworkContext.Provider value={{ network, networks, customNetworks, setNetwork, addCustomNetwork, removeCustomNetwork }}>
       {children}
     </NetworkContext.Provider>
   )
 }
 
+/**
+ * Keeps ?network= in the URL for the selected network (omitted for mainnet).
+ * Router links and navigate() drop the query string, so it is re-applied after every
+ * navigation; render it inside the router.
+ */
+export function NetworkUrlSync() {
+  const { network } = useNetwork()
+  const location = useLocation()
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    const params = new URLSearchParams(location.search)
+    const expected = network === 'mainnet' ? null : network
+    if (params.get(NETWORK_QUERY_PARAM) === expected) {
+      return
+    }
+
+    if (expected) {
+      params.set(NETWORK_QUERY_PARAM, expected)
+    } else {
+      params.delete(NETWORK_QUERY_PARAM)
+    }
+    const search = params.toString()
+    navigate(
+      { pathname: location.pathname, search: search ? `?${search}` : '', hash: location.hash },
+      { replace: true, state: location.state }
+    )
+  }, [network, location, navigate])
+
+  return null
+}
+
 export function useNetwork() {
   const context = useContext(NetworkContext)
   if (!context) {
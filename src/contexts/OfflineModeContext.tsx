@@ -0,0 +1,32 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { getStoredOfflineAddress, setStoredOfflineAddress } from '../utils/offline-storage'
+
+interface OfflineModeContextType {
+  // Account whose transactions are exported unsigned instead of signed by the wallet; null when off
+  offlineAddress: string | null
+  setOfflineAddress: (address: string | null) => void
+}
+
+const OfflineModeContext = createContext<OfflineModeContextType | undefined>(undefined)
+
+export function OfflineModeProvider({ children }: { children: ReactNode }) {
+  const [offlineAddress, setOfflineAddress] = useState<string | null>(getStoredOfflineAddress)
+
+  useEffect(() => {
+    setStoredOfflineAddress(offlineAddress)
+  }, [offlineAddress])
+
+  return (
+    <OfflineModeContext.Provider value={{ offlineAddress, setOfflineAddress }}>
+      {children}
+    </OfflineModeContext.Provider>
+  )
+}
+
+export function useOfflineMode() {
+  const context = useContext(OfflineModeContext)
+  if (!context) {
+    throw new Error('useOfflineMode must be used within OfflineModeProvider')
+  }
+  return context
+}
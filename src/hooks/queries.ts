@@ -0,0 +1,273 @@
+import { useNetwork } from '../contexts/NetworkContext'
+import { OrchestratorMapping } from '../types'
+import { QueryService } from '../services/queries'
+import { queryKeys } from '../services/query-store'
+import { toConsensusAddress } from '../utils/pubkey'
+import { useQuery, UseQueryOptions } from './useQuery'
+
+/**
+ * Cached chain queries shared by all pages on the current network.
+ * Passing an empty address disables the query.
+ */
+
+export function useValidatorQuery(validatorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    validatorAddress ? queryKeys.validator(network, validatorAddress) : null,
+    () => new QueryService(network).getValidator(validatorAddress!),
+    options
+  )
+}
+
+export function useBalanceQuery(address: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    address ? queryKeys.balance(network, address) : null,
+    () => new QueryService(network).getBalance(address!),
+    options
+  )
+}
+
+export function useDelegationQuery(
+  delegatorAddress: string | null | undefined,
+  validatorAddress: string | null | undefined,
+  options?: UseQueryOptions
+) {
+  const { network } = useNetwork()
+  return useQuery(
+    delegatorAddress && validatorAddress ? queryKeys.delegation(network, delegatorAddress, validatorAddress) : null,
+    () => new QueryService(network).getDelegation(delegatorAddress!, validatorAddress!),
+    options
+  )
+}
+
+export function useUnbondingDelegationQuery(
+  delegatorAddress: string | null | undefined,
+  validatorAddress: string | null | undefined,
+  options?: UseQueryOptions
+) {
+  const { network } = useNetwork()
+  return useQuery(
+    delegatorAddress && validatorAddress ? queryKeys.unbonding(network, delegatorAddress, validatorAddress) : null,
+    () => new QueryService(network).getUnbondingDelegation(delegatorAddress!, validatorAddress!),
+    options
+  )
+}
+
+export function useRedelegationsQuery(delegatorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    delegatorAddress ? queryKeys.redelegations(network, delegatorAddress) : null,
+    () => new QueryService(network).getRedelegations(delegatorAddress!),
+    options
+  )
+}
+
+export function useOrchestratorQuery(validatorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    validatorAddress ? queryKeys.orchestrator(network, validatorAddress) : null,
+    () => new QueryService(network).getOrchestratorMapping(validatorAddress!),
+    options
+  )
+}
+
+/**
+ * Peggy valsets, batches and event claims pending for an orchestrator
+ */
+export function useOrchestratorPeggyStateQuery(orchestratorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    orchestratorAddress ? queryKeys.orchestratorPeggyState(network, orchestratorAddress) : null,
+    () => new QueryService(network).getOrchestratorPeggyState(orchestratorAddress!),
+    options
+  )
+}
+
+// Genesis-sized on mainnet, so it is never polled and only refetched once this old
+const PEGGY_MODULE_STATE_STALE_TIME_MS = 10 * 60_000
+
+/**
+ * Registered orchestrators and the last observed Ethereum event nonce
+ */
+export function usePeggyModuleStateQuery(enabled = true) {
+  const { network } = useNetwork()
+  return useQuery(
+    enabled ? queryKeys.peggyModuleState(network) : null,
+    () => new QueryService(network).getPeggyModuleState(),
+    { staleTimeMs: PEGGY_MODULE_STATE_STALE_TIME_MS }
+  )
+}
+
+// One request per registered orchestrator, so this is refreshed less often
+const EVENT_NONCES_STALE_TIME_MS = 2 * 60_000
+
+/**
+ * Last claimed event nonce of every orchestrator; pass the registered ones from the module state
+ */
+export function useOrchestratorEventNoncesQuery(orchestrators: OrchestratorMapping[] | null | undefined) {
+  const { network } = useNetwork()
+  return useQuery(
+    orchestrators ? queryKeys.orchestratorEventNonces(network) : null,
+    () => new QueryService(network).getOrchestratorEventNonces(orchestrators!),
+    { staleTimeMs: EVENT_NONCES_STALE_TIME_MS }
+  )
+}
+
+/**
+ * Slashing signing info (missed blocks, jailed-until, tombstone) for a validator's consensus pubkey
+ */
+export function useSigningInfoQuery(consensusPubkey: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    consensusPubkey ? queryKeys.signingInfo(network, consensusPubkey) : null,
+    async () => new QueryService(network).getSlashingSigningInfo(await toConsensusAddress(consensusPubkey!)),
+    options
+  )
+}
+
+// Chain parameters rarely change, so they stay fresh for longer
+const PARAMS_STALE_TIME_MS = 10 * 60_000
+
+export function useSlashingParamsQuery() {
+  const { network } = useNetwork()
+  return useQuery(
+    queryKeys.slashingParams(network),
+    () => new QueryService(network).getSlashingParams(),
+    { staleTimeMs: PARAMS_STALE_TIME_MS }
+  )
+}
+
+const BLOCK_TIME_STALE_TIME_MS = 5 * 60_000
+
+export function useAverageBlockTimeQuery() {
+  const { network } = useNetwork()
+  return useQuery(
+    queryKeys.blockTime(network),
+    () => new QueryService(network).getAverageBlockTime(),
+    { staleTimeMs: BLOCK_TIME_STALE_TIME_MS }
+  )
+}
+
+const VALIDATORS_STALE_TIME_MS = 60_000
+
+export function useAllValidatorsQuery() {
+  const { network } = useNetwork()
+  return useQuery(
+    queryKeys.validators(network),
+    () => new QueryService(network).getAllValidators(),
+    { staleTimeMs: VALIDATORS_STALE_TIME_MS }
+  )
+}
+
+export function useLatestBlockQuery(options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    queryKeys.latestBlock(network),
+    () => new QueryService(network).getBlockHeader(),
+    options
+  )
+}
+
+/**
+ * Distribution queries; amounts are decimal strings in base units
+ */
+
+export function useOutstandingRewardsQuery(validatorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    validatorAddress ? queryKeys.outstandingRewards(network, validatorAddress) : null,
+    () => new QueryService(network).getValidatorOutstandingRewards(validatorAddress!),
+    options
+  )
+}
+
+export function useCommissionQuery(validatorAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    validatorAddress ? queryKeys.commission(network, validatorAddress) : null,
+    () => new QueryService(network).getValidatorCommission(validatorAddress!),
+    options
+  )
+}
+
+export function useDelegatorRewardsQuery(
+  delegatorAddress: string | null | undefined,
+  validatorAddress: string | null | undefined,
+  options?: UseQueryOptions
+) {
+  const { network } = useNetwork()
+  return useQuery(
+    delegatorAddress && validatorAddress ? queryKeys.delegatorRewards(network, delegatorAddress, validatorAddress) : null,
+    () => new QueryService(network).getDelegatorRewards(delegatorAddress!, validatorAddress!),
+    options
+  )
+}
+
+/**
+ * Governance queries. An empty status lists proposals in every state.
+ */
+
+export const VOTING_PERIOD_STATUS = 'PROPOSAL_STATUS_VOTING_PERIOD'
+
+export function useProposalsQuery(status = '', options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    queryKeys.proposals(network, status),
+    () => new QueryService(network).getProposals(status || undefined),
+    options
+  )
+}
+
+export function useProposalTallyQuery(proposalId: string | null, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    proposalId ? queryKeys.proposalTally(network, proposalId) : null,
+    () => new QueryService(network).getProposalTally(proposalId!),
+    options
+  )
+}
+
+export function useVoteQuery(proposalId: string | null, voterAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    proposalId && voterAddress ? queryKeys.vote(network, proposalId, voterAddress) : null,
+    () => new QueryService(network).getVote(proposalId!, voterAddress!),
+    options
+  )
+}
+
+/**
+ * Proposals in their voting period that `voterAddress` has not voted on yet
+ */
+export function useUnvotedProposalsQuery(voterAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    voterAddress ? queryKeys.unvotedProposals(network, voterAddress) : null,
+    async () => {
+      const queryService = new QueryService(network)
+      const proposals = await queryService.getProposals(VOTING_PERIOD_STATUS)
+      const votes = await Promise.all(proposals.map((proposal) => queryService.getVote(proposal.id, voterAddress!)))
+      return proposals.filter((_, index) => votes[index] === null)
+    },
+    options
+  )
+}
+
+export function useGrantsByGranterQuery(granterAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    granterAddress ? queryKeys.grantsByGranter(network, granterAddress) : null,
+    () => new QueryService(network).getGrantsByGranter(granterAddress!),
+    options
+  )
+}
+
+export function useGrantsByGranteeQuery(granteeAddress: string | null | undefined, options?: UseQueryOptions) {
+  const { network } = useNetwork()
+  return useQuery(
+    granteeAddress ? queryKeys.grantsByGrantee(network, granteeAddress) : null,
+    () => new QueryService(network).getGrantsByGrantee(granteeAddress!),
+    options
+  )
+}
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { FeeEstimate, FeeSelection } from '../types'
+
+export interface UseFeeConfirmationResult {
+  // Estimate awaiting review, null when no transaction is waiting for its fee
+  feeEstimate: FeeEstimate | null
+  // Pass as TxOptions.confirmFee
+  confirmFee: (estimate: FeeEstimate) => Promise<FeeSelection | null>
+  // Confirms the fee, or cancels the transaction with null
+  resolveFee: (selection: FeeSelection | null) => void
+}
+
+/**
+ * Connects the transaction pipeline's fee stage to a FeeConfirmation dialog
+ */
+export function useFeeConfirmation(): UseFeeConfirmationResult {
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null)
+  const resolveRef = useRef<((selection: FeeSelection | null) => void) | null>(null)
+
+  const confirmFee = useCallback((estimate: FeeEstimate) => new Promise<FeeSelection | null>((resolve) => {
+    // A newer transaction replaces one still waiting for its fee
+    resolveRef.current?.(null)
+    resolveRef.current = resolve
+    setFeeEstimate(estimate)
+  }), [])
+
+  const resolveFee = useCallback((selection: FeeSelection | null) => {
+    resolveRef.current?.(selection)
+    resolveRef.current = null
+    setFeeEstimate(null)
+  }, [])
+
+  // Cancel a pending transaction when the page unmounts
+  useEffect(() => () => resolveRef.current?.(null), [])
+
+  return { feeEstimate, confirmFee, resolveFee }
+}
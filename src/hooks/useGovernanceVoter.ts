@@ -0,0 +1,24 @@
+import { useTxAccount } from './useTxAccount'
+import { useBranding } from '../contexts/BrandingContext'
+import { toAccountAddress, toValidatorOperatorAddress } from '../utils/address'
+import { useValidatorQuery } from './queries'
+
+/**
+ * The account that votes for "our" validator: the connected operator's own validator,
+ * or the whitelabel default validator (read-only) when the wallet is not an operator.
+ * Validators vote with their operator account.
+ */
+export function useGovernanceVoter() {
+  const { address } = useTxAccount()
+  const { branding } = useBranding()
+  const ownValidatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const ownValidator = ownValidatorQuery.data ?? null
+  const validatorAddress = ownValidator?.operatorAddress ?? branding.defaultValidator ?? null
+
+  return {
+    validatorAddress,
+    voterAddress: validatorAddress ? toAccountAddress(validatorAddress) : null,
+    canVote: !!ownValidator,
+    isLoading: ownValidatorQuery.isLoading,
+  }
+}
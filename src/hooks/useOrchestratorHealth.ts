@@ -0,0 +1,36 @@
+import { useMemo } from 'react'
+import { computeOrchestratorHealth, OrchestratorHealth } from '../utils/peggy'
+import { useOrchestratorPeggyStateQuery, usePeggyModuleStateQuery } from './queries'
+
+// Peggo signs new valsets and batches within a few blocks, so the state is polled while mounted.
+// The observed event nonce comes from the module state, which is too large to poll and refreshes slower.
+export const ORCHESTRATOR_HEALTH_POLL_INTERVAL_MS = 30_000
+
+export interface UseOrchestratorHealthResult {
+  health: OrchestratorHealth | null
+  isLoading: boolean
+  error: unknown
+}
+
+/**
+ * Live peggy signing and claim progress of an orchestrator
+ */
+export function useOrchestratorHealth(orchestratorAddress: string | null | undefined): UseOrchestratorHealthResult {
+  const stateQuery = useOrchestratorPeggyStateQuery(orchestratorAddress, {
+    refetchIntervalMs: ORCHESTRATOR_HEALTH_POLL_INTERVAL_MS,
+  })
+  const moduleStateQuery = usePeggyModuleStateQuery(Boolean(orchestratorAddress))
+
+  const health = useMemo(
+    () => (stateQuery.data && moduleStateQuery.data
+      ? computeOrchestratorHealth(stateQuery.data, moduleStateQuery.data.lastObservedEventNonce)
+      : null),
+    [stateQuery.data, moduleStateQuery.data]
+  )
+
+  return {
+    health,
+    isLoading: stateQuery.isLoading || moduleStateQuery.isLoading,
+    error: stateQuery.error != null ? stateQuery.error : moduleStateQuery.error,
+  }
+}
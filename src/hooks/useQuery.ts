@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { DEFAULT_STALE_TIME_MS, QueryKey, QueryState, hashQueryKey, queryStore } from '../services/query-store'
+
+export interface UseQueryOptions {
+  staleTimeMs?: number
+  // Background refetch interval while the component is mounted (0 = off)
+  refetchIntervalMs?: number
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined
+  error: unknown
+  // True only while there is no data yet; background refetches keep showing the cached data
+  isLoading: boolean
+  isFetching: boolean
+  refetch: () => Promise<T | undefined>
+}
+
+const DISABLED_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+}
+
+/**
+ * Subscribes to a query in the shared store. Pass `null` as key to disable the query
+ * (e.g. while no wallet is connected).
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  { staleTimeMs = DEFAULT_STALE_TIME_MS, refetchIntervalMs = 0 }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  // Keys are usually built inline, so effects depend on a key that only changes with its hash
+  const hash = key ? hashQueryKey(key) : null
+  const stableKey = useMemo(() => (hash ? JSON.parse(hash) as QueryKey : null), [hash])
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = useCallback((listener: () => void) => {
+    return stableKey ? queryStore.subscribe(stableKey, listener) : () => undefined
+  }, [stableKey])
+
+  const getSnapshot = () => (stableKey ? queryStore.getState<T>(stableKey) : DISABLED_STATE)
+  const state = useSyncExternalStore(subscribe, getSnapshot)
+
+  const revalidate = useCallback((maxAgeMs: number) => {
+    if (stableKey) {
+      queryStore.ensure(stableKey, () => fetcherRef.current(), maxAgeMs)
+    }
+  }, [stableKey])
+
+  useEffect(() => {
+    revalidate(staleTimeMs)
+  }, [staleTimeMs, revalidate])
+
+  // Background refetch on an interval and when the tab regains focus
+  useEffect(() => {
+    if (!stableKey) return
+
+    const handleFocus = () => revalidate(staleTimeMs)
+    window.addEventListener('focus', handleFocus)
+    const interval = refetchIntervalMs > 0 ? setInterval(() => revalidate(0), refetchIntervalMs) : null
+
+    return () => {
+      window.removeEventListener('focus', handleFocus)
+      if (interval) clearInterval(interval)
+    }
+  }, [stableKey, staleTimeMs, refetchIntervalMs, revalidate])
+
+  const refetch = useCallback(async () => {
+    if (!stableKey) return undefined
+    return queryStore.fetch(stableKey, () => fetcherRef.current())
+  }, [stableKey])
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: Boolean(stableKey) && state.updatedAt === 0 && state.error === null,
+    isFetching: state.isFetching,
+    refetch,
+  }
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNetwork } from '../contexts/NetworkContext'
+import { QueryService } from '../services/queries'
+import { BlockSignatures } from '../types'
+import { useLatestBlockQuery } from './queries'
+
+export const HEATMAP_POLL_INTERVAL_MS = 15_000
+// Parallel block requests; keeps public endpoints from rate limiting us
+const FETCH_CONCURRENCY = 6
+
+export interface HeatmapBlock {
+  height: number
+  // Undefined while the block is still loading
+  block?: BlockSignatures
+  error?: boolean
+}
+
+/**
+ * Commit signatures of the last `blockCount` blocks, newest first.
+ * Blocks never change, so only heights not loaded yet are fetched when the chain advances.
+ */
+export function useSignatureHeatmap(blockCount: number) {
+  const { network } = useNetwork()
+  const latestBlockQuery = useLatestBlockQuery({ refetchIntervalMs: HEATMAP_POLL_INTERVAL_MS })
+  const latestHeight = latestBlockQuery.data?.height ?? null
+  const [blocks, setBlocks] = useState<Map<number, BlockSignatures>>(new Map())
+  const [failed, setFailed] = useState<Set<number>>(new Set())
+  // Read to skip loaded heights only; depending on `blocks` would restart the fetch on every loaded block
+  const blocksRef = useRef(blocks)
+  blocksRef.current = blocks
+
+  useEffect(() => {
+    // Cleared right away as well, so the fetch below does not skip heights of the previous network
+    blocksRef.current = new Map()
+    setBlocks(blocksRef.current)
+    setFailed(new Set())
+  }, [network])
+
+  useEffect(() => {
+    if (latestHeight === null) return
+
+    let cancelled = false
+    const queryService = new QueryService(network)
+    const oldestHeight = Math.max(1, latestHeight - blockCount + 1)
+    const heights: number[] = []
+    for (let height = latestHeight; height >= oldestHeight; height--) {
+      if (!blocksRef.current.has(height)) {
+        heights.push(height)
+      }
+    }
+
+    const worker = async () => {
+      while (!cancelled && heights.length > 0) {
+        const height = heights.shift()!
+        try {
+          const block = await queryService.getBlockSignatures(height)
+          if (cancelled) return
+          setBlocks((current) => {
+            const next = new Map(current).set(height, block)
+            // Drop blocks that scrolled out of the window
+            next.forEach((_, loadedHeight) => {
+              if (loadedHeight < oldestHeight) next.delete(loadedHeight)
+            })
+            return next
+          })
+        } catch (error) {
+          console.warn(`[HEATMAP] Failed to load block ${height}:`, error)
+          if (!cancelled) {
+            setFailed((current) => new Set(current).add(height))
+          }
+        }
+      }
+    }
+
+    Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker))
+
+    return () => {
+      cancelled = true
+    }
+  }, [network, latestHeight, blockCount])
+
+  const rows: HeatmapBlock[] = []
+  if (latestHeight !== null) {
+    for (let height = latestHeight; height >= Math.max(1, latestHeight - blockCount + 1); height--) {
+      rows.push({ height, block: blocks.get(height), error: failed.has(height) })
+    }
+  }
+
+  return {
+    blocks: rows,
+    latestHeight,
+    error: latestBlockQuery.error,
+    isLoading: latestBlockQuery.isLoading,
+  }
+}
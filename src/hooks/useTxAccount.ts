@@ -0,0 +1,39 @@
+import { useCallback } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useOfflineMode } from '../contexts/OfflineModeContext'
+import { createOfflineAccount } from '../services/offline-tx'
+import type { TxSigner } from '../services/tx-pipeline'
+import { createInjectiveSigner } from '../utils/injective-signer'
+
+export interface UseTxAccountResult {
+  // The offline account in offline mode, otherwise the connected wallet's account
+  address: string | undefined
+  offline: boolean
+  // Signer for the transaction wrappers; an offline account makes them export the transaction unsigned
+  getSigner: () => Promise<TxSigner>
+}
+
+/**
+ * The account pages send transactions from, honouring offline mode
+ */
+export function useTxAccount(): UseTxAccountResult {
+  const { address: walletAddress, getOfflineSignerDirect, chain } = useChain('injective')
+  const { network } = useNetwork()
+  const { offlineAddress } = useOfflineMode()
+
+  const getSigner = useCallback(async (): Promise<TxSigner> => {
+    if (offlineAddress) {
+      return createOfflineAccount(offlineAddress, network)
+    }
+
+    // Get direct offline signer from Cosmos Kit for protobuf signing
+    const offlineSigner = getOfflineSignerDirect?.()
+    if (!offlineSigner) {
+      throw new Error('Failed to get offline signer')
+    }
+    return createInjectiveSigner(offlineSigner, chain.chain_id, network)
+  }, [offlineAddress, network, getOfflineSignerDirect, chain.chain_id])
+
+  return { address: offlineAddress ?? walletAddress, offline: offlineAddress !== null, getSigner }
+}
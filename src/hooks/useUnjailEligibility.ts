@@ -0,0 +1,64 @@
+import { useEffect, useMemo, useState } from 'react'
+import { toAccountAddress } from '../utils/address'
+import { computeUnjailEligibility, UnjailEligibility } from '../utils/unjail'
+import {
+  useDelegationQuery,
+  useSigningInfoQuery,
+  useSlashingParamsQuery,
+  useValidatorQuery,
+} from './queries'
+
+export interface UseUnjailEligibilityResult {
+  eligibility: UnjailEligibility | null
+  isLoading: boolean
+  error: unknown
+}
+
+/**
+ * Pre-flight check for MsgUnjail that re-evaluates every second while the jail period runs out
+ */
+export function useUnjailEligibility(validatorAddress: string | null | undefined): UseUnjailEligibilityResult {
+  const validatorQuery = useValidatorQuery(validatorAddress)
+  const signingInfoQuery = useSigningInfoQuery(validatorQuery.data?.consensusPubkey)
+  const paramsQuery = useSlashingParamsQuery()
+  // Only the operator account's own delegation counts as self-delegation
+  const delegationQuery = useDelegationQuery(
+    validatorAddress ? toAccountAddress(validatorAddress) : null,
+    validatorAddress
+  )
+  const [now, setNow] = useState(() => Date.now())
+
+  const validator = validatorQuery.data ?? null
+  const waiting = Boolean(validator?.jailed && signingInfoQuery.data?.jailedUntil
+    && Date.parse(signingInfoQuery.data.jailedUntil) > now)
+
+  useEffect(() => {
+    if (!waiting) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [waiting])
+
+  const eligibility = useMemo(() => {
+    // Without signing info or the self-delegation the outcome is unknown, not eligible
+    if (!validator || signingInfoQuery.isLoading || delegationQuery.isLoading) {
+      return null
+    }
+    if ((signingInfoQuery.error && !signingInfoQuery.data) || (delegationQuery.error && delegationQuery.data === undefined)) {
+      return null
+    }
+    return computeUnjailEligibility(
+      validator,
+      signingInfoQuery.data ?? null,
+      paramsQuery.data ?? null,
+      delegationQuery.data ?? null,
+      now
+    )
+  }, [validator, signingInfoQuery.isLoading, signingInfoQuery.data, signingInfoQuery.error, paramsQuery.data,
+    delegationQuery.isLoading, delegationQuery.data, delegationQuery.error, now])
+
+  return {
+    eligibility,
+    isLoading: validatorQuery.isLoading || signingInfoQuery.isLoading || delegationQuery.isLoading,
+    error: signingInfoQuery.error ?? delegationQuery.error,
+  }
+}
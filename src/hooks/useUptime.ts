@@ -0,0 +1,47 @@
+import { useMemo } from 'react'
+import { computeUptime, UptimeSummary } from '../utils/uptime'
+import {
+  useAverageBlockTimeQuery,
+  useSigningInfoQuery,
+  useSlashingParamsQuery,
+  useValidatorQuery,
+} from './queries'
+
+// Missed blocks can change every block, so signing info is polled while mounted
+export const UPTIME_POLL_INTERVAL_MS = 15_000
+
+export interface UseUptimeResult {
+  uptime: UptimeSummary | null
+  isLoading: boolean
+  error: unknown
+}
+
+/**
+ * Live uptime of a validator within the current slashing window
+ */
+export function useUptime(validatorAddress: string | null | undefined): UseUptimeResult {
+  const validatorQuery = useValidatorQuery(validatorAddress, { refetchIntervalMs: UPTIME_POLL_INTERVAL_MS })
+  const paramsQuery = useSlashingParamsQuery()
+  const signingInfoQuery = useSigningInfoQuery(validatorQuery.data?.consensusPubkey, {
+    refetchIntervalMs: UPTIME_POLL_INTERVAL_MS,
+  })
+  const blockTimeQuery = useAverageBlockTimeQuery()
+
+  const uptime = useMemo(() => {
+    if (!paramsQuery.data || !signingInfoQuery.data) {
+      return null
+    }
+    return computeUptime(
+      paramsQuery.data,
+      signingInfoQuery.data,
+      blockTimeQuery.data ?? null,
+      validatorQuery.data?.jailed
+    )
+  }, [paramsQuery.data, signingInfoQuery.data, blockTimeQuery.data, validatorQuery.data?.jailed])
+
+  return {
+    uptime,
+    isLoading: validatorQuery.isLoading || paramsQuery.isLoading || signingInfoQuery.isLoading,
+    error: signingInfoQuery.error ?? paramsQuery.error,
+  }
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import type { EncodeObject } from '@cosmjs/proto-signing'
+import { TransactionStatus } from '../components/TransactionStatus'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { AuthzGrantForm } from '../components/AuthzGrantForm'
+import { GranterActions } from '../components/GranterActions'
+import { AuthzGrant, TransactionStatus as TxStatus, WeightedVoteOption } from '../types'
+import {
+  createVoteMessage,
+  execAuthorizedTransaction,
+  grantAuthorizationTransaction,
+  revokeAuthorizationTransaction,
+} from '../services/transactions'
+import type { TxOptions, TxSigner } from '../services/tx-pipeline'
+import { useGrantsByGranteeQuery, useGrantsByGranterQuery } from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport, UnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { toValidatorOperatorAddress } from '../utils/address'
+import { describeGrant, isGrantExpired } from '../utils/authz'
+import { AuthzGrantFormData } from '../utils/validation'
+
+function groupByGranter(grants: AuthzGrant[]): Map<string, AuthzGrant[]> {
+  const groups = new Map<string, AuthzGrant[]>()
+  for (const grant of grants) {
+    groups.set(grant.granter, [...(groups.get(grant.granter) ?? []), grant])
+  }
+  return groups
+}
+
+export default function AuthzPage() {
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
+  const { network } = useNetwork()
+  const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  const issuedQuery = useGrantsByGranterQuery(address)
+  const receivedQuery = useGrantsByGranteeQuery(address)
+  const issuedGrants = issuedQuery.data ?? []
+  const receivedByGranter = groupByGranter(receivedQuery.data ?? [])
+
+  /**
+   * Signs with the connected wallet (or exports the transaction in offline mode) and reports the outcome through txStatus
+   */
+  const runTransaction = async (
+    send: (signer: TxSigner, signerAddress: string, options: TxOptions) => Promise<{ transactionHash: string; rawLog?: string } | UnsignedTxExport>,
+    fallbackError: string
+  ) => {
+    if (!address) {
+      setTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
+    }
+
+    try {
+      setTxStatus({ status: 'pending' })
+
+      const signer = await getSigner()
+      const result = await send(signer, address, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
+
+      if (result.transactionHash) {
+        setTxStatus({
+          status: 'success',
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Grant lists refresh through the invalidated query cache
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Authz transaction error:', error)
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({
+        status: 'error',
+        error: error.message || fallbackError,
+        rawLog: rawLog,
+      })
+    }
+  }
+
+  const handleGrant = (data: AuthzGrantFormData) =>
+    runTransaction(
+      (signer, granter, options) => grantAuthorizationTransaction(signer, granter, data, chain.chain_id, options),
+      'Failed to create grant'
+    )
+
+  const handleRevoke = (grant: AuthzGrant) =>
+    runTransaction(
+      (signer, granter, options) =>
+        revokeAuthorizationTransaction(signer, granter, grant.grantee, grant.msgTypeUrl ?? '', chain.chain_id, options),
+      'Failed to revoke grant'
+    )
+
+  const handleExec = (granterAddress: string, messages: EncodeObject[]) =>
+    runTransaction(
+      (signer, grantee, options) => execAuthorizedTransaction(signer, grantee, granterAddress, messages, chain.chain_id, options),
+      'Failed to execute authorized action'
+    )
+
+  const withdrawCommissionMessage = (granterAddress: string): EncodeObject => ({
+    typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+    value: { validatorAddress: toValidatorOperatorAddress(granterAddress) },
+  })
+
+  const unjailMessage = (granterAddress: string): EncodeObject => ({
+    typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
+    value: { validatorAddr: toValidatorOperatorAddress(granterAddress) },
+  })
+
+  const handleVote = async (granterAddress: string, proposalId: string, options: WeightedVoteOption[]) => {
+    let message: EncodeObject
+    try {
+      message = createVoteMessage(granterAddress, proposalId, options)
+    } catch (error) {
+      setTxStatus({ status: 'error', error: error instanceof Error ? error.message : String(error) })
+      return
+    }
+    await handleExec(granterAddress, [message])
+  }
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet'
+    ? 'https://explorer.injective.network'
+    : 'https://testnet.explorer.injective.network')
+
+  const isSubmitting = txStatus.status === 'pending'
+  const issuedError = issuedQuery.error && !issuedQuery.data ? describeQueryError(issuedQuery.error) : null
+  const receivedError = receivedQuery.error && !receivedQuery.data ? describeQueryError(receivedQuery.error) : null
+
+  return (
+    <div className="page">
+      <h1>Authz Grants</h1>
+      <p style={{ marginBottom: '1.5rem', color: 'var(--text-secondary)' }}>
+        Let a hot key vote, withdraw commission or unjail for your validator so the operator key can stay offline.
+      </p>
+
+      {!address ? (
+        <div className="error-message">
+          Please connect your wallet to manage authz grants.
+        </div>
+      ) : (
+        <>
+          <div className="validator-info" style={{ marginBottom: '1.5rem' }}>
+            <div className="info-section">
+              <h3>Grants Issued by This Wallet</h3>
+              {issuedQuery.isLoading ? (
+                <div>Loading grants...</div>
+              ) : issuedError ? (
+                <div className="error-message">Failed to load grants: {issuedError}</div>
+              ) : issuedGrants.length === 0 ? (
+                <p style={{ color: 'var(--text-tertiary)' }}>No grants issued yet.</p>
+              ) : (
+                <div className="authz-grant-table">
+                  {issuedGrants.map((grant) => (
+                    <div key={`${grant.grantee}-${grant.authorizationType}-${grant.msgTypeUrl}`} className="authz-grant-row">
+                      <span className="monospace">{grant.grantee}</span>
+                      <span title={grant.msgTypeUrl ?? grant.authorizationType}>{describeGrant(grant)}</span>
+                      <span className={isGrantExpired(grant) ? 'status-jailed' : undefined}>
+                        {grant.expiration
+                          ? `${isGrantExpired(grant) ? 'Expired' : 'Expires'} ${new Date(grant.expiration).toLocaleString()}`
+                          : 'Never expires'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(grant)}
+                        // Other authorization types don't expose the message type MsgRevoke needs
+                        disabled={isSubmitting || !grant.msgTypeUrl}
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <AuthzGrantForm onSubmit={handleGrant} isSubmitting={isSubmitting} />
+
+          <h2>Act as Grantee</h2>
+          {receivedQuery.isLoading ? (
+            <div>Loading grants...</div>
+          ) : receivedError ? (
+            <div className="error-message">Failed to load grants: {receivedError}</div>
+          ) : receivedByGranter.size === 0 ? (
+            <p style={{ color: 'var(--text-tertiary)' }}>
+              This wallet has not been granted any permissions.
+            </p>
+          ) : (
+            [...receivedByGranter].map(([granterAddress, grants]) => (
+              <GranterActions
+                key={granterAddress}
+                granterAddress={granterAddress}
+                grants={grants}
+                onWithdrawCommission={() => handleExec(granterAddress, [withdrawCommissionMessage(granterAddress)])}
+                onUnjail={() => handleExec(granterAddress, [unjailMessage(granterAddress)])}
+                onVote={(proposalId, options) => handleVote(granterAddress, proposalId, options)}
+                isSubmitting={isSubmitting}
+              />
+            ))
+          )}
+
+          {txStatus.status !== 'idle' && (
+            <TransactionStatus
+              status={txStatus}
+              explorerUrl={explorerUrl}
+              onDismiss={() => setTxStatus({ status: 'idle' })}
+            />
+          )}
+        </>
+      )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
+    </div>
+  )
+}
@@ -1,122 +1,164 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
 import { useChain } from '@cosmos-kit/react'
 import { DelegateForm } from '../components/DelegateForm'
 import { UndelegateForm } from '../components/UndelegateForm'
+import { RedelegateForm } from '../components/RedelegateForm'
+import { UnbondingTimeline } from '../components/UnbondingTimeline'
 import { TransactionStatus } from '../components/TransactionStatus'
-import { DelegationFormData } from '../utils/validation'
-import { TransactionStatus as TxStatus, DelegationInfo, ValidatorInfo } from '../types'
-import { delegateTransaction, undelegateTransaction } from '../services/transactions'
-import { QueryService } from '../services/queries'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { ValidatorPicker } from '../components/ValidatorPicker'
+import { DelegationFormData, RedelegationFormData } from '../utils/validation'
+import { TransactionStatus as TxStatus, UnbondingDelegation } from '../types'
+import {
+  cancelUnbondingTransaction,
+  delegateTransaction,
+  redelegateTransaction,
+  undelegateTransaction,
+} from '../services/transactions'
+import {
+  useAllValidatorsQuery,
+  useBalanceQuery,
+  useDelegationQuery,
+  useRedelegationsQuery,
+  useUnbondingDelegationQuery,
+  useValidatorQuery,
+} from '../hooks/queries'
 import { useNetwork } from '../contexts/NetworkContext'
-import { createInjectiveSigner } from '../utils/injective-signer'
-import { toValidatorOperatorAddress } from '../utils/address'
-import { getChainConfig } from '../config/chains'
+import { useBranding } from '../contexts/BrandingContext'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { isValidValidatorOperatorAddress, toValidatorOperatorAddress } from '../utils/address'
+import { describeQueryError } from '../services/lcd-client'
 
 export default function DelegationPage() {
-  const { address, getOfflineSignerDirect, chain } = useChain('injective')
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
   const { network } = useNetwork()
+  const { branding } = useBranding()
+  const { valoper } = useParams<{ valoper?: string }>()
+  const navigate = useNavigate()
   const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
-  const [validatorAddress, setValidatorAddress] = useState<string>('')
-  const [validator, setValidator] = useState<ValidatorInfo | null>(null)
-  const [delegation, setDelegation] = useState<DelegationInfo | null>(null)
-  const [availableBalance, setAvailableBalance] = useState<string>('0')
-  const [loading, setLoading] = useState(false)
-  const [loadingValidator, setLoadingValidator] = useState(false)
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  const [pickerOpen, setPickerOpen] = useState(false)
 
-  useEffect(() => {
-    if (address) {
-      loadValidator()
-    }
-  }, [address, network])
+  // The operator's own validator, derived from the wallet account (same as createValidatorTransaction)
+  const ownValidatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const ownValidatorAddress = ownValidatorQuery.data?.operatorAddress ?? null
+  const routeValidatorAddress = valoper && isValidValidatorOperatorAddress(valoper) ? valoper : null
+  const invalidRouteParam = !!valoper && !routeValidatorAddress
+  // Route param first, then self-delegation for operators, then the whitelabel default validator
+  const resolvingOwnValidator = !valoper && ownValidatorQuery.isLoading
+  const selectedAddress = invalidRouteParam || resolvingOwnValidator
+    ? null
+    : routeValidatorAddress ?? ownValidatorAddress ?? branding.defaultValidator ?? null
+  const isSelfDelegation = !!ownValidatorAddress && selectedAddress === ownValidatorAddress
 
-  useEffect(() => {
-    if (address && validatorAddress) {
-      loadDelegationInfo()
-    }
-  }, [address, validatorAddress, network])
+  const validatorQuery = useValidatorQuery(selectedAddress)
+  const validator = validatorQuery.data ?? null
+  const validatorAddress = validator ? validator.operatorAddress : ''
+  const delegationQuery = useDelegationQuery(address, validatorAddress)
+  const delegation = delegationQuery.data ?? null
+  const balanceQuery = useBalanceQuery(address)
+  const availableBalance = balanceQuery.data ?? '0'
+  const validatorsQuery = useAllValidatorsQuery()
+  const redelegations = useRedelegationsQuery(address).data ?? []
+  const unbonding = useUnbondingDelegationQuery(address, validatorAddress).data ?? null
+  const loading = delegationQuery.isLoading
+  const loadingValidator = resolvingOwnValidator || validatorQuery.isLoading
+  const validatorError = validatorQuery.error && !validator ? describeQueryError(validatorQuery.error) : null
+  const showPicker = pickerOpen || !selectedAddress
+
+  const handleSelectValidator = (selected: string) => {
+    setPickerOpen(false)
+    setTxStatus({ status: 'idle' })
+    navigate(`/delegation/${selected}`)
+  }
 
-  useEffect(() => {
-    if (address) {
-      loadBalance()
+  const handleDelegate = async (data: DelegationFormData) => {
+    if (!address) {
+      setTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
     }
-  }, [address, network])
 
-  const loadBalance = async () => {
-    if (!address) return
-    
     try {
-      const config = getChainConfig(network)
-      // Use REST API: GET /cosmos/bank/v1beta1/balances/{address}
-      const url = `${config.rest}/cosmos/bank/v1beta1/balances/${address}`
-      const response = await fetch(url)
+      setTxStatus({ status: 'pending' })
+      
+      const signer = await getSigner()
       
-      if (!response.ok) {
-        if (response.status === 404) {
-          setAvailableBalance('0')
-          return
-        }
-        console.warn('Failed to fetch balance:', response.statusText)
-        setAvailableBalance('0')
+      const result = await delegateTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
         return
       }
       
-      const data = await response.json()
-      const balances = data.balances || []
-      
-      // Find the INJ balance
-      const injBalance = balances.find((b: any) => b.denom === 'inj')
-      const balanceAmount = injBalance?.amount || '0'
-      
-      setAvailableBalance(balanceAmount)
-    } catch (error) {
-      console.warn('Failed to load balance:', error)
-      setAvailableBalance('0')
+      // Only proceed if transaction succeeded (code 0)
+      if (result.transactionHash) {
+        setTxStatus({ 
+          status: 'success', 
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Balance and delegation refresh through the invalidated query cache
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Delegation error:', error)
+      // Try to extract raw log from error if available
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({ 
+        status: 'error', 
+        error: error.message || 'Failed to delegate',
+        rawLog: rawLog,
+      })
     }
   }
 
-  const loadValidator = async () => {
-    if (!address) return
-    
-    setLoadingValidator(true)
+  const handleUndelegate = async (data: DelegationFormData) => {
+    if (!address) {
+      setTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
+    }
+
     try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account (same as createValidatorTransaction)
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(derivedValidatorAddress)
+      setTxStatus({ status: 'pending' })
+      
+      const signer = await getSigner()
       
-      if (validatorInfo) {
-        setValidator(validatorInfo)
-        setValidatorAddress(derivedValidatorAddress)
+      const result = await undelegateTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
+      
+      // Only proceed if transaction succeeded (code 0)
+      if (result.transactionHash) {
+        setTxStatus({ 
+          status: 'success', 
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Balance and delegation refresh through the invalidated query cache
       } else {
-        setValidator(null)
-        setValidatorAddress('')
+        throw new Error('Transaction completed but no transaction hash was returned')
       }
-    } catch (error) {
-      console.error('Failed to load validator:', error)
-      setValidator(null)
-      setValidatorAddress('')
-    } finally {
-      setLoadingValidator(false)
-    }
-  }
-
-  const loadDelegationInfo = async () => {
-    if (!address || !validatorAddress) return
-    
-    setLoading(true)
-    try {
-      const queryService = new QueryService(network)
-      const delegationInfo = await queryService.getDelegation(address, validatorAddress)
-      setDelegation(delegationInfo)
-    } catch (error) {
-      console.error('Failed to load delegation info:', error)
-    } finally {
-      setLoading(false)
+    } catch (error: any) {
+      console.error('Undelegation error:', error)
+      // Try to extract raw log from error if available
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({ 
+        status: 'error', 
+        error: error.message || 'Failed to undelegate',
+        rawLog: rawLog,
+      })
     }
   }
 
-  const handleDelegate = async (data: DelegationFormData) => {
-    if (!address || !getOfflineSignerDirect) {
+  const handleRedelegate = async (data: RedelegationFormData) => {
+    if (!address) {
       setTxStatus({ status: 'error', error: 'Wallet not connected' })
       return
     }
@@ -124,43 +166,39 @@ export default function DelegationPage() {
     try {
       setTxStatus({ status: 'pending' })
       
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
-      }
-      
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
-      const result = await delegateTransaction(signer, address, data, chain.chain_id)
+      const result = await redelegateTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       // Only proceed if transaction succeeded (code 0)
       if (result.transactionHash) {
         setTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog,
+          rawLog: result.rawLog,
         })
-        
-        // Reload delegation info and balance
-        await Promise.all([loadDelegationInfo(), loadBalance()])
+        // Delegations and redelegations refresh through the invalidated query cache
       } else {
         throw new Error('Transaction completed but no transaction hash was returned')
       }
     } catch (error: any) {
-      console.error('Delegation error:', error)
+      console.error('Redelegation error:', error)
       // Try to extract raw log from error if available
       const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
       setTxStatus({ 
         status: 'error', 
-        error: error.message || 'Failed to delegate',
+        error: error.message || 'Failed to redelegate',
         rawLog: rawLog,
       })
     }
   }
 
-  const handleUndelegate = async (data: DelegationFormData) => {
-    if (!address || !getOfflineSignerDirect) {
+  const handleCancelUnbonding = async (entry: UnbondingDelegation['entries'][number]) => {
+    if (!address) {
       setTxStatus({ status: 'error', error: 'Wallet not connected' })
       return
     }
@@ -168,36 +206,38 @@ export default function DelegationPage() {
     try {
       setTxStatus({ status: 'pending' })
       
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
-      }
-      
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
-      const result = await undelegateTransaction(signer, address, data, chain.chain_id)
+      const result = await cancelUnbondingTransaction(
+        signer,
+        address,
+        { validatorAddress, amount: entry.balance, creationHeight: entry.creationHeight },
+        chain.chain_id,
+        { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee }
+      )
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       // Only proceed if transaction succeeded (code 0)
       if (result.transactionHash) {
         setTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog,
+          rawLog: result.rawLog,
         })
-        
-        // Reload delegation info and balance
-        await Promise.all([loadDelegationInfo(), loadBalance()])
+        // Unbonding entries and delegation refresh through the invalidated query cache
       } else {
         throw new Error('Transaction completed but no transaction hash was returned')
       }
     } catch (error: any) {
-      console.error('Undelegation error:', error)
+      console.error('Cancel unbonding error:', error)
       // Try to extract raw log from error if available
       const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
       setTxStatus({ 
         status: 'error', 
-        error: error.message || 'Failed to undelegate',
+        error: error.message || 'Failed to cancel unbonding',
         rawLog: rawLog,
       })
     }
@@ -210,16 +250,97 @@ export default function DelegationPage() {
   return (
     <div className="page">
       <h1>Delegation Management</h1>
-      
+
+      {invalidRouteParam && (
+        <div className="error-message">
+          "{valoper}" is not a valid validator operator address. Please pick a validator below.
+        </div>
+      )}
+
+      {validator && (
+        <div className="validator-info selected-validator">
+          <div className="selected-validator-header">
+            <div>
+              <h3>
+                {validator.moniker || validator.operatorAddress}
+                {isSelfDelegation ? (
+                  <span className="status-badge status-badge-info">Your validator (self-delegation)</span>
+                ) : validator.operatorAddress === branding.defaultValidator && (
+                  <span className="status-badge status-badge-success">Operated by {branding.operatorName}</span>
+                )}
+              </h3>
+              <span className="monospace">{validator.operatorAddress}</span>
+            </div>
+            <div className="selected-validator-actions">
+              {ownValidatorAddress && !isSelfDelegation && (
+                <button type="button" onClick={() => handleSelectValidator(ownValidatorAddress)}>
+                  My Validator
+                </button>
+              )}
+              <button type="button" onClick={() => setPickerOpen(!pickerOpen)}>
+                {pickerOpen ? 'Close' : 'Change Validator'}
+              </button>
+            </div>
+          </div>
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">Commission</span>
+              <span className="info-value">{(parseFloat(validator.commission.rate) * 100).toFixed(2)}%</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Status</span>
+              <span className="info-value">
+                {validator.jailed
+                  ? 'Jailed'
+                  : validator.status === 'BOND_STATUS_BONDED' ? 'Active' : validator.status.replace('BOND_STATUS_', '')}
+              </span>
+            </div>
+          </div>
+          {validator.jailed && (
+            <div className="warning-box" style={{ marginTop: '1rem', marginBottom: 0 }}>
+              <strong>This validator is jailed</strong>
+              <p>Delegations to a jailed validator earn no rewards until it is unjailed.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showPicker && (
+        <div className="validator-info">
+          <div className="info-section">
+            <h3>Choose a Validator</h3>
+            {validatorsQuery.data ? (
+              <ValidatorPicker
+                validators={validatorsQuery.data}
+                selectedAddress={selectedAddress}
+                featuredAddress={branding.defaultValidator}
+                featuredLabel={branding.operatorName}
+                onSelect={handleSelectValidator}
+              />
+            ) : validatorsQuery.error ? (
+              <div className="error-message">
+                Failed to load validators: {describeQueryError(validatorsQuery.error)}
+              </div>
+            ) : (
+              <div>Loading validators...</div>
+            )}
+          </div>
+        </div>
+      )}
+
       {!address ? (
         <div className="error-message">
           Please connect your wallet to manage delegations.
         </div>
       ) : loadingValidator ? (
         <div>Loading validator information...</div>
-      ) : !validator ? (
+      ) : validatorError ? (
+        <div className="error-message">
+          Failed to load validator: {validatorError}
+        </div>
+      ) : !selectedAddress ? null : !validator ? (
         <div className="error-message">
-          No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
+          Validator {selectedAddress} was not found on this network.
         </div>
       ) : (
         <>
@@ -239,8 +360,33 @@ export default function DelegationPage() {
                 onSubmit={handleUndelegate}
                 isSubmitting={txStatus.status === 'pending'}
                 currentDelegation={delegation}
-                validator={validator}
+                // Min-self-delegation only applies to the operator's own delegation
+                validator={isSelfDelegation ? validator : null}
               />
+
+              <UnbondingTimeline
+                unbonding={unbonding}
+                onCancel={handleCancelUnbonding}
+                isSubmitting={txStatus.status === 'pending'}
+              />
+
+              {validatorsQuery.data ? (
+                <RedelegateForm
+                  key={validatorAddress}
+                  delegatorAddress={address}
+                  defaultSourceAddress={validatorAddress}
+                  validators={validatorsQuery.data}
+                  redelegations={redelegations}
+                  onSubmit={handleRedelegate}
+                  isSubmitting={txStatus.status === 'pending'}
+                />
+              ) : validatorsQuery.error ? (
+                <div className="error-message">
+                  Failed to load validators for redelegation: {describeQueryError(validatorsQuery.error)}
+                </div>
+              ) : (
+                <div>Loading validators...</div>
+              )}
               
               <TransactionStatus 
                 status={txStatus} 
@@ -251,6 +397,8 @@ export default function DelegationPage() {
           )}
         </>
       )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
     </div>
   )
 }
@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { ProposalCard } from '../components/ProposalCard'
+import { TransactionStatus } from '../components/TransactionStatus'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { TransactionStatus as TxStatus, WeightedVoteOption } from '../types'
+import { voteTransaction } from '../services/transactions'
+import { useProposalsQuery, VOTING_PERIOD_STATUS } from '../hooks/queries'
+import { useGovernanceVoter } from '../hooks/useGovernanceVoter'
+import { describeQueryError } from '../services/lcd-client'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+
+type ProposalFilter = 'active' | 'all'
+
+const PROPOSALS_REFETCH_INTERVAL_MS = 60_000
+
+export default function GovernancePage() {
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
+  const { network } = useNetwork()
+  const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  const [filter, setFilter] = useState<ProposalFilter>('active')
+  const { validatorAddress, voterAddress, canVote } = useGovernanceVoter()
+  const proposalsQuery = useProposalsQuery(filter === 'active' ? VOTING_PERIOD_STATUS : '', {
+    refetchIntervalMs: PROPOSALS_REFETCH_INTERVAL_MS,
+  })
+  const proposals = proposalsQuery.data ?? []
+
+  const handleVote = async (proposalId: string, options: WeightedVoteOption[]) => {
+    if (!address) {
+      setTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
+    }
+
+    try {
+      setTxStatus({ status: 'pending' })
+      
+      const signer = await getSigner()
+      
+      const result = await voteTransaction(signer, address, proposalId, options, chain.chain_id, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
+      
+      // Only proceed if transaction succeeded (code 0)
+      if (result.transactionHash) {
+        setTxStatus({ 
+          status: 'success', 
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Our vote and the tally refresh through the invalidated query cache
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Vote error:', error)
+      // Try to extract raw log from error if available
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({ 
+        status: 'error', 
+        error: error.message || 'Failed to vote',
+        rawLog: rawLog,
+      })
+    }
+  }
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet' 
+    ? 'https://explorer.injective.network' 
+    : 'https://testnet.explorer.injective.network')
+
+  return (
+    <div className="page">
+      <h1>Governance</h1>
+
+      {!validatorAddress ? (
+        <div className="error-message">
+          Please connect your validator operator wallet to vote on proposals.
+        </div>
+      ) : !canVote && (
+        <p style={{ color: 'var(--text-tertiary)', marginBottom: '1.5rem' }}>
+          Showing votes of <span className="monospace">{validatorAddress}</span>. Connect the operator wallet to vote.
+        </p>
+      )}
+
+      <div className="proposal-filter">
+        <button
+          type="button"
+          className={filter === 'active' ? 'active' : undefined}
+          onClick={() => setFilter('active')}
+        >
+          Voting Period
+        </button>
+        <button
+          type="button"
+          className={filter === 'all' ? 'active' : undefined}
+          onClick={() => setFilter('all')}
+        >
+          All Proposals
+        </button>
+      </div>
+
+      {txStatus.status !== 'idle' && (
+        <TransactionStatus 
+          status={txStatus} 
+          explorerUrl={explorerUrl}
+          onDismiss={() => setTxStatus({ status: 'idle' })}
+        />
+      )}
+
+      {proposalsQuery.isLoading ? (
+        <div>Loading proposals...</div>
+      ) : proposalsQuery.error && !proposalsQuery.data ? (
+        <div className="error-message">
+          Failed to load proposals: {describeQueryError(proposalsQuery.error)}
+        </div>
+      ) : proposals.length === 0 ? (
+        <p style={{ color: 'var(--text-tertiary)' }}>
+          {filter === 'active' ? 'No proposals are in their voting period.' : 'No proposals found.'}
+        </p>
+      ) : (
+        proposals.map((proposal) => (
+          <ProposalCard
+            key={proposal.id}
+            proposal={proposal}
+            voterAddress={voterAddress}
+            canVote={canVote}
+            onVote={handleVote}
+            isSubmitting={txStatus.status === 'pending'}
+          />
+        ))
+      )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
+    </div>
+  )
+}
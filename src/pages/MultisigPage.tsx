@@ -0,0 +1,300 @@
+import { useState, ChangeEvent } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { TransactionStatus } from '../components/TransactionStatus'
+import { MultisigAccountForm } from '../components/MultisigAccountForm'
+import { MultisigMembers } from '../components/MultisigMembers'
+import { TxSummary } from '../components/TxSummary'
+import { TransactionStatus as TxStatus } from '../types'
+import { broadcastSignedTx } from '../services/transactions'
+import {
+  buildMultisigTx,
+  createOfflineAccount,
+  fetchOfflineAccountDetails,
+  OfflineAccountDetails,
+  parseUnsignedTx,
+  UnsignedTxImport,
+} from '../services/offline-tx'
+import {
+  buildAminoSignDoc,
+  getMemberAddress,
+  MultisigPubKey,
+  PartialSignature,
+  parseSignatureFile,
+  signAsMember,
+  toSignatureFile,
+  verifyPartialSignature,
+} from '../services/multisig'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useOfflineMode } from '../contexts/OfflineModeContext'
+import { saveSignatureFile } from '../utils/offline-files'
+
+interface MultisigAccount {
+  address: string
+  details: OfflineAccountDetails
+  multisig: MultisigPubKey
+}
+
+export default function MultisigPage() {
+  const { address: walletAddress, getOfflineSignerAmino, chain } = useChain('injective')
+  const { network } = useNetwork()
+  const { offlineAddress, setOfflineAddress } = useOfflineMode()
+  const [account, setAccount] = useState<MultisigAccount | null>(null)
+  const [accountError, setAccountError] = useState<string | null>(null)
+  const [loadingAccount, setLoadingAccount] = useState(false)
+  const [unsignedTx, setUnsignedTx] = useState<UnsignedTxImport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [signatures, setSignatures] = useState<PartialSignature[]>([])
+  const [signatureError, setSignatureError] = useState<string | null>(null)
+  const [signing, setSigning] = useState(false)
+  const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
+
+  const walletMemberIndex = account && walletAddress
+    ? account.multisig.members.findIndex((member) => getMemberAddress(member) === walletAddress)
+    : -1
+  const signedIndexes = signatures.map((partial) => partial.memberIndex)
+
+  // Signatures cover the account number and sequence, so they are checked against the loaded account
+  const getSignDoc = (multisigAccount: MultisigAccount, tx: UnsignedTxImport) =>
+    buildAminoSignDoc(tx, chain.chain_id, multisigAccount.details.accountNumber, multisigAccount.details.sequence)
+
+  // A later signature of the same member replaces the earlier one
+  const addSignatures = (added: PartialSignature[]) => {
+    setSignatures((current) => [
+      ...current.filter((partial) => !added.some((addedPartial) => addedPartial.memberIndex === partial.memberIndex)),
+      ...added,
+    ])
+  }
+
+  const handleLoadAccount = async (address: string) => {
+    setLoadingAccount(true)
+    setAccountError(null)
+    // Collected signatures are only valid for the sequence they were made for
+    setSignatures([])
+    try {
+      const details = await fetchOfflineAccountDetails(createOfflineAccount(address, network))
+      if (!details.multisig) {
+        throw new Error(
+          `${address} is not a multisig account, or it has not sent a transaction yet so its keys are not known on chain`
+        )
+      }
+      setAccount({ address, details, multisig: details.multisig })
+    } catch (error: any) {
+      console.error('Multisig account error:', error)
+      setAccount(null)
+      setAccountError(error.message || 'Failed to load the multisig account')
+    } finally {
+      setLoadingAccount(false)
+    }
+  }
+
+  const handleUnsignedFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setUnsignedTx(null)
+    setSignatures([])
+    setImportError(null)
+    if (!file || !account) {
+      return
+    }
+
+    try {
+      const tx = parseUnsignedTx(await file.text())
+      // Fails early for messages that cannot be signed with amino JSON
+      getSignDoc(account, tx)
+      setUnsignedTx(tx)
+    } catch (error: any) {
+      console.error('Unsigned transaction import error:', error)
+      setImportError(error.message || 'Failed to read the unsigned transaction')
+    }
+  }
+
+  const handleSign = async () => {
+    if (!account || !unsignedTx || !walletAddress) {
+      return
+    }
+
+    setSigning(true)
+    setSignatureError(null)
+    try {
+      const partial = await signAsMember(getOfflineSignerAmino(), walletAddress, account.multisig, getSignDoc(account, unsignedTx))
+      saveSignatureFile(toSignatureFile(account.multisig, partial), walletAddress)
+      addSignatures([partial])
+    } catch (error: any) {
+      console.error('Multisig signing error:', error)
+      setSignatureError(error.message || 'Failed to sign the transaction')
+    } finally {
+      setSigning(false)
+    }
+  }
+
+  const handleSignatureFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Allows picking the same file again after a fix
+    event.target.value = ''
+    setSignatureError(null)
+    if (!account || !unsignedTx) {
+      return
+    }
+
+    const signDoc = getSignDoc(account, unsignedTx)
+    const added: PartialSignature[] = []
+    for (const file of files) {
+      try {
+        for (const partial of parseSignatureFile(await file.text(), account.multisig)) {
+          await verifyPartialSignature(account.multisig, signDoc, partial)
+          added.push(partial)
+        }
+      } catch (error: any) {
+        console.error('Signature import error:', error)
+        setSignatureError(`${file.name}: ${error.message || 'Failed to read the signature'}`)
+      }
+    }
+    addSignatures(added)
+  }
+
+  const handleBroadcast = async () => {
+    if (!account || !unsignedTx) {
+      return
+    }
+
+    try {
+      setTxStatus({ status: 'pending' })
+
+      const signed = buildMultisigTx(unsignedTx, account.details, signatures)
+      const result = await broadcastSignedTx(network, signed, account.address, { onStage: (stage) => setTxStatus({ status: 'pending', stage }) })
+
+      if (result.transactionHash) {
+        setTxStatus({
+          status: 'success',
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // The sequence has moved on, so the next transaction is signed against the reloaded account
+        setUnsignedTx(null)
+        await handleLoadAccount(account.address)
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Multisig broadcast error:', error)
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({
+        status: 'error',
+        error: error.message || 'Failed to broadcast the multisig transaction',
+        rawLog: rawLog,
+      })
+    }
+  }
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet'
+    ? 'https://explorer.injective.network'
+    : 'https://testnet.explorer.injective.network')
+
+  return (
+    <div className="page">
+      <h1>Multisig</h1>
+      <p style={{ marginBottom: '1.5rem', color: 'var(--text-secondary)' }}>
+        Operate a validator from a multisig account. Enable offline mode for the multisig address and every page
+        exports its transactions unsigned. Each member loads the file here and signs it with their wallet (or
+        with <code>injectived tx sign --multisig</code>), and once enough signatures are collected the
+        transaction is broadcast.
+      </p>
+
+      <div className="multisig-account-form">
+        <h3>Multisig Account</h3>
+        <MultisigAccountForm
+          defaultAddress={offlineAddress ?? ''}
+          onSubmit={handleLoadAccount}
+          isLoading={loadingAccount}
+        />
+        {accountError && <div className="error-message" style={{ marginTop: '1rem' }}>{accountError}</div>}
+
+        {account && (
+          <>
+            <div className="info-grid" style={{ marginTop: '1.5rem' }}>
+              <div className="info-item">
+                <span className="info-label">Account Number</span>
+                <span className="info-value">{account.details.accountNumber}</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Sequence</span>
+                <span className="info-value">{account.details.sequence}</span>
+              </div>
+            </div>
+            <MultisigMembers multisig={account.multisig} signedIndexes={signedIndexes} walletAddress={walletAddress} />
+            {offlineAddress !== account.address && (
+              <button type="button" onClick={() => setOfflineAddress(account.address)}>
+                Use This Account on All Pages
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {account && (
+        <div className="multisig-sign-form">
+          <h3>Sign Transaction</h3>
+
+          <div className="form-group">
+            <label>
+              Unsigned Transaction File:
+              <input type="file" accept="application/json,.json" onChange={handleUnsignedFile} />
+            </label>
+            {importError && <span className="error">{importError}</span>}
+          </div>
+
+          {unsignedTx && (
+            <>
+              <TxSummary tx={unsignedTx} />
+              {!walletAddress ? (
+                <div className="warning-box">Connect the wallet of a multisig member to sign.</div>
+              ) : walletMemberIndex === -1 ? (
+                <div className="warning-box">The connected wallet is not a member of this multisig.</div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleSign}
+                  disabled={signing || signedIndexes.includes(walletMemberIndex)}
+                >
+                  {signing ? 'Signing...' : 'Sign with Connected Wallet'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {account && unsignedTx && (
+        <div className="multisig-combine-form">
+          <h3>Combine Signatures</h3>
+
+          <div className="form-group">
+            <label>
+              Signature Files:
+              <input type="file" accept="application/json,.json" multiple onChange={handleSignatureFiles} />
+            </label>
+            {signatureError && <span className="error">{signatureError}</span>}
+            <small>
+              {signatures.length} of {account.multisig.threshold} required signatures collected.
+            </small>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleBroadcast}
+            disabled={signatures.length < account.multisig.threshold || txStatus.status === 'pending'}
+          >
+            {txStatus.status === 'pending' ? 'Broadcasting...' : 'Broadcast Transaction'}
+          </button>
+        </div>
+      )}
+
+      {txStatus.status !== 'idle' && (
+        <TransactionStatus
+          status={txStatus}
+          explorerUrl={explorerUrl}
+          onDismiss={() => setTxStatus({ status: 'idle' })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import { useState, ChangeEvent } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { TransactionStatus } from '../components/TransactionStatus'
+import { OfflineAccountForm } from '../components/OfflineAccountForm'
+import { TxSummary } from '../components/TxSummary'
+import { TransactionStatus as TxStatus } from '../types'
+import { broadcastSignedTx } from '../services/transactions'
+import { parseSignedTx, SignedTxImport, verifySignedTx } from '../services/offline-tx'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useOfflineMode } from '../contexts/OfflineModeContext'
+
+export default function OfflineSigningPage() {
+  const { chain } = useChain('injective')
+  const { network } = useNetwork()
+  const { offlineAddress, setOfflineAddress } = useOfflineMode()
+  const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
+  const [signed, setSigned] = useState<SignedTxImport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    setSigned(null)
+    setImportError(null)
+    if (!file) {
+      return
+    }
+
+    try {
+      const parsed = parseSignedTx(await file.text())
+      await verifySignedTx(parsed, network)
+      setSigned(parsed)
+    } catch (error: any) {
+      console.error('Signed transaction import error:', error)
+      setImportError(error.message || 'Failed to read the signed transaction')
+    }
+  }
+
+  const handleBroadcast = async () => {
+    if (!signed) {
+      return
+    }
+
+    try {
+      setTxStatus({ status: 'pending' })
+
+      const result = await broadcastSignedTx(network, signed, offlineAddress, { onStage: (stage) => setTxStatus({ status: 'pending', stage }) })
+
+      if (result.transactionHash) {
+        setTxStatus({
+          status: 'success',
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // A broadcast file cannot be sent again, its sequence is used up
+        setSigned(null)
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Signed transaction broadcast error:', error)
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({
+        status: 'error',
+        error: error.message || 'Failed to broadcast the signed transaction',
+        rawLog: rawLog,
+      })
+    }
+  }
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet'
+    ? 'https://explorer.injective.network'
+    : 'https://testnet.explorer.injective.network')
+
+  return (
+    <div className="page">
+      <h1>Offline Signing</h1>
+      <p style={{ marginBottom: '1.5rem', color: 'var(--text-secondary)' }}>
+        Keep the operator key on an air-gapped machine. In offline mode every page exports its transaction
+        unsigned; sign the file with <code>injectived tx sign --offline</code> and import the signed file here.
+      </p>
+
+      <OfflineAccountForm offlineAddress={offlineAddress} onChange={setOfflineAddress} />
+
+      <div className="signed-tx-import-form">
+        <h3>Import Signed Transaction</h3>
+
+        <div className="form-group">
+          <label>
+            Signed Transaction File:
+            <input type="file" accept="application/json,.json" onChange={handleFileChange} />
+          </label>
+          {importError && <span className="error">{importError}</span>}
+        </div>
+
+        {signed && (
+          <>
+            <TxSummary tx={signed} signatureCount={signed.signatureCount} />
+            <button
+              type="button"
+              onClick={handleBroadcast}
+              disabled={txStatus.status === 'pending'}
+            >
+              {txStatus.status === 'pending' ? 'Broadcasting...' : 'Broadcast Transaction'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {txStatus.status !== 'idle' && (
+        <TransactionStatus
+          status={txStatus}
+          explorerUrl={explorerUrl}
+          onDismiss={() => setTxStatus({ status: 'idle' })}
+        />
+      )}
+    </div>
+  )
+}
@@ -2,34 +2,61 @@ import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { useChain } from '@cosmos-kit/react'
 import { OrchestratorForm } from '../components/OrchestratorForm'
+import { OrchestratorHealthPanel } from '../components/OrchestratorHealthPanel'
+import { FundOrchestratorForm } from '../components/FundOrchestratorForm'
+import { AccountAddress } from '../components/AccountAddress'
 import { TransactionStatus } from '../components/TransactionStatus'
-import { OrchestratorRegistrationFormData } from '../utils/validation'
-import { TransactionStatus as TxStatus, ValidatorInfo, OrchestratorMapping } from '../types'
-import { registerOrchestratorTransaction } from '../services/transactions'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { OrchestratorRegistrationFormData, SendFormData } from '../utils/validation'
+import { TransactionStatus as TxStatus } from '../types'
+import { registerOrchestratorTransaction, sendTransaction } from '../services/transactions'
 import { useNetwork } from '../contexts/NetworkContext'
-import { createInjectiveSigner } from '../utils/injective-signer'
+import { useBranding } from '../contexts/BrandingContext'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { useBalanceQuery, useOrchestratorQuery, useValidatorQuery } from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
 import { QueryService } from '../services/queries'
+import { checkOrchestratorRegistration } from '../utils/peggy'
 import { toValidatorOperatorAddress } from '../utils/address'
+import { formatTokenAmount, numberToTokenAmount } from '../utils/format'
+
+const ORCHESTRATOR_BALANCE_REFETCH_INTERVAL_MS = 30_000
 
 export default function OrchestratorRegistrationPage() {
-  const { address, getOfflineSignerDirect, chain } = useChain('injective')
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
   const { network } = useNetwork()
+  const { branding } = useBranding()
   const [orchestratorTxStatus, setOrchestratorTxStatus] = useState<TxStatus>({ status: 'idle' })
-  const [validator, setValidator] = useState<ValidatorInfo | null>(null)
-  const [existingOrchestrator, setExistingOrchestrator] = useState<OrchestratorMapping | null>(null)
-  const [loading, setLoading] = useState(false)
-  const [loadingOrchestrator, setLoadingOrchestrator] = useState(false)
+  const [fundTxStatus, setFundTxStatus] = useState<TxStatus>({ status: 'idle' })
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  // Derive validator operator address from wallet account (same as createValidatorTransaction)
+  const derivedValidatorAddress = address ? toValidatorOperatorAddress(address) : null
+  const validatorQuery = useValidatorQuery(derivedValidatorAddress)
+  const orchestratorQuery = useOrchestratorQuery(derivedValidatorAddress)
+  const validator = validatorQuery.data ?? null
+  const existingOrchestrator = orchestratorQuery.data ?? null
+  const walletBalanceQuery = useBalanceQuery(address)
+  const orchestratorBalanceQuery = useBalanceQuery(existingOrchestrator?.orchestratorAddress, {
+    refetchIntervalMs: ORCHESTRATOR_BALANCE_REFETCH_INTERVAL_MS,
+  })
+  const orchestratorBalance = orchestratorBalanceQuery.data ?? null
+  const orchestratorBalanceLow = orchestratorBalance !== null
+    && BigInt(orchestratorBalance) < BigInt(numberToTokenAmount(branding.orchestratorMinBalance))
+  const loading = validatorQuery.isLoading
+  const loadingOrchestrator = orchestratorQuery.isLoading
+  const loadError = validatorQuery.error && !validator
+    ? `Failed to load validator: ${describeQueryError(validatorQuery.error)}`
+    : orchestratorQuery.error && !existingOrchestrator
+      ? `Failed to load orchestrator registration: ${describeQueryError(orchestratorQuery.error)}`
+      : null
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null)
   const [profileImageError, setProfileImageError] = useState(false)
   const [warningDismissed, setWarningDismissed] = useState(false)
 
-  useEffect(() => {
-    if (address) {
-      loadValidator()
-      loadOrchestrator()
-    }
-  }, [address, network])
-
   // Load Keybase profile picture when validator changes
   useEffect(() => {
     const loadKeybasePicture = async () => {
@@ -59,58 +86,32 @@ export default function OrchestratorRegistrationPage() {
     }
   }, [validator])
 
-  const loadValidator = async () => {
-    if (!address) return
-    
-    setLoading(true)
-    try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account (same as createValidatorTransaction)
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(derivedValidatorAddress)
-      setValidator(validatorInfo)
-    } catch (error) {
-      console.error('Failed to load validator:', error)
-      setValidator(null)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const loadOrchestrator = async () => {
-    if (!address) return
-    
-    setLoadingOrchestrator(true)
-    try {
-      const queryService = new QueryService(network)
-      const orchestratorInfo = await queryService.getOrchestratorBySender(address)
-      setExistingOrchestrator(orchestratorInfo)
-    } catch (error) {
-      console.error('Failed to load orchestrator:', error)
-      setExistingOrchestrator(null)
-    } finally {
-      setLoadingOrchestrator(false)
-    }
-  }
-
   const handleOrchestratorSubmit = async (data: OrchestratorRegistrationFormData) => {
-    if (!address || !getOfflineSignerDirect) {
+    if (!address) {
       setOrchestratorTxStatus({ status: 'error', error: 'Wallet not connected' })
       return
     }
 
     try {
       setOrchestratorTxStatus({ status: 'pending' })
-      
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
+
+      // Registrations are irreversible, so anything the chain would reject is caught before signing
+      const warnings = await checkOrchestratorRegistration(new QueryService(network), address, data)
+      if (warnings.length > 0) {
+        setOrchestratorTxStatus({
+          status: 'warning',
+          warning: `Registration would fail: ${warnings.join(' ')}`,
+        })
+        return
       }
       
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
-      const result = await registerOrchestratorTransaction(signer, address, data, chain.chain_id)
+      const result = await registerOrchestratorTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setOrchestratorTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setOrchestratorTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       // Only proceed if transaction succeeded (code 0)
       // The transaction function will throw if it failed, so if we get here, it succeeded
@@ -118,11 +119,9 @@ export default function OrchestratorRegistrationPage() {
         setOrchestratorTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog,
+          rawLog: result.rawLog,
         })
-        
-        // Reload orchestrator info after successful registration
-        await loadOrchestrator()
+        // The registration shows up through the invalidated query cache
       } else {
         throw new Error('Transaction completed but no transaction hash was returned')
       }
@@ -138,6 +137,44 @@ export default function OrchestratorRegistrationPage() {
     }
   }
 
+  const handleFundSubmit = async (data: SendFormData) => {
+    if (!address) {
+      setFundTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
+    }
+
+    try {
+      setFundTxStatus({ status: 'pending' })
+
+      const signer = await getSigner()
+
+      const result = await sendTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setFundTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setFundTxStatus(saveUnsignedTx(result))
+        return
+      }
+
+      if (result.transactionHash) {
+        setFundTxStatus({
+          status: 'success',
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Both balances refresh through the invalidated query cache
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Orchestrator funding error:', error)
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setFundTxStatus({
+        status: 'error',
+        error: error.message || 'Failed to fund orchestrator',
+        rawLog: rawLog,
+      })
+    }
+  }
+
   const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet' 
     ? 'https://explorer.injective.network' 
     : 'https://testnet.explorer.injective.network')
@@ -152,6 +189,10 @@ export default function OrchestratorRegistrationPage() {
         </div>
       ) : loading || loadingOrchestrator ? (
         <div>Loading validator information...</div>
+      ) : loadError ? (
+        <div className="error-message">
+          {loadError}
+        </div>
       ) : !validator ? (
         <div className="error-message">
           No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
@@ -207,15 +248,47 @@ export default function OrchestratorRegistrationPage() {
               <div className="info-grid" style={{ marginTop: '1rem' }}>
                 <div className="info-item">
                   <span className="info-label">Orchestrator Address</span>
-                  <span className="info-value address-value">{existingOrchestrator.orchestratorAddress}</span>
+                  <AccountAddress address={existingOrchestrator.orchestratorAddress} />
                 </div>
                 <div className="info-item">
                   <span className="info-label">Ethereum Address</span>
-                  <span className="info-value address-value">{existingOrchestrator.ethereumAddress}</span>
+                  <AccountAddress address={existingOrchestrator.ethereumAddress} primary="ethereum" />
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Orchestrator Balance</span>
+                  <span className={`info-value ${orchestratorBalanceLow ? 'status-jailed' : ''}`}>
+                    {orchestratorBalance !== null
+                      ? `${formatTokenAmount(orchestratorBalance)} INJ`
+                      : orchestratorBalanceQuery.error
+                        ? `Failed to load: ${describeQueryError(orchestratorBalanceQuery.error)}`
+                        : 'Loading...'}
+                  </span>
                 </div>
               </div>
+              {orchestratorBalanceLow && (
+                <div className="warning-box" style={{ marginTop: '1rem' }}>
+                  <strong>Low balance:</strong> the orchestrator holds less than {branding.orchestratorMinBalance} INJ
+                  and may soon be unable to pay the fees for its claims.
+                </div>
+              )}
             </div>
           </div>
+          <div className="validator-info" style={{ marginTop: '1.5rem' }}>
+            <OrchestratorHealthPanel orchestratorAddress={existingOrchestrator.orchestratorAddress} />
+          </div>
+          <FundOrchestratorForm
+            orchestratorAddress={existingOrchestrator.orchestratorAddress}
+            onSubmit={handleFundSubmit}
+            isSubmitting={fundTxStatus.status === 'pending'}
+            availableBalance={walletBalanceQuery.data ?? '0'}
+            minBalance={branding.orchestratorMinBalance}
+            orchestratorBalance={orchestratorBalance ?? '0'}
+          />
+          <TransactionStatus 
+            status={fundTxStatus} 
+            explorerUrl={explorerUrl}
+            onDismiss={() => setFundTxStatus({ status: 'idle' })}
+          />
           <TransactionStatus 
             status={orchestratorTxStatus} 
             explorerUrl={explorerUrl}
@@ -235,6 +308,8 @@ export default function OrchestratorRegistrationPage() {
           />
         </>
       )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
     </div>
   )
 }
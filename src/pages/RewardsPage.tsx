@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { useChain } from '@cosmos-kit/react'
+import { TransactionStatus } from '../components/TransactionStatus'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { TransactionStatus as TxStatus } from '../types'
+import { withdrawRewardsTransaction } from '../services/transactions'
+import {
+  useCommissionQuery,
+  useDelegatorRewardsQuery,
+  useOutstandingRewardsQuery,
+  useValidatorQuery,
+} from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
+import { useNetwork } from '../contexts/NetworkContext'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { toValidatorOperatorAddress } from '../utils/address'
+import { formatTokenAmount } from '../utils/format'
+
+const REWARDS_REFETCH_INTERVAL_MS = 30_000
+
+// Distribution amounts are decimals; anything below one base unit cannot be withdrawn
+function hasWithdrawableAmount(amount: string | undefined): boolean {
+  return !!amount && BigInt(amount.split('.')[0] || '0') > 0n
+}
+
+export default function RewardsPage() {
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
+  const { network } = useNetwork()
+  const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  // Derive validator operator address from wallet account
+  const validatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const validator = validatorQuery.data ?? null
+  const validatorAddress = validator?.operatorAddress ?? null
+  const validatorError = validatorQuery.error && !validator ? describeQueryError(validatorQuery.error) : null
+
+  const queryOptions = { refetchIntervalMs: REWARDS_REFETCH_INTERVAL_MS }
+  const commissionQuery = useCommissionQuery(validatorAddress, queryOptions)
+  const selfRewardsQuery = useDelegatorRewardsQuery(validatorAddress ? address : null, validatorAddress, queryOptions)
+  const outstandingQuery = useOutstandingRewardsQuery(validatorAddress, queryOptions)
+  const rewardsError = [commissionQuery, selfRewardsQuery, outstandingQuery]
+    .map((query) => (query.error && query.data === undefined ? describeQueryError(query.error) : null))
+    .find((error) => error !== null)
+
+  const hasCommission = hasWithdrawableAmount(commissionQuery.data)
+  const hasSelfRewards = hasWithdrawableAmount(selfRewardsQuery.data)
+
+  const handleWithdraw = async () => {
+    if (!address) {
+      setTxStatus({ status: 'error', error: 'Wallet not connected' })
+      return
+    }
+
+    if (!validatorAddress) {
+      setTxStatus({ status: 'error', error: 'Validator address not found' })
+      return
+    }
+
+    try {
+      setTxStatus({ status: 'pending' })
+
+      const signer = await getSigner()
+
+      const result = await withdrawRewardsTransaction(
+        signer,
+        address,
+        validatorAddress,
+        { commission: hasCommission, delegatorRewards: hasSelfRewards },
+        chain.chain_id,
+        { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee }
+      )
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
+
+      if (result.transactionHash) {
+        setTxStatus({
+          status: 'success',
+          hash: result.transactionHash,
+          rawLog: result.rawLog,
+        })
+        // Rewards and balance refresh through the invalidated query cache
+      } else {
+        throw new Error('Transaction completed but no transaction hash was returned')
+      }
+    } catch (error: any) {
+      console.error('Withdraw rewards error:', error)
+      const rawLog = error?.rawLog || error?.txResponse?.rawLog || error?.txResult?.log
+      setTxStatus({
+        status: 'error',
+        error: error.message || 'Failed to withdraw rewards',
+        rawLog: rawLog,
+      })
+    }
+  }
+
+  const explorerUrl = chain.explorers?.[0]?.url || (network === 'mainnet'
+    ? 'https://explorer.injective.network'
+    : 'https://testnet.explorer.injective.network')
+
+  const formatReward = (amount: string | undefined, isLoading: boolean) =>
+    isLoading ? 'Loading...' : amount !== undefined ? `${formatTokenAmount(amount)} INJ` : 'Unavailable'
+
+  return (
+    <div className="page">
+      <h1>Rewards</h1>
+
+      {!address ? (
+        <div className="error-message">
+          Please connect your wallet to view your rewards.
+        </div>
+      ) : validatorQuery.isLoading ? (
+        <div>Loading validator information...</div>
+      ) : validatorError ? (
+        <div className="error-message">
+          Failed to load validator: {validatorError}
+        </div>
+      ) : !validator ? (
+        <div className="error-message">
+          No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
+        </div>
+      ) : (
+        <>
+          <div className="validator-info" style={{ marginBottom: '1.5rem' }}>
+            <div className="info-section">
+              <h3>{validator.moniker}</h3>
+              {rewardsError && (
+                <div className="error-message">Failed to load rewards: {rewardsError}</div>
+              )}
+              <div className="info-grid">
+                <div className="info-item">
+                  <span className="info-label">Commission</span>
+                  <span className="info-value highlight-value">
+                    {formatReward(commissionQuery.data, commissionQuery.isLoading)}
+                  </span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Self-Delegation Rewards</span>
+                  <span className="info-value highlight-value">
+                    {formatReward(selfRewardsQuery.data, selfRewardsQuery.isLoading)}
+                  </span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Outstanding Rewards (all delegators)</span>
+                  <span className="info-value">
+                    {formatReward(outstandingQuery.data, outstandingQuery.isLoading)}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            <div className="info-section">
+              <h3>Withdraw</h3>
+              <p style={{ marginBottom: '1rem', color: 'var(--text-secondary)' }}>
+                Withdraws the accumulated commission and the rewards of your self-delegation to{' '}
+                <span className="monospace">{address}</span> in a single transaction.
+              </p>
+              <form onSubmit={(e) => { e.preventDefault(); handleWithdraw(); }}>
+                <button
+                  type="submit"
+                  disabled={txStatus.status === 'pending' || (!hasCommission && !hasSelfRewards)}
+                >
+                  {txStatus.status === 'pending' ? 'Withdrawing...' : 'Withdraw Commission + Self Rewards'}
+                </button>
+              </form>
+              {!hasCommission && !hasSelfRewards && !commissionQuery.isLoading && !selfRewardsQuery.isLoading && (
+                <p style={{ marginTop: '0.75rem', color: 'var(--text-tertiary)' }}>
+                  There is nothing to withdraw yet.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {txStatus.status !== 'idle' && (
+            <TransactionStatus
+              status={txStatus}
+              explorerUrl={explorerUrl}
+              onDismiss={() => setTxStatus({ status: 'idle' })}
+            />
+          )}
+        </>
+      )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
+    </div>
+  )
+}
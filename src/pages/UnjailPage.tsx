@@ -2,30 +2,38 @@ import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { useChain } from '@cosmos-kit/react'
 import { TransactionStatus } from '../components/TransactionStatus'
-import { TransactionStatus as TxStatus, ValidatorInfo } from '../types'
+import { FeeConfirmation } from '../components/FeeConfirmation'
+import { UnjailEligibilityPanel } from '../components/UnjailEligibilityPanel'
+import { TransactionStatus as TxStatus } from '../types'
 import { unjailTransaction } from '../services/transactions'
-import { QueryService } from '../services/queries'
+import { useSigningInfoQuery, useValidatorQuery } from '../hooks/queries'
+import { useUnjailEligibility } from '../hooks/useUnjailEligibility'
+import { describeQueryError } from '../services/lcd-client'
 import { useNetwork } from '../contexts/NetworkContext'
-import { createInjectiveSigner } from '../utils/injective-signer'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
 import { toValidatorOperatorAddress } from '../utils/address'
 
 export default function UnjailPage() {
-  const { address, getOfflineSignerDirect, chain } = useChain('injective')
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
   const { network } = useNetwork()
   const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
-  const [validatorAddress, setValidatorAddress] = useState<string>('')
-  const [validator, setValidator] = useState<ValidatorInfo | null>(null)
-  const [loading, setLoading] = useState(false)
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  // Derive validator operator address from wallet account
+  const validatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const validator = validatorQuery.data ?? null
+  const validatorAddress = validator ? validator.operatorAddress : ''
+  const loading = validatorQuery.isLoading
+  const validatorError = validatorQuery.error && !validator ? describeQueryError(validatorQuery.error) : null
+  const signingInfo = useSigningInfoQuery(validator?.consensusPubkey).data ?? null
+  const { eligibility, isLoading: eligibilityLoading, error: eligibilityError } = useUnjailEligibility(validator?.operatorAddress)
   const [infoDismissed, setInfoDismissed] = useState(false)
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null)
   const [profileImageError, setProfileImageError] = useState(false)
 
-  useEffect(() => {
-    if (address) {
-      loadValidator()
-    }
-  }, [address, network])
-
   // Load Keybase profile picture when validator changes
   useEffect(() => {
     const loadKeybasePicture = async () => {
@@ -55,41 +63,8 @@ export default function UnjailPage() {
     }
   }, [validator])
 
-  const loadValidator = async () => {
-    if (!address) return
-    
-    setLoading(true)
-    try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(derivedValidatorAddress)
-      
-      if (validatorInfo) {
-        console.log('[UNJAIL PAGE] Loaded validator info:', {
-          operatorAddress: validatorInfo.operatorAddress,
-          status: validatorInfo.status,
-          jailed: validatorInfo.jailed,
-          moniker: validatorInfo.moniker,
-        })
-        setValidator(validatorInfo)
-        setValidatorAddress(derivedValidatorAddress)
-      } else {
-        console.log('[UNJAIL PAGE] No validator found for address:', derivedValidatorAddress)
-        setValidator(null)
-        setValidatorAddress('')
-      }
-    } catch (error) {
-      console.error('Failed to load validator:', error)
-      setValidator(null)
-      setValidatorAddress('')
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const handleUnjail = async () => {
-    if (!address || !getOfflineSignerDirect) {
+    if (!address) {
       setTxStatus({ status: 'error', error: 'Wallet not connected' })
       return
     }
@@ -99,29 +74,30 @@ export default function UnjailPage() {
       return
     }
 
+    if (!eligibility?.eligible) {
+      setTxStatus({ status: 'warning', warning: 'Unjail would fail on chain. Resolve the issues listed above first.' })
+      return
+    }
+
     try {
       setTxStatus({ status: 'pending' })
       
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
-      }
-      
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
-      const result = await unjailTransaction(signer, validatorAddress, chain.chain_id)
+      const result = await unjailTransaction(signer, validatorAddress, chain.chain_id, { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       // Only proceed if transaction succeeded (code 0)
       if (result.transactionHash) {
         setTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog,
+          rawLog: result.rawLog,
         })
-        
-        // Reload validator info to check if status changed
-        await loadValidator()
+        // The jailed status refreshes through the invalidated query cache
       } else {
         throw new Error('Transaction completed but no transaction hash was returned')
       }
@@ -151,6 +127,10 @@ export default function UnjailPage() {
         </div>
       ) : loading ? (
         <div>Loading validator information...</div>
+      ) : validatorError ? (
+        <div className="error-message">
+          Failed to load validator: {validatorError}
+        </div>
       ) : !validator ? (
         <div className="error-message">
           No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
@@ -224,18 +204,45 @@ export default function UnjailPage() {
                     {validator.jailed ? 'Yes' : 'No'}
                   </span>
                 </div>
+                {validator.jailed && signingInfo?.jailedUntil && (
+                  <div className="info-item">
+                    <span className="info-label">Jailed Until</span>
+                    <span className="info-value">{new Date(signingInfo.jailedUntil).toLocaleString()}</span>
+                  </div>
+                )}
+                {signingInfo && (
+                  <div className="info-item">
+                    <span className="info-label">Missed Blocks</span>
+                    <span className="info-value">{signingInfo.missedBlocksCounter}</span>
+                  </div>
+                )}
+                {signingInfo?.tombstoned && (
+                  <div className="info-item">
+                    <span className="info-label">Tombstoned</span>
+                    <span className="info-value status-error">Yes (Validator is permanently banned)</span>
+                  </div>
+                )}
               </div>
 
               {validator.jailed && (
                 <div style={{ marginTop: '1.5rem' }}>
                   <h3 style={{ marginTop: 0, marginBottom: '1rem', color: 'var(--accent-primary)', fontSize: '1.25rem', fontWeight: 600, letterSpacing: '-0.01em', paddingBottom: '0.5rem', borderBottom: '1px solid var(--border-color)' }}>Unjail Validator</h3>
                   <p style={{ marginBottom: '1rem', color: 'var(--text-secondary)' }}>
-                    Your validator is currently jailed. Click the button below to unjail it.
+                    Your validator is currently jailed. Once every check below passes, click the button to unjail it.
                   </p>
+                  {eligibilityLoading ? (
+                    <div style={{ marginBottom: '1rem' }}>Checking unjail eligibility...</div>
+                  ) : eligibility ? (
+                    <UnjailEligibilityPanel eligibility={eligibility} />
+                  ) : (
+                    <div className="error-message">
+                      Could not check unjail eligibility{eligibilityError ? `: ${describeQueryError(eligibilityError)}` : ''}
+                    </div>
+                  )}
                   <form className="unjail-form" onSubmit={(e) => { e.preventDefault(); handleUnjail(); }}>
                     <button
                       type="submit"
-                      disabled={txStatus.status === 'pending'}
+                      disabled={txStatus.status === 'pending' || !eligibility?.eligible}
                     >
                       {txStatus.status === 'pending' ? 'Unjailing...' : 'Unjail Validator'}
                     </button>
@@ -254,6 +261,8 @@ export default function UnjailPage() {
           )}
         </>
       )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
     </div>
   )
 }
@@ -1,47 +1,34 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { useChain } from '@cosmos-kit/react'
 import { ValidatorEditForm } from '../components/ValidatorEditForm'
 import { TransactionStatus } from '../components/TransactionStatus'
+import { FeeConfirmation } from '../components/FeeConfirmation'
 import { ValidatorEditFormData } from '../utils/validation'
-import { TransactionStatus as TxStatus, ValidatorInfo } from '../types'
+import { TransactionStatus as TxStatus } from '../types'
 import { editValidatorTransaction } from '../services/transactions'
-import { QueryService } from '../services/queries'
+import { useValidatorQuery } from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
 import { useNetwork } from '../contexts/NetworkContext'
-import { createInjectiveSigner } from '../utils/injective-signer'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { toValidatorOperatorAddress } from '../utils/address'
 
 export default function ValidatorEditPage() {
-  const { address, getOfflineSignerDirect, chain } = useChain('injective')
+  const { chain } = useChain('injective')
+  const { address, getSigner } = useTxAccount()
   const { network } = useNetwork()
   const [txStatus, setTxStatus] = useState<TxStatus>({ status: 'idle' })
-  const [validator, setValidator] = useState<ValidatorInfo | null>(null)
-  const [loading, setLoading] = useState(false)
-
-  useEffect(() => {
-    if (address) {
-      loadValidator()
-    }
-  }, [address, network])
-
-  const loadValidator = async () => {
-    if (!address) return
-    
-    setLoading(true)
-    try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account (same as createValidatorTransaction)
-      const { toValidatorOperatorAddress } = await import('../utils/address')
-      const validatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(validatorAddress)
-      setValidator(validatorInfo)
-    } catch (error) {
-      console.error('Failed to load validator:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  // Derive validator operator address from wallet account (same as createValidatorTransaction)
+  const validatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const validator = validatorQuery.data ?? null
+  const loading = validatorQuery.isLoading
+  const validatorError = validatorQuery.error && !validator ? describeQueryError(validatorQuery.error) : null
 
   const handleSubmit = async (data: ValidatorEditFormData) => {
-    if (!address || !getOfflineSignerDirect || !validator) {
+    if (!address || !validator) {
       setTxStatus({ status: 'error', error: 'Wallet not connected or validator not found' })
       return
     }
@@ -49,13 +36,7 @@ export default function ValidatorEditPage() {
     try {
       setTxStatus({ status: 'pending' })
       
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
-      }
-      
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
       const result = await editValidatorTransaction(
         signer,
@@ -63,8 +44,13 @@ export default function ValidatorEditPage() {
         data,
         validator.operatorAddress,
         chain.chain_id,
-        validator.commission.rate
+        validator.commission.rate,
+        { onStage: (stage) => setTxStatus({ status: 'pending', stage }), confirmFee }
       )
+      if (isUnsignedTxExport(result)) {
+        setTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       console.log('[ValidatorEditPage] Transaction result:', result)
       
@@ -75,11 +61,9 @@ export default function ValidatorEditPage() {
         setTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog || (result as any).txResponse?.rawLog,
+          rawLog: result.rawLog,
         })
-        
-        // Reload validator info
-        await loadValidator()
+        // Validator info refreshes through the invalidated query cache
       } else {
         console.error('[ValidatorEditPage] No transaction hash in result:', result)
         throw new Error('Transaction completed but no transaction hash was returned')
@@ -110,6 +94,10 @@ export default function ValidatorEditPage() {
         </div>
       ) : loading ? (
         <div>Loading validator information...</div>
+      ) : validatorError ? (
+        <div className="error-message">
+          Failed to load validator: {validatorError}
+        </div>
       ) : !validator ? (
         <div className="error-message">
           No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
@@ -128,6 +116,8 @@ export default function ValidatorEditPage() {
           />
         </>
       )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
     </div>
   )
 }
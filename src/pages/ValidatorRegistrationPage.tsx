@@ -3,29 +3,34 @@ import { Link } from 'react-router-dom'
 import { useChain } from '@cosmos-kit/react'
 import { ValidatorRegistrationForm } from '../components/ValidatorRegistrationForm'
 import { TransactionStatus } from '../components/TransactionStatus'
+import { FeeConfirmation } from '../components/FeeConfirmation'
 import { ValidatorRegistrationFormData } from '../utils/validation'
-import { TransactionStatus as TxStatus, ValidatorInfo } from '../types'
+import { TransactionStatus as TxStatus } from '../types'
 import { createValidatorTransaction } from '../services/transactions'
 import { useNetwork } from '../contexts/NetworkContext'
-import { createInjectiveSigner } from '../utils/injective-signer'
-import { QueryService } from '../services/queries'
+import { useTxAccount } from '../hooks/useTxAccount'
+import { isUnsignedTxExport } from '../services/offline-tx'
+import { saveUnsignedTx } from '../utils/offline-files'
+import { useFeeConfirmation } from '../hooks/useFeeConfirmation'
+import { useValidatorQuery } from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
 import { toValidatorOperatorAddress } from '../utils/address'
 
 export default function ValidatorRegistrationPage() {
-  const { address, getOfflineSignerDirect, chain, status } = useChain('injective')
+  const { chain, status } = useChain('injective')
+  const { address, offline, getSigner } = useTxAccount()
   const { network } = useNetwork()
   const [validatorTxStatus, setValidatorTxStatus] = useState<TxStatus>({ status: 'idle' })
-  const [existingValidator, setExistingValidator] = useState<ValidatorInfo | null>(null)
-  const [loadingValidator, setLoadingValidator] = useState(false)
+  const { feeEstimate, confirmFee, resolveFee } = useFeeConfirmation()
+  // Derive validator operator address from wallet account (same as createValidatorTransaction)
+  const validatorQuery = useValidatorQuery(address ? toValidatorOperatorAddress(address) : null)
+  const existingValidator = validatorQuery.data ?? null
+  const loadingValidator = validatorQuery.isLoading
+  const validatorError = validatorQuery.error && !existingValidator ? describeQueryError(validatorQuery.error) : null
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null)
   const [profileImageError, setProfileImageError] = useState(false)
   const [warningDismissed, setWarningDismissed] = useState(false)
 
-  useEffect(() => {
-    if (address) {
-      checkExistingValidator()
-    }
-  }, [address, network])
 
   // Load Keybase profile picture when existingValidator changes
   useEffect(() => {
@@ -56,36 +61,13 @@ export default function ValidatorRegistrationPage() {
     }
   }, [existingValidator])
 
-  const checkExistingValidator = async () => {
-    if (!address) return
-    
-    setLoadingValidator(true)
-    try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account (same as createValidatorTransaction)
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const validatorInfo = await queryService.getValidator(derivedValidatorAddress)
-      
-      if (validatorInfo) {
-        setExistingValidator(validatorInfo)
-      } else {
-        setExistingValidator(null)
-      }
-    } catch (error) {
-      console.error('Failed to check existing validator:', error)
-      setExistingValidator(null)
-    } finally {
-      setLoadingValidator(false)
-    }
-  }
-
   const handleValidatorSubmit = async (data: ValidatorRegistrationFormData) => {
-    if (!address || !getOfflineSignerDirect) {
+    if (!address) {
       setValidatorTxStatus({ status: 'error', error: 'Wallet not connected' })
       return
     }
 
-    if (status !== 'Connected') {
+    if (!offline && status !== 'Connected') {
       setValidatorTxStatus({ status: 'error', error: 'Wallet is not fully connected. Please wait and try again.' })
       return
     }
@@ -93,16 +75,14 @@ export default function ValidatorRegistrationPage() {
     try {
       setValidatorTxStatus({ status: 'pending' })
       
-      // Get direct offline signer from Cosmos Kit for protobuf signing
-      const offlineSigner = getOfflineSignerDirect()
-      if (!offlineSigner) {
-        throw new Error('Failed to get offline signer')
-      }
-      
-      const signer = await createInjectiveSigner(offlineSigner, chain.chain_id, network)
+      const signer = await getSigner()
       
-      // Use Injective DirectSigner's signAndBroadcast which properly handles EthAccount
-      const result = await createValidatorTransaction(signer, address, data, chain.chain_id)
+      // Signed through the Injective DirectSigner, which properly handles EthAccount (or exported in offline mode)
+      const result = await createValidatorTransaction(signer, address, data, chain.chain_id, { onStage: (stage) => setValidatorTxStatus({ status: 'pending', stage }), confirmFee })
+      if (isUnsignedTxExport(result)) {
+        setValidatorTxStatus(saveUnsignedTx(result))
+        return
+      }
       
       // Only proceed if transaction succeeded (code 0)
       // The transaction function will throw if it failed, so if we get here, it succeeded
@@ -110,15 +90,9 @@ export default function ValidatorRegistrationPage() {
         setValidatorTxStatus({ 
           status: 'success', 
           hash: result.transactionHash,
-          rawLog: (result as any).rawLog,
+          rawLog: result.rawLog,
         })
-        // Refresh validator check to get the newly registered validator info
-        // Add a small delay to ensure the validator is indexed on-chain
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        await checkExistingValidator()
-        
-        // Trigger refresh of validator address in BalanceDisplay
-        window.dispatchEvent(new CustomEvent('validator-registered'))
+        // The new validator shows up here and in the wallet card through the invalidated query cache
       } else {
         throw new Error('Transaction completed but no transaction hash was returned')
       }
@@ -149,6 +123,10 @@ export default function ValidatorRegistrationPage() {
         </div>
       ) : loadingValidator ? (
         <div>Checking for existing validator...</div>
+      ) : validatorError ? (
+        <div className="error-message">
+          Could not check for an existing validator: {validatorError}
+        </div>
       ) : existingValidator ? (
         <>
           {!warningDismissed && (
@@ -223,6 +201,8 @@ export default function ValidatorRegistrationPage() {
           />
         </>
       )}
+
+      {feeEstimate && <FeeConfirmation estimate={feeEstimate} onResolve={resolveFee} />}
     </div>
   )
 }
@@ -1,76 +1,102 @@
-import { useState, useEffect } from 'react'
-import { useChain } from '@cosmos-kit/react'
+import { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useTxAccount } from '../hooks/useTxAccount'
 import { ValidatorInfo } from '../components/ValidatorInfo'
-import { ValidatorInfo as ValidatorInfoType, OrchestratorMapping } from '../types'
-import { QueryService } from '../services/queries'
-import { useNetwork } from '../contexts/NetworkContext'
+import { UptimePanel } from '../components/UptimePanel'
+import { SignatureHeatmap } from '../components/SignatureHeatmap'
+import { ValidatorInfo as ValidatorInfoType } from '../types'
+import {
+  useBalanceQuery,
+  useOrchestratorQuery,
+  useSigningInfoQuery,
+  useSlashingParamsQuery,
+  useValidatorQuery,
+} from '../hooks/queries'
+import { describeQueryError } from '../services/lcd-client'
+import { useBranding } from '../contexts/BrandingContext'
 import { toValidatorOperatorAddress } from '../utils/address'
+import { formatTokenAmount, numberToTokenAmount } from '../utils/format'
 
-export default function ValidatorStatusPage() {
-  const { address } = useChain('injective')
-  const { network } = useNetwork()
-  const [validator, setValidator] = useState<ValidatorInfoType | null>(null)
-  const [orchestrator, setOrchestrator] = useState<OrchestratorMapping | null>(null)
-  const [loading, setLoading] = useState(false)
+const STATUS_REFETCH_INTERVAL_MS = 30_000
 
-  useEffect(() => {
-    if (address) {
-      loadValidator()
-    }
-  }, [address, network])
+export default function ValidatorStatusPage() {
+  const { address } = useTxAccount()
+  const { branding } = useBranding()
+  // Without a connected wallet, fall back to the operator's validator from branding.json
+  const validatorAddress = address ? toValidatorOperatorAddress(address) : branding.defaultValidator
+  const validatorQuery = useValidatorQuery(validatorAddress, { refetchIntervalMs: STATUS_REFETCH_INTERVAL_MS })
+  const orchestratorQuery = useOrchestratorQuery(validatorAddress)
+  const slashingParamsQuery = useSlashingParamsQuery()
+  const signingInfoQuery = useSigningInfoQuery(validatorQuery.data?.consensusPubkey, {
+    refetchIntervalMs: STATUS_REFETCH_INTERVAL_MS,
+  })
+  const loading = validatorQuery.isLoading || orchestratorQuery.isLoading
+  const validatorError = validatorQuery.error && !validatorQuery.data ? describeQueryError(validatorQuery.error) : null
+  const orchestrator = orchestratorQuery.data ?? null
+  const orchestratorError = orchestratorQuery.error && !orchestrator ? describeQueryError(orchestratorQuery.error) : null
+  // The orchestrator pays the fees of its peggy claims, so an empty account stalls it
+  const orchestratorBalanceQuery = useBalanceQuery(orchestrator?.orchestratorAddress, {
+    refetchIntervalMs: STATUS_REFETCH_INTERVAL_MS,
+  })
+  const orchestratorBalance = orchestratorBalanceQuery.data ?? null
+  const orchestratorBalanceLow = orchestratorBalance !== null
+    && BigInt(orchestratorBalance) < BigInt(numberToTokenAmount(branding.orchestratorMinBalance))
 
-  const loadValidator = async () => {
-    if (!address) return
-    
-    setLoading(true)
-    try {
-      const queryService = new QueryService(network)
-      // Derive validator operator address from wallet account (same as createValidatorTransaction)
-      const derivedValidatorAddress = toValidatorOperatorAddress(address)
-      const [validatorInfo, orchestratorInfo, slashingParams] = await Promise.all([
-        queryService.getValidator(derivedValidatorAddress),
-        queryService.getOrchestratorMapping(derivedValidatorAddress),
-        queryService.getSlashingParams(),
-      ])
-      
-      if (validatorInfo) {
-        // Add slashing params to validator info
-        if (slashingParams) {
-          validatorInfo.slashingParams = slashingParams
-        }
-        setValidator(validatorInfo)
-      } else {
-        setValidator(null)
-      }
-      setOrchestrator(orchestratorInfo)
-    } catch (error) {
-      console.error('Failed to load validator info:', error)
-      setValidator(null)
-    } finally {
-      setLoading(false)
+  // Slashing params and signing info only enrich the view, so a failure there must not hide the validator
+  const validator = useMemo<ValidatorInfoType | null>(() => {
+    if (!validatorQuery.data) return null
+    return {
+      ...validatorQuery.data,
+      slashingParams: slashingParamsQuery.data,
+      slashingInfo: signingInfoQuery.data ?? undefined,
     }
-  }
+  }, [validatorQuery.data, slashingParamsQuery.data, signingInfoQuery.data])
 
   return (
     <div className="page">
       <h1>Validator Status</h1>
       
-      {!address ? (
+      {!validatorAddress ? (
         <div className="error-message">
           Please connect your wallet to view validator status.
         </div>
       ) : loading ? (
         <div>Loading validator information...</div>
+      ) : validatorError ? (
+        <div className="error-message">
+          Failed to load validator: {validatorError}
+        </div>
       ) : !validator ? (
         <div className="error-message">
           No validator found for the connected wallet. Please ensure you're connected with a validator operator wallet that has registered a validator.
         </div>
       ) : (
-        <ValidatorInfo
-          validator={validator}
-          orchestrator={orchestrator}
-          loading={false}
-        />
+        <>
+          {orchestratorBalanceLow && (
+            <div className="warning-box">
+              <strong>Orchestrator balance low:</strong> {formatTokenAmount(orchestratorBalance!)} INJ left,
+              below the {branding.orchestratorMinBalance} INJ threshold. Without INJ for fees the orchestrator
+              stops submitting claims.
+              {address && branding.routes.orchestrator && (
+                <> <Link to="/orchestrator">Fund the orchestrator</Link></>
+              )}
+            </div>
+          )}
+          <div className="validator-info uptime-card">
+            <UptimePanel validatorAddress={validator.operatorAddress} />
+          </div>
+          {validator.consensusPubkey && (
+            <div className="validator-info uptime-card">
+              <SignatureHeatmap consensusPubkey={validator.consensusPubkey} />
+            </div>
+          )}
+          <ValidatorInfo
+            validator={validator}
+            orchestrator={orchestrator}
+            orchestratorError={orchestratorError}
+            loading={false}
+          />
+        </>
       )}
     </div>
   )
@@ -0,0 +1,272 @@
+import { Network } from '../types'
+import { getChainConfig } from '../config/chains'
+
+export type EndpointKind = 'rest' | 'rpc'
+
+export interface EndpointHealth {
+  url: string
+  healthy: boolean
+  height: number | null
+  latencyMs: number | null
+  lastChecked: number
+  error?: string
+}
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>
+
+const HEALTH_TTL_MS = 30_000 // Re-probe endpoints at most every 30 seconds
+const PROBE_TIMEOUT_MS = 5_000
+// Queries may be slower than probes (paginated lists, module state) but must not hang on a silent node
+const REQUEST_TIMEOUT_MS = 20_000
+const MAX_HEIGHT_LAG = 5 // Nodes further behind the best height are only used as fallback
+
+/**
+ * fetch that aborts after `timeoutMs`. A caller-supplied signal still aborts the request as well.
+ */
+async function fetchWithTimeout(url: string, init: FetchInit = {}, timeoutMs = PROBE_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs)
+  const callerSignal = init.signal
+  const abortFromCaller = () => controller.abort(callerSignal?.reason)
+  if (callerSignal?.aborted) {
+    abortFromCaller()
+  }
+  callerSignal?.addEventListener('abort', abortFromCaller)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(timer)
+    callerSignal?.removeEventListener('abort', abortFromCaller)
+  }
+}
+
+async function fetchJson(url: string) {
+  const response = await fetchWithTimeout(url)
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * grpc-gateway reports application errors (e.g. an unknown peggy delegate key) as HTTP 500
+ * with a JSON body carrying the gRPC code. Those come from a working node and must not trigger failover.
+ */
+async function isApplicationError(response: Response): Promise<boolean> {
+  if (response.status !== 500) {
+    return false
+  }
+  try {
+    const body = await response.clone().json()
+    return typeof body?.code === 'number'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Probes a REST (LCD) endpoint via node_info and the latest block
+ */
+async function probeRest(url: string, chainId: string): Promise<Omit<EndpointHealth, 'url' | 'lastChecked'>> {
+  const startedAt = performance.now()
+  const [nodeInfo, latestBlock] = await Promise.all([
+    fetchJson(`${url}/cosmos/base/tendermint/v1beta1/node_info`),
+    fetchJson(`${url}/cosmos/base/tendermint/v1beta1/blocks/latest`),
+  ])
+  const latencyMs = Math.round(performance.now() - startedAt)
+
+  const nodeNetwork = nodeInfo?.default_node_info?.network
+  if (nodeNetwork && nodeNetwork !== chainId) {
+    return { healthy: false, height: null, latencyMs, error: `Wrong chain: ${nodeNetwork}` }
+  }
+
+  const heightValue = latestBlock?.sdk_block?.header?.height ?? latestBlock?.block?.header?.height
+  const height = heightValue ? parseInt(heightValue, 10) : NaN
+
+  return {
+    healthy: !isNaN(height),
+    height: isNaN(height) ? null : height,
+    latencyMs,
+    error: isNaN(height) ? 'Latest block height unavailable' : undefined,
+  }
+}
+
+/**
+ * Probes a Tendermint RPC endpoint via /status
+ */
+async function probeRpc(url: string, chainId: string): Promise<Omit<EndpointHealth, 'url' | 'lastChecked'>> {
+  const startedAt = performance.now()
+  const status = await fetchJson(`${url}/status`)
+  const latencyMs = Math.round(performance.now() - startedAt)
+
+  const result = status?.result ?? status
+  const nodeNetwork = result?.node_info?.network
+  if (nodeNetwork && nodeNetwork !== chainId) {
+    return { healthy: false, height: null, latencyMs, error: `Wrong chain: ${nodeNetwork}` }
+  }
+
+  const height = parseInt(result?.sync_info?.latest_block_height ?? '', 10)
+  const catchingUp = result?.sync_info?.catching_up === true
+
+  return {
+    healthy: !isNaN(height) && !catchingUp,
+    height: isNaN(height) ? null : height,
+    latencyMs,
+    error: catchingUp ? 'Node is catching up' : isNaN(height) ? 'Latest block height unavailable' : undefined,
+  }
+}
+
+/**
+ * Ordered list of endpoints for one network and API kind.
+ * Queries go to the healthiest, most up-to-date node and fail over to the next one on errors.
+ */
+export class EndpointPool {
+  private health = new Map<string, EndpointHealth>()
+  private probing: Promise<void> | null = null
+  private lastProbe = 0
+
+  constructor(
+    private readonly kind: EndpointKind,
+    private readonly urls: string[],
+    private readonly chainId: string
+  ) {
+    if (urls.length === 0) {
+      throw new Error(`No ${kind} endpoints configured for ${chainId}`)
+    }
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.urls.map((url) => this.health.get(url) ?? {
+      url,
+      healthy: false,
+      height: null,
+      latencyMs: null,
+      lastChecked: 0,
+    })
+  }
+
+  /**
+   * Probes all endpoints in parallel. Concurrent callers share the same probe.
+   */
+  async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastProbe < HEALTH_TTL_MS) {
+      return
+    }
+    if (this.probing) {
+      return this.probing
+    }
+
+    this.probing = (async () => {
+      const probe = this.kind === 'rest' ? probeRest : probeRpc
+      await Promise.all(this.urls.map(async (url) => {
+        try {
+          const result = await probe(url, this.chainId)
+          this.health.set(url, { url, lastChecked: Date.now(), ...result })
+        } catch (error) {
+          this.markFailed(url, error)
+        }
+      }))
+      this.lastProbe = Date.now()
+      console.log(`[ENDPOINTS] ${this.kind} health for ${this.chainId}:`, this.getHealth())
+    })()
+
+    try {
+      await this.probing
+    } finally {
+      this.probing = null
+    }
+  }
+
+  /**
+   * Healthy endpoints first (up-to-date before lagging, then by latency),
+   * followed by the remaining endpoints in configured order as a last resort
+   */
+  async getOrderedEndpoints(): Promise<string[]> {
+    await this.refresh()
+
+    const entries = this.getHealth()
+    const healthy = entries.filter((entry) => entry.healthy)
+    const bestHeight = Math.max(0, ...healthy.map((entry) => entry.height ?? 0))
+    const isLagging = (entry: EndpointHealth) => bestHeight - (entry.height ?? 0) > MAX_HEIGHT_LAG
+
+    healthy.sort((a, b) => {
+      const lagDifference = Number(isLagging(a)) - Number(isLagging(b))
+      if (lagDifference !== 0) {
+        return lagDifference
+      }
+      return (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)
+    })
+
+    const unhealthy = entries.filter((entry) => !entry.healthy)
+    return [...healthy, ...unhealthy].map((entry) => entry.url)
+  }
+
+  async getBestEndpoint(): Promise<string> {
+    const [best] = await this.getOrderedEndpoints()
+    return best
+  }
+
+  markFailed(url: string, error: unknown) {
+    const previous = this.health.get(url)
+    this.health.set(url, {
+      url,
+      healthy: false,
+      height: previous?.height ?? null,
+      latencyMs: previous?.latencyMs ?? null,
+      lastChecked: Date.now(),
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  /**
+   * Fetches `path` from the best endpoint, failing over on network errors, timeouts, 5xx and 429 responses.
+   * Other responses (including 404 and application errors) are returned as-is because they come from a working node.
+   */
+  async fetch(path: string, init?: FetchInit): Promise<Response> {
+    const endpoints = await this.getOrderedEndpoints()
+    let lastError: unknown = null
+
+    for (const url of endpoints) {
+      try {
+        const response = await fetchWithTimeout(`${url}${path}`, init, REQUEST_TIMEOUT_MS)
+        if ((response.status >= 500 || response.status === 429) && !(await isApplicationError(response))) {
+          lastError = new Error(`${response.status} ${response.statusText}`)
+          this.markFailed(url, lastError)
+          console.warn(`[ENDPOINTS] ${url} returned ${response.status}, failing over`)
+          continue
+        }
+        return response
+      } catch (error) {
+        // Cancelled by the caller, not a failing node
+        if (init?.signal?.aborted) {
+          throw error
+        }
+        lastError = error
+        this.markFailed(url, error)
+        console.warn(`[ENDPOINTS] ${url} unreachable, failing over:`, error)
+      }
+    }
+
+    const reason = lastError instanceof Error ? lastError.message : String(lastError)
+    throw new Error(`All ${this.kind} endpoints failed for ${this.chainId}: ${reason}`)
+  }
+}
+
+const pools = new Map<string, EndpointPool>()
+
+/**
+ * Shared pool per network and kind. A changed endpoint list (branding config,
+ * edited custom network) gets a fresh pool.
+ */
+export function getEndpointPool(network: Network, kind: EndpointKind): EndpointPool {
+  const config = getChainConfig(network)
+  const urls = kind === 'rest' ? config.rest : config.rpc
+  const key = `${network}|${kind}|${urls.join(',')}`
+
+  let pool = pools.get(key)
+  if (!pool) {
+    pool = new EndpointPool(kind, urls, config.chainId)
+    pools.set(key, pool)
+  }
+  return pool
+}
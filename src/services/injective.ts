@@ -3,17 +3,18 @@ import {
   ChainRestTendermintApi,
   TxRestApi,
 } from '@injectivelabs/sdk-ts'
-import { MAINNET_CONFIG, TESTNET_CONFIG } from '../config/chains'
+import type { TxRaw } from '@interchainjs/cosmos-types/cosmos/tx/v1beta1/tx'
+import { getChainConfig } from '../config/chains'
 import { Network as AppNetwork } from '../types'
+import { EndpointPool, getEndpointPool } from './endpoints'
 
 // Network enum removed - use AppNetwork type directly
 
 export function getInjectiveEndpoints(network: AppNetwork = 'mainnet') {
-  const config = network === 'mainnet' ? MAINNET_CONFIG : TESTNET_CONFIG
-  // Use specific gRPC endpoint for mainnet, derive for testnet
-  const grpcEndpoint = network === 'mainnet' 
-    ? 'grpc.injective-main-eu1.ccvalidators.com:443'
-    : config.rest.replace('/lcd', '/grpc').replace('lcd.', 'grpc.')
+  const config = getChainConfig(network)
+  // Use the configured gRPC endpoint if there is one, otherwise derive it from REST
+  const grpcEndpoint = config.grpc
+    ?? config.rest[0].replace('/lcd', '/grpc').replace('lcd.', 'grpc.')
   return {
     rpc: config.rpc,
     rest: config.rest,
@@ -23,34 +24,45 @@ export function getInjectiveEndpoints(network: AppNetwork = 'mainnet') {
 
 export class InjectiveService {
   private chainId: string
-  private restEndpoint: string
+  private restPool: EndpointPool
 
   constructor(network: AppNetwork = 'mainnet') {
-    const config = network === 'mainnet' ? MAINNET_CONFIG : TESTNET_CONFIG
+    const config = getChainConfig(network)
     this.chainId = config.chainId
-    this.restEndpoint = config.rest
+    this.restPool = getEndpointPool(network, 'rest')
   }
 
   getChainId(): string {
     return this.chainId
   }
 
-  getRestEndpoint(): string {
-    return this.restEndpoint
+  /**
+   * Returns the currently healthiest REST endpoint
+   */
+  async getRestEndpoint(): Promise<string> {
+    return this.restPool.getBestEndpoint()
   }
 
   async getAccount(address: string) {
-    const authApi = new ChainRestAuthApi(this.restEndpoint)
+    const authApi = new ChainRestAuthApi(await this.getRestEndpoint())
     return authApi.fetchAccount(address)
   }
 
   async getLatestBlock() {
-    const tendermintApi = new ChainRestTendermintApi(this.restEndpoint)
+    const tendermintApi = new ChainRestTendermintApi(await this.getRestEndpoint())
     return tendermintApi.fetchLatestBlock()
   }
 
-  async broadcastTransaction(txRaw: any) {
-    const txApi = new TxRestApi(this.restEndpoint)
+  async simulateTransaction(txRaw: TxRaw) {
+    const txApi = new TxRestApi(await this.getRestEndpoint())
+    return txApi.simulate(txRaw)
+  }
+
+  /**
+   * Broadcasts a signed transaction and waits until it is included in a block
+   */
+  async broadcastTransaction(txRaw: TxRaw) {
+    const txApi = new TxRestApi(await this.getRestEndpoint())
     return txApi.broadcast(txRaw)
   }
 }
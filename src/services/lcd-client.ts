@@ -0,0 +1,145 @@
+import { z } from 'zod'
+import { EndpointPool } from './endpoints'
+
+/**
+ * Base class for LCD query failures. `path` is the REST path that was requested.
+ */
+export class LcdError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(message)
+    this.name = 'LcdError'
+  }
+}
+
+/**
+ * The node answered, but the requested object does not exist on chain
+ */
+export class LcdNotFoundError extends LcdError {
+  constructor(path: string, message = 'Not found') {
+    super(message, path)
+    this.name = 'LcdNotFoundError'
+  }
+}
+
+/**
+ * No endpoint could be reached or the node returned an error response
+ */
+export class LcdNetworkError extends LcdError {
+  constructor(path: string, message: string, readonly status?: number) {
+    super(message, path)
+    this.name = 'LcdNetworkError'
+  }
+}
+
+/**
+ * The node rejected the query with an application error (gRPC status `code`)
+ */
+export class LcdQueryError extends LcdError {
+  constructor(path: string, message: string, readonly code: number) {
+    super(message, path)
+    this.name = 'LcdQueryError'
+  }
+}
+
+/**
+ * The node answered with a body that does not match the expected schema
+ */
+export class LcdSchemaError extends LcdError {
+  constructor(path: string, detail: string, readonly issues: z.core.$ZodIssue[] = []) {
+    super(`Unexpected response format for ${path}: ${detail}`, path)
+    this.name = 'LcdSchemaError'
+  }
+}
+
+// gRPC status code NotFound, as returned in the grpc-gateway error body
+const GRPC_NOT_FOUND = 5
+
+async function readErrorBody(response: Response): Promise<{ code?: number; message?: string }> {
+  try {
+    const body = await response.json()
+    return {
+      code: typeof body?.code === 'number' ? body.code : undefined,
+      message: typeof body?.message === 'string' ? body.message : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Typed GET requests against the LCD endpoint pool. Every response is
+ * validated against a zod schema before it reaches the caller.
+ */
+export class LcdClient {
+  constructor(private readonly pool: EndpointPool) {}
+
+  async get<S extends z.ZodType>(path: string, schema: S): Promise<z.output<S>> {
+    let response: Response
+    try {
+      response = await this.pool.fetch(path)
+    } catch (error) {
+      throw new LcdNetworkError(path, error instanceof Error ? error.message : String(error))
+    }
+
+    if (!response.ok) {
+      const body = await readErrorBody(response)
+      if (response.status === 404 || body.code === GRPC_NOT_FOUND) {
+        throw new LcdNotFoundError(path, body.message)
+      }
+      if (body.code !== undefined) {
+        throw new LcdQueryError(path, body.message || `Query failed with code ${body.code}`, body.code)
+      }
+      throw new LcdNetworkError(path, `${response.status} ${response.statusText}`, response.status)
+    }
+
+    let data: unknown
+    try {
+      data = await response.json()
+    } catch {
+      throw new LcdSchemaError(path, 'response is not valid JSON')
+    }
+
+    const result = schema.safeParse(data)
+    if (!result.success) {
+      const detail = result.error.issues
+        .map((issue) => `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')
+      console.error(`[LCD] Schema mismatch for ${path}:`, result.error.issues)
+      throw new LcdSchemaError(path, detail, result.error.issues)
+    }
+    return result.data
+  }
+
+  /**
+   * Like `get`, but resolves to null when the object does not exist
+   */
+  async find<S extends z.ZodType>(path: string, schema: S): Promise<z.output<S> | null> {
+    try {
+      return await this.get(path, schema)
+    } catch (error) {
+      if (error instanceof LcdNotFoundError) {
+        return null
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * User-facing description of a query failure
+ */
+export function describeQueryError(error: unknown): string {
+  if (error instanceof LcdNotFoundError) {
+    return 'Not found on chain'
+  }
+  if (error instanceof LcdNetworkError) {
+    return `Could not reach the chain endpoint: ${error.message}`
+  }
+  if (error instanceof LcdQueryError) {
+    return `The endpoint rejected the query: ${error.message}`
+  }
+  if (error instanceof LcdSchemaError) {
+    return 'The endpoint returned an unexpected response. It may be running an incompatible version.'
+  }
+  return error instanceof Error ? error.message : String(error)
+}
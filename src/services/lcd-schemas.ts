@@ -0,0 +1,323 @@
+import { z } from 'zod'
+
+/**
+ * Zod schemas for the LCD (REST) responses used by QueryService.
+ * Field names follow the chain's JSON (snake_case); normalization to the
+ * app types happens in services/queries.ts.
+ */
+
+export const coinSchema = z.object({
+  denom: z.string(),
+  amount: z.string(),
+})
+
+// Distribution amounts are sdk.Dec strings with 18 decimal places
+export const decCoinSchema = coinSchema
+
+export const paginationSchema = z.object({
+  next_key: z.string().nullish(),
+  total: z.string().nullish(),
+}).nullish()
+
+// ---- Staking ----
+
+export const bondStatusSchema = z.enum([
+  'BOND_STATUS_UNSPECIFIED',
+  'BOND_STATUS_UNBONDED',
+  'BOND_STATUS_UNBONDING',
+  'BOND_STATUS_BONDED',
+])
+
+export const lcdValidatorSchema = z.object({
+  operator_address: z.string(),
+  // Any-encoded pubkey, e.g. { "@type": "/cosmos.crypto.ed25519.PubKey", "key": "<base64>" }
+  consensus_pubkey: z.object({
+    '@type': z.string().optional(),
+    key: z.string().optional(),
+    value: z.string().optional(),
+  }).nullish(),
+  jailed: z.boolean().optional(),
+  status: bondStatusSchema,
+  tokens: z.string(),
+  delegator_shares: z.string(),
+  description: z.object({
+    moniker: z.string().optional(),
+    identity: z.string().optional(),
+    website: z.string().optional(),
+    security_contact: z.string().optional(),
+    details: z.string().optional(),
+  }).optional(),
+  commission: z.object({
+    commission_rates: z.object({
+      rate: z.string(),
+      max_rate: z.string(),
+      max_change_rate: z.string(),
+    }),
+    update_time: z.string().optional(),
+  }),
+  min_self_delegation: z.string(),
+})
+
+export const validatorResponseSchema = z.object({
+  validator: lcdValidatorSchema,
+})
+
+export const validatorsResponseSchema = z.object({
+  validators: z.array(lcdValidatorSchema),
+  pagination: paginationSchema,
+})
+
+export const lcdDelegationResponseSchema = z.object({
+  delegation: z.object({
+    delegator_address: z.string(),
+    validator_address: z.string(),
+    shares: z.string(),
+  }),
+  balance: coinSchema,
+})
+
+export const delegationResponseSchema = z.object({
+  delegation_response: lcdDelegationResponseSchema,
+})
+
+export const unbondingDelegationResponseSchema = z.object({
+  unbond: z.object({
+    delegator_address: z.string(),
+    validator_address: z.string(),
+    entries: z.array(z.object({
+      creation_height: z.union([z.string(), z.number()]),
+      completion_time: z.string(),
+      initial_balance: z.string(),
+      balance: z.string(),
+    })),
+  }),
+})
+
+const redelegationEntrySchema = z.object({
+  creation_height: z.union([z.string(), z.number()]),
+  completion_time: z.string(),
+  initial_balance: z.string(),
+  shares_dst: z.string(),
+})
+
+export const redelegationsResponseSchema = z.object({
+  redelegation_responses: z.array(z.object({
+    redelegation: z.object({
+      delegator_address: z.string(),
+      validator_src_address: z.string(),
+      validator_dst_address: z.string(),
+    }),
+    entries: z.array(z.object({
+      redelegation_entry: redelegationEntrySchema,
+      balance: z.string(),
+    })),
+  })),
+  pagination: paginationSchema,
+})
+
+// ---- Tendermint ----
+
+export const commitSignatureSchema = z.object({
+  block_id_flag: z.string(),
+  // Consensus address bytes, base64
+  validator_address: z.string().nullish(),
+  timestamp: z.string().nullish(),
+})
+
+const blockSchema = z.object({
+  header: z.object({
+    height: z.string(),
+    time: z.string(),
+    proposer_address: z.string().optional(),
+  }),
+  last_commit: z.object({
+    height: z.string(),
+    signatures: z.array(commitSignatureSchema),
+  }).optional(),
+})
+
+// Newer nodes return `sdk_block` (bech32 proposer) next to the legacy `block` (base64 proposer)
+export const blockResponseSchema = z.object({
+  block: blockSchema.optional(),
+  sdk_block: blockSchema.optional(),
+})
+
+// ---- Slashing ----
+
+export const signingInfoResponseSchema = z.object({
+  val_signing_info: z.object({
+    address: z.string().optional(),
+    start_height: z.string().optional(),
+    index_offset: z.string().optional(),
+    jailed_until: z.string().optional(),
+    tombstoned: z.boolean().optional(),
+    missed_blocks_counter: z.string().optional(),
+  }),
+})
+
+export const slashingParamsResponseSchema = z.object({
+  params: z.object({
+    signed_blocks_window: z.string(),
+    min_signed_per_window: z.string(),
+    downtime_jail_duration: z.string(),
+    slash_fraction_double_sign: z.string(),
+    slash_fraction_downtime: z.string(),
+  }),
+})
+
+// ---- Bank ----
+
+export const balancesResponseSchema = z.object({
+  balances: z.array(coinSchema),
+  pagination: paginationSchema,
+})
+
+// ---- Distribution ----
+
+export const validatorOutstandingRewardsResponseSchema = z.object({
+  rewards: z.object({
+    rewards: z.array(decCoinSchema),
+  }),
+})
+
+export const validatorCommissionResponseSchema = z.object({
+  commission: z.object({
+    commission: z.array(decCoinSchema),
+  }),
+})
+
+export const delegatorRewardsResponseSchema = z.object({
+  rewards: z.array(decCoinSchema),
+})
+
+// ---- Gov (v1) ----
+
+const tallyResultSchema = z.object({
+  yes_count: z.string(),
+  abstain_count: z.string(),
+  no_count: z.string(),
+  no_with_veto_count: z.string(),
+})
+
+export const govProposalSchema = z.object({
+  id: z.string(),
+  messages: z.array(z.object({ '@type': z.string() }).passthrough()).optional(),
+  status: z.string(),
+  final_tally_result: tallyResultSchema.nullish(),
+  submit_time: z.string().nullish(),
+  voting_start_time: z.string().nullish(),
+  voting_end_time: z.string().nullish(),
+  // Proposals submitted before v1 only carry metadata
+  title: z.string().optional(),
+  summary: z.string().optional(),
+  metadata: z.string().optional(),
+})
+
+export const govProposalsResponseSchema = z.object({
+  proposals: z.array(govProposalSchema),
+  pagination: paginationSchema,
+})
+
+export const govTallyResponseSchema = z.object({
+  tally: tallyResultSchema,
+})
+
+export const govVoteResponseSchema = z.object({
+  vote: z.object({
+    proposal_id: z.string(),
+    voter: z.string(),
+    options: z.array(z.object({
+      option: z.string(),
+      weight: z.string(),
+    })),
+  }),
+})
+
+// ---- Authz ----
+
+export const authzGrantSchema = z.object({
+  granter: z.string(),
+  grantee: z.string(),
+  // GenericAuthorization carries `msg`, StakeAuthorization `authorization_type`; other types have their own fields
+  authorization: z.object({
+    '@type': z.string(),
+    msg: z.string().optional(),
+    authorization_type: z.string().optional(),
+  }).passthrough(),
+  expiration: z.string().nullish(),
+})
+
+export const authzGrantsResponseSchema = z.object({
+  grants: z.array(authzGrantSchema),
+  pagination: paginationSchema,
+})
+
+// ---- Peggy ----
+
+export const peggyOrchestratorAddressSchema = z.object({
+  sender: z.string(),
+  orchestrator: z.string(),
+  eth_address: z.string(),
+})
+
+export const peggyModuleStateResponseSchema = z.object({
+  state: z.object({
+    orchestrator_addresses: z.array(peggyOrchestratorAddressSchema).optional(),
+    // Nonce of the last Ethereum event the validator set attested to
+    last_observed_nonce: z.union([z.string(), z.number()]).optional(),
+  }),
+})
+
+export const delegateKeysByValidatorResponseSchema = z.object({
+  eth_address: z.string(),
+  orchestrator_address: z.string(),
+})
+
+export const delegateKeysByEthResponseSchema = z.object({
+  validator_address: z.string(),
+  orchestrator_address: z.string(),
+})
+
+export const delegateKeysByOrchestratorResponseSchema = z.object({
+  validator_address: z.string(),
+  eth_address: z.string(),
+})
+
+// Nonces are uint64, which some nodes serialize as numbers
+const peggyNonceSchema = z.union([z.string(), z.number()])
+
+const peggyValsetSchema = z.object({
+  nonce: peggyNonceSchema,
+  height: peggyNonceSchema.optional(),
+})
+
+export const peggyValsetsResponseSchema = z.object({
+  valsets: z.array(peggyValsetSchema).nullish(),
+})
+
+const peggyOutgoingBatchSchema = z.object({
+  batch_nonce: peggyNonceSchema,
+  batch_timeout: peggyNonceSchema.optional(),
+  token_contract: z.string(),
+  block: peggyNonceSchema.optional(),
+  transactions: z.array(z.unknown()).nullish(),
+})
+
+export const peggyOutgoingBatchesResponseSchema = z.object({
+  batches: z.array(peggyOutgoingBatchSchema).nullish(),
+})
+
+export const peggyLastPendingBatchResponseSchema = z.object({
+  batch: peggyOutgoingBatchSchema.nullish(),
+})
+
+export const peggyLastEventResponseSchema = z.object({
+  last_claim_event: z.object({
+    ethereum_event_nonce: peggyNonceSchema,
+    ethereum_event_height: peggyNonceSchema.optional(),
+  }).nullish(),
+})
+
+export type LcdGovProposal = z.infer<typeof govProposalSchema>
+export type LcdValidator = z.infer<typeof lcdValidatorSchema>
+export type PeggyOrchestratorAddress = z.infer<typeof peggyOrchestratorAddressSchema>
@@ -0,0 +1,271 @@
+import { z } from 'zod'
+import { fromBase64, toBase64, toUtf8 } from '@cosmjs/encoding'
+import { keccak256, Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto'
+import type { OfflineAminoSigner, StdSignDoc } from '@cosmjs/amino'
+import type { EncodeObject } from '@cosmjs/proto-signing'
+import type { StdFee } from '@interchainjs/types'
+import { PubKey as Secp256k1PubKey } from '@interchainjs/cosmos-types/cosmos/crypto/secp256k1/keys'
+import { LegacyAminoPubKey } from '@interchainjs/cosmos-types/cosmos/crypto/multisig/keys'
+import { CompactBitArray, MultiSignature } from '@interchainjs/cosmos-types/cosmos/crypto/multisig/v1beta1/multisig'
+import { SignMode } from '@interchainjs/cosmos-types/cosmos/tx/signing/v1beta1/signing'
+import { pubKeyToAddress } from '../utils/address'
+import { messageToAmino } from './tx-messages'
+
+// Injective accounts sign with eth_secp256k1 keys
+export const ETH_SECP256K1_PUBKEY_TYPE = '/injective.crypto.v1beta1.ethsecp256k1.PubKey'
+export const MULTISIG_PUBKEY_TYPE = '/cosmos.crypto.multisig.LegacyAminoPubKey'
+
+const AMINO_SIGN_MODE = 'SIGN_MODE_LEGACY_AMINO_JSON'
+
+/**
+ * A public key as proto3 JSON type URL and base64 key
+ */
+export interface PubKeyJSON {
+  type: string
+  key: string
+}
+
+/**
+ * A LegacyAminoPubKey: `threshold` of the member keys have to sign
+ */
+export interface MultisigPubKey {
+  threshold: number
+  members: PubKeyJSON[]
+}
+
+/**
+ * One member's signature over the amino sign doc
+ */
+export interface PartialSignature {
+  memberIndex: number
+  signature: Uint8Array
+  sequence: string
+}
+
+/**
+ * The transaction fields an amino sign doc covers
+ */
+export interface AminoSignable {
+  messages: readonly EncodeObject[]
+  fee: StdFee
+  memo: string
+  timeoutHeight?: string
+}
+
+const pubKeyJSONSchema = z.object({ '@type': z.string(), key: z.string().min(1) })
+
+const multisigPubKeySchema = z.object({
+  '@type': z.literal(MULTISIG_PUBKEY_TYPE),
+  threshold: z.coerce.number().int().positive(),
+  public_keys: z.array(pubKeyJSONSchema).min(1),
+})
+
+// Signature file format of `injectived tx sign --multisig`
+const signatureFileSchema = z.object({
+  signatures: z.array(z.object({
+    public_key: pubKeyJSONSchema,
+    data: z.object({
+      single: z.object({
+        mode: z.literal(AMINO_SIGN_MODE, { message: 'Multisig signatures must use the amino JSON sign mode' }),
+        signature: z.string().min(1, 'The signature is empty'),
+      }, { message: 'Only single-key signatures can be combined' }),
+    }),
+    sequence: z.string().regex(/^\d+$/, 'Invalid signature sequence'),
+  })).min(1, 'The file contains no signatures'),
+})
+
+/**
+ * The multisig key of an account's proto3 JSON public key, or null if it is not a multisig
+ */
+export function parseMultisigPubKey(json: unknown): MultisigPubKey | null {
+  const result = multisigPubKeySchema.safeParse(json)
+  if (!result.success) {
+    return null
+  }
+  return {
+    threshold: result.data.threshold,
+    members: result.data.public_keys.map((pubKey) => ({ type: pubKey['@type'], key: pubKey.key })),
+  }
+}
+
+export function encodePubKey(type: string, key: string) {
+  return {
+    typeUrl: type,
+    // ethsecp256k1 and secp256k1 PubKey share the same protobuf layout
+    value: Secp256k1PubKey.encode(Secp256k1PubKey.fromPartial({ key: fromBase64(key) })).finish(),
+  }
+}
+
+export function encodeMultisigPubKey(multisig: MultisigPubKey) {
+  return {
+    typeUrl: MULTISIG_PUBKEY_TYPE,
+    value: LegacyAminoPubKey.encode(LegacyAminoPubKey.fromPartial({
+      threshold: multisig.threshold,
+      publicKeys: multisig.members.map((member) => encodePubKey(member.type, member.key)),
+    })).finish(),
+  }
+}
+
+/**
+ * Mode info of a multisig signer: a bit per member that signed, and their (amino JSON) sign modes
+ */
+export function multisigModeInfo(memberCount: number, signedIndexes: number[]) {
+  const elems = new Uint8Array(Math.ceil(memberCount / 8))
+  for (const index of signedIndexes) {
+    elems[index >> 3] |= 0x80 >> (index & 7)
+  }
+  return {
+    multi: {
+      bitarray: CompactBitArray.fromPartial({ extraBitsStored: memberCount % 8, elems }),
+      modeInfos: signedIndexes.map(() => ({ single: { mode: SignMode.SIGN_MODE_LEGACY_AMINO_JSON } })),
+    },
+  }
+}
+
+/**
+ * The transaction signature of a multisig: the member signatures in member order
+ */
+export function encodeMultiSignature(signatures: Uint8Array[]): Uint8Array {
+  return MultiSignature.encode(MultiSignature.fromPartial({ signatures })).finish()
+}
+
+export function getMemberAddress(member: PubKeyJSON): string | null {
+  return pubKeyToAddress(member.type, member.key)
+}
+
+/**
+ * Legacy amino sign doc of a transaction; multisig members sign its sorted JSON
+ */
+export function buildAminoSignDoc(
+  tx: AminoSignable,
+  chainId: string,
+  accountNumber: string,
+  sequence: string
+): StdSignDoc {
+  return {
+    chain_id: chainId,
+    account_number: accountNumber,
+    sequence,
+    fee: { amount: tx.fee.amount, gas: tx.fee.gas },
+    msgs: tx.messages.map(messageToAmino),
+    memo: tx.memo,
+    ...(tx.timeoutHeight && tx.timeoutHeight !== '0' ? { timeout_height: tx.timeoutHeight } : {}),
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+// Sorted JSON with HTML characters escaped, as the chain (and every amino wallet) serializes it
+function signDocJSON(signDoc: StdSignDoc): string {
+  return JSON.stringify(sortKeys(signDoc))
+    .replace(/&/g, '\\u0026')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+}
+
+export function serializeSignDoc(signDoc: StdSignDoc): Uint8Array {
+  return toUtf8(signDocJSON(signDoc))
+}
+
+/**
+ * Whether `signature` over `signBytes` was made by `pubKey` (eth_secp256k1 hashes with keccak256, secp256k1 with sha256)
+ */
+export async function verifyPubKeySignature(pubKey: PubKeyJSON, signBytes: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  const hash = pubKey.type === ETH_SECP256K1_PUBKEY_TYPE ? keccak256(signBytes) : sha256(signBytes)
+  try {
+    // eth_secp256k1 signatures from the CLI carry a trailing recovery byte
+    return await Secp256k1.verifySignature(Secp256k1Signature.fromFixedLength(signature.slice(0, 64)), hash, fromBase64(pubKey.key))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks that a member's signature covers `signDoc` at the account's current sequence.
+ * Throws with a readable message otherwise.
+ */
+export async function verifyPartialSignature(multisig: MultisigPubKey, signDoc: StdSignDoc, partial: PartialSignature) {
+  const member = multisig.members[partial.memberIndex]
+  const name = getMemberAddress(member) ?? `member ${partial.memberIndex + 1}`
+  if (partial.sequence !== signDoc.sequence) {
+    throw new Error(`The signature of ${name} is for sequence ${partial.sequence}, but the account is at sequence ${signDoc.sequence}. It has to sign again.`)
+  }
+  if (!await verifyPubKeySignature(member, serializeSignDoc(signDoc), partial.signature)) {
+    throw new Error(`The signature of ${name} does not match this transaction`)
+  }
+}
+
+/**
+ * Signs `signDoc` with the connected wallet, which has to hold one of the member keys
+ */
+export async function signAsMember(
+  signer: OfflineAminoSigner,
+  signerAddress: string,
+  multisig: MultisigPubKey,
+  signDoc: StdSignDoc
+): Promise<PartialSignature> {
+  const response = await signer.signAmino(signerAddress, signDoc)
+  // Every member has to sign the exact same document for the signatures to combine
+  if (signDocJSON(response.signed) !== signDocJSON(signDoc)) {
+    throw new Error('The wallet changed the transaction (e.g. its fee) while signing. Approve it unchanged and sign again.')
+  }
+
+  const memberIndex = multisig.members.findIndex((member) => member.key === response.signature.pub_key.value)
+  if (memberIndex === -1) {
+    throw new Error('The connected wallet is not a member of this multisig')
+  }
+
+  const partial = { memberIndex, signature: fromBase64(response.signature.signature), sequence: signDoc.sequence }
+  await verifyPartialSignature(multisig, signDoc, partial)
+  return partial
+}
+
+/**
+ * A member's signature in the file format of `injectived tx sign --multisig`, so the CLI can combine it as well
+ */
+export function toSignatureFile(multisig: MultisigPubKey, partial: PartialSignature): Record<string, unknown> {
+  const member = multisig.members[partial.memberIndex]
+  return {
+    signatures: [{
+      public_key: { '@type': member.type, key: member.key },
+      data: { single: { mode: AMINO_SIGN_MODE, signature: toBase64(partial.signature) } },
+      sequence: partial.sequence,
+    }],
+  }
+}
+
+/**
+ * Reads a signature file (from this app or `injectived tx sign --multisig`).
+ * Throws if it is malformed or signed by a key that is not a member.
+ */
+export function parseSignatureFile(text: string, multisig: MultisigPubKey): PartialSignature[] {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const result = signatureFileSchema.safeParse(json)
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || 'The file is not a signature file')
+  }
+
+  return result.data.signatures.map((entry) => {
+    const memberIndex = multisig.members.findIndex((member) => member.key === entry.public_key.key)
+    if (memberIndex === -1) {
+      throw new Error(`The file is signed by ${pubKeyToAddress(entry.public_key['@type'], entry.public_key.key) ?? 'a key'} that is not a member of this multisig`)
+    }
+    return { memberIndex, signature: fromBase64(entry.data.single.signature), sequence: entry.sequence }
+  })
+}
@@ -0,0 +1,405 @@
+import { z } from 'zod'
+import { fromBase64, toBase64 } from '@cosmjs/encoding'
+import type { EncodeObject } from '@cosmjs/proto-signing'
+import { BaseAccount } from '@injectivelabs/sdk-ts'
+import type { StdFee } from '@interchainjs/types'
+import { PubKey as Secp256k1PubKey } from '@interchainjs/cosmos-types/cosmos/crypto/secp256k1/keys'
+import { SignMode } from '@interchainjs/cosmos-types/cosmos/tx/signing/v1beta1/signing'
+import { AuthInfo, SignDoc, SignerInfo, TxBody, TxRaw } from '@interchainjs/cosmos-types/cosmos/tx/v1beta1/tx'
+import { getChainConfig } from '../config/chains'
+import { Network } from '../types'
+import { pubKeyToAddress } from '../utils/address'
+import { InjectiveService } from './injective'
+import {
+  buildAminoSignDoc,
+  encodeMultiSignature,
+  encodeMultisigPubKey,
+  encodePubKey,
+  ETH_SECP256K1_PUBKEY_TYPE,
+  MultisigPubKey,
+  multisigModeInfo,
+  parseMultisigPubKey,
+  PartialSignature,
+  serializeSignDoc,
+  verifyPubKeySignature,
+} from './multisig'
+import { encodeMessage, messageFromJSON, messageToJSON, validateMessages } from './tx-messages'
+
+// Sign modes `injectived tx sign` produces for a single key
+const SIGN_MODES: Record<string, SignMode> = {
+  SIGN_MODE_DIRECT: SignMode.SIGN_MODE_DIRECT,
+  SIGN_MODE_LEGACY_AMINO_JSON: SignMode.SIGN_MODE_LEGACY_AMINO_JSON,
+}
+
+/**
+ * An account whose key is kept on an air-gapped machine. Transactions "signed" with it are
+ * exported unsigned, signed with `injectived tx sign --offline` and imported again.
+ */
+export interface OfflineAccount {
+  kind: 'offline'
+  address: string
+  network: Network
+}
+
+/**
+ * What `injectived tx sign --offline` needs besides the transaction file
+ */
+export interface OfflineAccountDetails {
+  accountNumber: string
+  sequence: string
+  // Base64 key, missing until the account has sent its first transaction
+  pubKey?: string
+  // Set instead of pubKey for a multisig account
+  multisig?: MultisigPubKey
+}
+
+/**
+ * Result of a transaction run with an OfflineAccount
+ */
+export interface UnsignedTxExport {
+  kind: 'unsigned-tx'
+  // Proto3 JSON of the unsigned cosmos.tx.v1beta1.Tx, as read by `injectived tx sign`
+  tx: Record<string, unknown>
+  address: string
+  chainId: string
+  accountNumber: string
+  sequence: string
+  // Set when each member of a multisig has to sign the file
+  multisig?: MultisigPubKey
+}
+
+/**
+ * An unsigned transaction file, decoded, e.g. for multisig members to sign
+ */
+export interface UnsignedTxImport {
+  messages: EncodeObject[]
+  // The messages as they appear in the file, for display
+  messagesJSON: Record<string, unknown>[]
+  memo: string
+  fee: StdFee
+  timeoutHeight: string
+}
+
+/**
+ * A signed transaction file, decoded and re-encoded for broadcasting
+ */
+export interface SignedTxImport extends UnsignedTxImport {
+  signatureCount: number
+  txRaw: TxRaw
+}
+
+const jsonCoinSchema = z.object({
+  denom: z.string(),
+  amount: z.string().regex(/^\d+$/, 'Invalid fee amount'),
+})
+
+const txBodySchema = z.object({
+  messages: z.array(z.record(z.string(), z.unknown())).min(1, 'The transaction has no messages'),
+  memo: z.string().default(''),
+  timeout_height: z.string().regex(/^\d+$/).default('0'),
+  extension_options: z.array(z.unknown()).max(0, 'Extension options are not supported').optional(),
+  non_critical_extension_options: z.array(z.unknown()).max(0, 'Extension options are not supported').optional(),
+})
+
+const txFeeSchema = z.object({
+  amount: z.array(jsonCoinSchema),
+  gas_limit: z.string().regex(/^\d+$/, 'Invalid gas limit'),
+  payer: z.string().default(''),
+  granter: z.string().default(''),
+})
+
+const unsignedTxSchema = z.object({
+  body: txBodySchema,
+  auth_info: z.object({ fee: txFeeSchema }),
+})
+
+const signedTxSchema = z.object({
+  body: txBodySchema,
+  auth_info: z.object({
+    signer_infos: z.array(z.object({
+      public_key: z.object({ '@type': z.string(), key: z.string() }, { message: 'Signer public key is missing' }),
+      mode_info: z.object({
+        single: z.object({ mode: z.string() }, { message: 'Multisig transactions are combined from member signatures on the Multisig page' }),
+      }),
+      sequence: z.string().regex(/^\d+$/),
+    })).min(1, 'The transaction is not signed'),
+    fee: txFeeSchema,
+  }),
+  signatures: z.array(z.string().min(1, 'The transaction has an empty signature')).min(1, 'The transaction is not signed'),
+}).refine(
+  (tx) => tx.signatures.length === tx.auth_info.signer_infos.length,
+  { message: 'The number of signatures does not match the number of signers' }
+)
+
+export function createOfflineAccount(address: string, network: Network): OfflineAccount {
+  return { kind: 'offline', address, network }
+}
+
+export function isOfflineAccount(signer: unknown): signer is OfflineAccount {
+  return typeof signer === 'object' && signer !== null && (signer as OfflineAccount).kind === 'offline'
+}
+
+export function isUnsignedTxExport(result: unknown): result is UnsignedTxExport {
+  return typeof result === 'object' && result !== null && (result as UnsignedTxExport).kind === 'unsigned-tx'
+}
+
+function encodeTxBody(messages: readonly EncodeObject[], memo: string, timeoutHeight: bigint = 0n): Uint8Array {
+  return TxBody.encode(TxBody.fromPartial({
+    messages: messages.map((message) => ({ typeUrl: message.typeUrl, value: encodeMessage(message) })),
+    memo,
+    timeoutHeight,
+  })).finish()
+}
+
+// BaseAccount.fromRestApi only reads single-key public keys
+function getRestPubKey(response: { account: unknown }): unknown {
+  const account = response.account as { pub_key?: unknown; base_account?: { pub_key?: unknown } }
+  return account.base_account?.pub_key ?? account.pub_key
+}
+
+/**
+ * Account number, sequence and public key of the offline account, via InjectiveService.getAccount
+ */
+export async function fetchOfflineAccountDetails(account: OfflineAccount): Promise<OfflineAccountDetails> {
+  let response
+  try {
+    response = await new InjectiveService(account.network).getAccount(account.address)
+  } catch (error) {
+    console.error('[OfflineTx] Failed to fetch account:', error)
+    throw new Error(`Account ${account.address} was not found on chain. It needs a balance before it can send transactions.`)
+  }
+
+  const details = BaseAccount.fromRestApi(response).toAccountDetails()
+  const multisig = parseMultisigPubKey(getRestPubKey(response))
+  return {
+    accountNumber: details.accountNumber.toString(),
+    sequence: details.sequence.toString(),
+    pubKey: multisig ? undefined : details.pubKey?.key || undefined,
+    multisig: multisig ?? undefined,
+  }
+}
+
+/**
+ * Gas used by the transaction, simulated with the account's on-chain public key and an empty signature
+ * (for a multisig: empty signatures of the first `threshold` members)
+ */
+export async function simulateOfflineTransaction(
+  account: OfflineAccount,
+  details: OfflineAccountDetails,
+  messages: readonly EncodeObject[],
+  memo: string
+): Promise<bigint> {
+  const { multisig, pubKey } = details
+  if (!multisig && !pubKey) {
+    throw new Error('The account has no public key on chain yet (it has not sent a transaction), so gas cannot be simulated')
+  }
+
+  const signers = multisig ? Array.from({ length: multisig.threshold }, (_, index) => index) : []
+  const authInfo = AuthInfo.fromPartial({
+    signerInfos: [SignerInfo.fromPartial({
+      publicKey: multisig ? encodeMultisigPubKey(multisig) : encodePubKey(ETH_SECP256K1_PUBKEY_TYPE, pubKey!),
+      modeInfo: multisig
+        ? multisigModeInfo(multisig.members.length, signers)
+        : { single: { mode: SignMode.SIGN_MODE_DIRECT } },
+      sequence: BigInt(details.sequence),
+    })],
+    fee: { amount: [], gasLimit: 0n },
+  })
+  const txRaw = TxRaw.fromPartial({
+    bodyBytes: encodeTxBody(messages, memo),
+    authInfoBytes: AuthInfo.encode(authInfo).finish(),
+    signatures: [multisig ? encodeMultiSignature(signers.map(() => new Uint8Array())) : new Uint8Array()],
+  })
+
+  const simulation = await new InjectiveService(account.network).simulateTransaction(txRaw)
+  if (!simulation.gasInfo?.gasUsed) {
+    throw new Error('Gas estimation failed: No gas info returned')
+  }
+  return BigInt(simulation.gasInfo.gasUsed)
+}
+
+/**
+ * The unsigned transaction file for `injectived tx sign`, plus the account number and
+ * sequence to pass next to it (the file itself does not contain them)
+ */
+export function buildUnsignedTx(
+  account: OfflineAccount,
+  details: OfflineAccountDetails,
+  messages: readonly EncodeObject[],
+  fee: StdFee,
+  memo: string
+): UnsignedTxExport {
+  return {
+    kind: 'unsigned-tx',
+    tx: {
+      body: {
+        messages: messages.map(messageToJSON),
+        memo,
+        timeout_height: '0',
+        extension_options: [],
+        non_critical_extension_options: [],
+      },
+      auth_info: {
+        signer_infos: [],
+        fee: { amount: fee.amount, gas_limit: fee.gas, payer: '', granter: '' },
+      },
+      signatures: [],
+    },
+    address: account.address,
+    chainId: getChainConfig(account.network).chainId,
+    accountNumber: details.accountNumber,
+    sequence: details.sequence,
+    multisig: details.multisig,
+  }
+}
+
+function parseTxFile<TSchema extends z.ZodType>(text: string, schema: TSchema, description: string): z.output<TSchema> {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || `The file is not ${description}`)
+  }
+  return result.data
+}
+
+function decodeTxFile(body: z.output<typeof txBodySchema>, fee: z.output<typeof txFeeSchema>): UnsignedTxImport {
+  const messages = body.messages.map(messageFromJSON)
+  validateMessages(messages)
+  return {
+    messages,
+    messagesJSON: body.messages,
+    memo: body.memo,
+    fee: { amount: fee.amount, gas: fee.gas_limit },
+    timeoutHeight: body.timeout_height,
+  }
+}
+
+/**
+ * Decodes an unsigned transaction file, as exported in offline mode.
+ * Throws with a readable message if it is not a transaction of supported messages.
+ */
+export function parseUnsignedTx(text: string): UnsignedTxImport {
+  const { body, auth_info: authInfo } = parseTxFile(text, unsignedTxSchema, 'an unsigned transaction')
+  return decodeTxFile(body, authInfo.fee)
+}
+
+/**
+ * Decodes a transaction file signed by `injectived tx sign` and re-encodes it for broadcasting.
+ * Throws with a readable message if the file is not a signed transaction of supported messages.
+ */
+export function parseSignedTx(text: string): SignedTxImport {
+  const { body, auth_info: authInfo, signatures } = parseTxFile(text, signedTxSchema, 'a signed transaction')
+  const tx = decodeTxFile(body, authInfo.fee)
+
+  const signerInfos = authInfo.signer_infos.map((info) => {
+    const mode = SIGN_MODES[info.mode_info.single.mode]
+    if (mode === undefined) {
+      throw new Error(`Unsupported sign mode ${info.mode_info.single.mode}`)
+    }
+    return SignerInfo.fromPartial({
+      publicKey: encodePubKey(info.public_key['@type'], info.public_key.key),
+      modeInfo: { single: { mode } },
+      sequence: BigInt(info.sequence),
+    })
+  })
+
+  const authInfoBytes = AuthInfo.encode(AuthInfo.fromPartial({
+    signerInfos,
+    fee: {
+      amount: tx.fee.amount,
+      gasLimit: BigInt(tx.fee.gas),
+      payer: authInfo.fee.payer,
+      granter: authInfo.fee.granter,
+    },
+  })).finish()
+
+  return {
+    ...tx,
+    signatureCount: signatures.length,
+    txRaw: TxRaw.fromPartial({
+      bodyBytes: encodeTxBody(tx.messages, tx.memo, BigInt(tx.timeoutHeight)),
+      authInfoBytes,
+      signatures: signatures.map((signature) => fromBase64(signature)),
+    }),
+  }
+}
+
+/**
+ * Checks every signature of an imported transaction against the bytes it was re-encoded to and the
+ * signer's public key. The file only holds JSON, so a field this app encodes differently than the CLI
+ * would otherwise surface as an opaque signature error from the chain.
+ */
+export async function verifySignedTx(signed: SignedTxImport, network: Network): Promise<void> {
+  const chainId = getChainConfig(network).chainId
+  const { bodyBytes, authInfoBytes, signatures } = signed.txRaw
+  const { signerInfos } = AuthInfo.decode(authInfoBytes)
+
+  for (const [index, signerInfo] of signerInfos.entries()) {
+    const pubKey = {
+      type: signerInfo.publicKey!.typeUrl,
+      key: toBase64(Secp256k1PubKey.decode(signerInfo.publicKey!.value).key),
+    }
+    const address = pubKeyToAddress(pubKey.type, pubKey.key)
+    if (!address) {
+      throw new Error(`Signatures of ${pubKey.type} keys cannot be checked`)
+    }
+
+    // Signatures cover the account number, which the file does not contain
+    const { accountNumber } = await fetchOfflineAccountDetails(createOfflineAccount(address, network))
+    const signBytes = signerInfo.modeInfo?.single?.mode === SignMode.SIGN_MODE_DIRECT
+      ? SignDoc.encode(SignDoc.fromPartial({ bodyBytes, authInfoBytes, chainId, accountNumber: BigInt(accountNumber) })).finish()
+      : serializeSignDoc(buildAminoSignDoc(signed, chainId, accountNumber, signerInfo.sequence.toString()))
+
+    if (!await verifyPubKeySignature(pubKey, signBytes, signatures[index])) {
+      throw new Error(
+        `The signature of ${address} does not match this transaction. It was signed for another chain or account number, `
+          + `or the file contains fields this app cannot re-encode exactly; broadcast it with \`injectived tx broadcast\` instead.`
+      )
+    }
+  }
+}
+
+/**
+ * Combines the member signatures of a multisig account into the signed transaction.
+ * The signatures must already be verified (see verifyPartialSignature); at least `threshold` are required.
+ */
+export function buildMultisigTx(
+  tx: UnsignedTxImport,
+  details: OfflineAccountDetails,
+  signatures: readonly PartialSignature[]
+): SignedTxImport {
+  const { multisig } = details
+  if (!multisig) {
+    throw new Error('The account is not a multisig')
+  }
+  if (signatures.length < multisig.threshold) {
+    throw new Error(`${signatures.length} of ${multisig.threshold} required signatures collected`)
+  }
+
+  // The multisignature lists the member signatures in member order
+  const sorted = [...signatures].sort((a, b) => a.memberIndex - b.memberIndex)
+  const authInfoBytes = AuthInfo.encode(AuthInfo.fromPartial({
+    signerInfos: [SignerInfo.fromPartial({
+      publicKey: encodeMultisigPubKey(multisig),
+      modeInfo: multisigModeInfo(multisig.members.length, sorted.map((partial) => partial.memberIndex)),
+      sequence: BigInt(details.sequence),
+    })],
+    fee: { amount: tx.fee.amount, gasLimit: BigInt(tx.fee.gas) },
+  })).finish()
+
+  return {
+    ...tx,
+    signatureCount: sorted.length,
+    txRaw: TxRaw.fromPartial({
+      bodyBytes: encodeTxBody(tx.messages, tx.memo, BigInt(tx.timeoutHeight)),
+      authInfoBytes,
+      signatures: [encodeMultiSignature(sorted.map((partial) => partial.signature))],
+    }),
+  }
+}
@@ -1,410 +1,666 @@
-import { ValidatorInfo, OrchestratorMapping, DelegationInfo, UnbondingDelegation } from '../types'
-import { getChainConfig } from '../config/chains'
+import { z } from 'zod'
+import { fromBase64, fromBech32, toHex } from '@cosmjs/encoding'
+import {
+  ValidatorInfo,
+  OrchestratorMapping,
+  DelegationInfo,
+  UnbondingDelegation,
+  Redelegation,
+  SlashingSigningInfo,
+  SlashingParams,
+  BlockHeaderInfo,
+  BlockSignatures,
+  GovProposal,
+  AuthzGrant,
+  GovTally,
+  GovVote,
+  VoteOption,
+  PeggyValset,
+  PeggyBatch,
+  OrchestratorEventNonce,
+  OrchestratorPeggyState,
+  PeggyModuleState,
+} from '../types'
 import { Network } from '../types'
+import { toValidatorOperatorAddress } from '../utils/address'
+import { getStakeAuthorization } from '../utils/authz'
+import { getEndpointPool } from './endpoints'
+import { LcdClient, LcdNetworkError, LcdSchemaError } from './lcd-client'
+import {
+  LcdGovProposal,
+  LcdValidator,
+  authzGrantsResponseSchema,
+  balancesResponseSchema,
+  blockResponseSchema,
+  delegatorRewardsResponseSchema,
+  delegateKeysByEthResponseSchema,
+  delegateKeysByOrchestratorResponseSchema,
+  delegateKeysByValidatorResponseSchema,
+  delegationResponseSchema,
+  govProposalsResponseSchema,
+  govTallyResponseSchema,
+  govVoteResponseSchema,
+  peggyLastEventResponseSchema,
+  peggyLastPendingBatchResponseSchema,
+  peggyModuleStateResponseSchema,
+  peggyOutgoingBatchesResponseSchema,
+  peggyValsetsResponseSchema,
+  redelegationsResponseSchema,
+  signingInfoResponseSchema,
+  slashingParamsResponseSchema,
+  unbondingDelegationResponseSchema,
+  validatorCommissionResponseSchema,
+  validatorOutstandingRewardsResponseSchema,
+  validatorResponseSchema,
+  validatorsResponseSchema,
+} from './lcd-schemas'
 
+const COMMIT_FLAG = 'BLOCK_ID_FLAG_COMMIT'
+
+// Parallel requests when querying every orchestrator; keeps public endpoints from rate limiting us
+const PEGGY_FETCH_CONCURRENCY = 6
+
+function base64ToHex(value: string): string {
+  return toHex(fromBase64(value)).toUpperCase()
+}
+
+/**
+ * Proposer addresses are base64 in `block` and bech32 (valcons) in `sdk_block`
+ */
+function consensusAddressToHex(address: string): string {
+  if (!address) return ''
+  try {
+    return toHex(fromBech32(address).data).toUpperCase()
+  } catch {
+    return base64ToHex(address)
+  }
+}
+
+function toNonce(value: string | number | undefined): number {
+  return value === undefined ? 0 : Number(value) || 0
+}
+
+function findDecCoinAmount(coins: Array<{ denom: string; amount: string }>, denom: string): string {
+  return coins.find((coin) => coin.denom === denom)?.amount ?? '0'
+}
+
+function normalizeTally(tally: { yes_count: string; abstain_count: string; no_count: string; no_with_veto_count: string }): GovTally {
+  return {
+    yes: tally.yes_count,
+    abstain: tally.abstain_count,
+    no: tally.no_count,
+    noWithVeto: tally.no_with_veto_count,
+  }
+}
+
+function normalizeProposal(proposal: LcdGovProposal): GovProposal {
+  return {
+    id: proposal.id,
+    title: proposal.title || `Proposal #${proposal.id}`,
+    summary: proposal.summary || undefined,
+    status: proposal.status,
+    messageTypes: (proposal.messages ?? []).map((message) => message['@type']),
+    submitTime: proposal.submit_time ?? undefined,
+    votingStartTime: proposal.voting_start_time ?? undefined,
+    votingEndTime: proposal.voting_end_time ?? undefined,
+    finalTally: proposal.final_tally_result ? normalizeTally(proposal.final_tally_result) : undefined,
+  }
+}
+
+/**
+ * Maps an LCD validator to the app's ValidatorInfo.
+ * Shared by every query that returns validators.
+ */
+export function normalizeValidator(validator: LcdValidator): ValidatorInfo {
+  return {
+    operatorAddress: validator.operator_address,
+    // The pubkey is an Any in JSON form: { "@type": ..., "key": "<base64>" }
+    consensusPubkey: validator.consensus_pubkey?.key ?? validator.consensus_pubkey?.value ?? '',
+    moniker: validator.description?.moniker || '',
+    identity: validator.description?.identity,
+    website: validator.description?.website,
+    securityContact: validator.description?.security_contact,
+    details: validator.description?.details,
+    commission: {
+      rate: validator.commission.commission_rates.rate,
+      maxRate: validator.commission.commission_rates.max_rate,
+      maxChangeRate: validator.commission.commission_rates.max_change_rate,
+    },
+    minSelfDelegation: validator.min_self_delegation,
+    status: validator.status === 'BOND_STATUS_UNSPECIFIED' ? 'BOND_STATUS_UNBONDED' : validator.status,
+    jailed: validator.jailed === true,
+    tokens: validator.tokens,
+    delegatorShares: validator.delegator_shares,
+  }
+}
+
+/**
+ * Chain queries over the LCD endpoint pool.
+ *
+ * Lookups of a single object resolve to null when it does not exist on chain.
+ * Unreachable endpoints and malformed responses throw an LcdError subclass
+ * (see services/lcd-client.ts), so callers can tell the two cases apart.
+ */
 export class QueryService {
-  private restEndpoint: string
+  private lcd: LcdClient
 
   constructor(network: Network = 'mainnet') {
-    const config = getChainConfig(network)
-    this.restEndpoint = config.rest
+    this.lcd = new LcdClient(getEndpointPool(network, 'rest'))
   }
 
   async getValidator(validatorAddress: string): Promise<ValidatorInfo | null> {
-    try {
-      // Use REST API: GET /cosmos/staking/v1beta1/validators/{validatorAddr}
-      const url = `${this.restEndpoint}/cosmos/staking/v1beta1/validators/${validatorAddress}`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null
-        }
-        throw new Error(`Failed to fetch validator: ${response.status} ${response.statusText}`)
+    const data = await this.lcd.find(
+      `/cosmos/staking/v1beta1/validators/${validatorAddress}`,
+      validatorResponseSchema
+    )
+    return data ? normalizeValidator(data.validator) : null
+  }
+
+  async getAllValidators(): Promise<ValidatorInfo[]> {
+    const validators: ValidatorInfo[] = []
+    let nextKey: string | null | undefined = null
+
+    // Follow pagination so validators beyond the first page are included
+    do {
+      const params = new URLSearchParams({ 'pagination.limit': '200' })
+      if (nextKey) {
+        params.set('pagination.key', nextKey)
       }
-      
-      const data = await response.json()
-      const validator = data.validator
-      
-      console.log('[QUERY] Raw validator data from API:', JSON.stringify(validator, null, 2))
-      
-      if (!validator) {
-        return null
+      const data = await this.lcd.get(`/cosmos/staking/v1beta1/validators?${params}`, validatorsResponseSchema)
+      validators.push(...data.validators.map(normalizeValidator))
+      nextKey = data.pagination?.next_key
+    } while (nextKey)
+
+    return validators
+  }
+
+  /**
+   * Orchestrator and Ethereum address registered for a validator (valoper or account address)
+   */
+  async getOrchestratorMapping(validatorAddress: string): Promise<OrchestratorMapping | null> {
+    const operatorAddress = toValidatorOperatorAddress(validatorAddress)
+    const params = new URLSearchParams({ validator_address: operatorAddress })
+
+    const keys = await this.findDelegateKeys(
+      `/peggy/v1/query_delegate_keys_by_validator?${params}`,
+      delegateKeysByValidatorResponseSchema
+    )
+    if (keys?.orchestrator_address) {
+      return {
+        validatorAddress: operatorAddress,
+        orchestratorAddress: keys.orchestrator_address,
+        ethereumAddress: keys.eth_address,
       }
-      
-      // Extract consensus pubkey from Any type
-      let consensusPubkey = ''
-      if (validator.consensus_pubkey) {
-        // The pubkey is in Any format: { type_url: string, value: string (base64) }
-        if (validator.consensus_pubkey.value) {
-          consensusPubkey = validator.consensus_pubkey.value
-        }
+    }
+
+    return this.findInPeggyModuleState((mapping) => mapping.validatorAddress === operatorAddress)
+  }
+
+  /**
+   * Validator and Ethereum address an orchestrator address is bound to
+   */
+  async getOrchestratorByOrchestratorAddress(orchestratorAddress: string): Promise<OrchestratorMapping | null> {
+    const params = new URLSearchParams({ orchestrator_address: orchestratorAddress })
+
+    const keys = await this.findDelegateKeys(
+      `/peggy/v1/query_delegate_keys_by_orchestrator?${params}`,
+      delegateKeysByOrchestratorResponseSchema
+    )
+    if (keys?.validator_address) {
+      return {
+        validatorAddress: toValidatorOperatorAddress(keys.validator_address),
+        orchestratorAddress,
+        ethereumAddress: keys.eth_address,
       }
-      
-      const jailed = validator.jailed === true
-      const status = validator.status || 'BOND_STATUS_UNBONDED'
-      
-      console.log('[QUERY] Parsed validator info:', {
-        operatorAddress: validator.operator_address || validatorAddress,
-        jailed,
-        status,
-        moniker: validator.description?.moniker || '',
-      })
-      
+    }
+
+    return this.findInPeggyModuleState((mapping) => mapping.orchestratorAddress === orchestratorAddress)
+  }
+
+  /**
+   * Validator and orchestrator an Ethereum address is bound to
+   */
+  async getOrchestratorByEthAddress(ethereumAddress: string): Promise<OrchestratorMapping | null> {
+    const params = new URLSearchParams({ eth_address: ethereumAddress })
+
+    const keys = await this.findDelegateKeys(
+      `/peggy/v1/query_delegate_keys_by_eth?${params}`,
+      delegateKeysByEthResponseSchema
+    )
+    if (keys?.validator_address) {
       return {
-        operatorAddress: validator.operator_address || validatorAddress,
-        consensusPubkey,
-        moniker: validator.description?.moniker || '',
-        identity: validator.description?.identity,
-        website: validator.description?.website,
-        securityContact: validator.description?.security_contact,
-        details: validator.description?.details,
-        commission: {
-          rate: validator.commission?.commission_rates?.rate || '0',
-          maxRate: validator.commission?.commission_rates?.max_rate || '0',
-          maxChangeRate: validator.commission?.commission_rates?.max_change_rate || '0',
-        },
-        minSelfDelegation: validator.min_self_delegation || '0',
-        status: status as 'BOND_STATUS_UNBONDED' | 'BOND_STATUS_UNBONDING' | 'BOND_STATUS_BONDED',
-        jailed,
-        tokens: validator.tokens || '0',
-        delegatorShares: validator.delegator_shares || '0',
+        validatorAddress: toValidatorOperatorAddress(keys.validator_address),
+        orchestratorAddress: keys.orchestrator_address,
+        ethereumAddress,
       }
-    } catch (error) {
-      console.error('Error fetching validator:', error)
-      return null
     }
+
+    const normalized = ethereumAddress.toLowerCase()
+    return this.findInPeggyModuleState((mapping) => mapping.ethereumAddress.toLowerCase() === normalized)
   }
 
-  async getOrchestratorMapping(_validatorAddress: string): Promise<OrchestratorMapping | null> {
+  /**
+   * Peggy answers unknown delegate keys with an application error rather than 404,
+   * and older nodes may not serve these queries at all. Both cases fall back to the module state.
+   */
+  private async findDelegateKeys<S extends z.ZodType>(path: string, schema: S): Promise<z.output<S> | null> {
     try {
-      // Note: The exact method for fetching orchestrator address may vary
-      // This is a placeholder - adjust based on actual Injective SDK API
-      // For now, return null as the method needs to be verified
-      // TODO: Implement once the correct API method is confirmed
-      // const peggyApi = new ChainGrpcPeggyApi(this.grpcEndpoint)
-      // const response = await peggyApi.fetchOrchestratorAddresses()
-      // const mapping = response.find((m: any) => m.validator === validatorAddress)
-      // if (!mapping) return null
-      // return {
-      //   validatorAddress: mapping.validator || validatorAddress,
-      //   orchestratorAddress: mapping.orchestrator || '',
-      //   ethereumAddress: mapping.ethereum || '',
-      // }
-      return null
+      return await this.lcd.find(path, schema)
     } catch (error) {
-      console.error('Error fetching orchestrator mapping:', error)
+      if (error instanceof LcdNetworkError && error.status === undefined) {
+        throw error
+      }
+      console.warn(`[QUERY] ${path} failed, falling back to peggy module state:`, error)
       return null
     }
   }
 
-  async getOrchestratorBySender(senderAddress: string): Promise<OrchestratorMapping | null> {
-    try {
-      // Try multiple possible endpoints for orchestrator queries
-      // First, try the module state endpoint
-      const moduleStateUrl = `${this.restEndpoint}/peggy/v1/module_state`
-      const moduleStateResponse = await fetch(moduleStateUrl)
-      
-      if (moduleStateResponse.ok) {
-        const moduleStateData = await moduleStateResponse.json()
-        console.log('[QUERY] Orchestrator module state:', JSON.stringify(moduleStateData, null, 2))
-        
-        // Check various possible locations for orchestrator data
-        const orchestrators = 
-          moduleStateData.state?.orchestrators || 
-          moduleStateData.orchestrators || 
-          moduleStateData.state?.orchestrator_addresses ||
-          []
-        
-        // Find the orchestrator mapping where sender matches
-        const mapping = orchestrators.find((m: any) => 
-          m.sender && m.sender.toLowerCase() === senderAddress.toLowerCase()
-        )
-        
-        if (mapping) {
-          console.log('[QUERY] Found orchestrator mapping in module state:', mapping)
-          return {
-            validatorAddress: mapping.sender || senderAddress,
-            orchestratorAddress: mapping.orchestrator || '',
-            ethereumAddress: mapping.eth_address || mapping.ethereum || mapping.ethereum_address || '',
-          }
-        }
-      }
-      
-      // Try a direct orchestrator query endpoint
-      try {
-        const orchestratorUrl = `${this.restEndpoint}/peggy/v1/orchestrator/${senderAddress}`
-        const orchestratorResponse = await fetch(orchestratorUrl)
-        
-        if (orchestratorResponse.ok) {
-          const orchestratorData = await orchestratorResponse.json()
-          console.log('[QUERY] Orchestrator query response:', JSON.stringify(orchestratorData, null, 2))
-          
-          if (orchestratorData.orchestrator || orchestratorData.eth_address) {
-            return {
-              validatorAddress: senderAddress,
-              orchestratorAddress: orchestratorData.orchestrator || '',
-              ethereumAddress: orchestratorData.eth_address || orchestratorData.ethereum || '',
-            }
-          }
-        }
-      } catch (orchestratorError) {
-        console.log('[QUERY] Orchestrator endpoint not available, trying alternative...')
-      }
-      
-      // Try querying all orchestrators and filtering
-      try {
-        const allOrchestratorsUrl = `${this.restEndpoint}/peggy/v1/orchestrators`
-        const allOrchestratorsResponse = await fetch(allOrchestratorsUrl)
-        
-        if (allOrchestratorsResponse.ok) {
-          const allOrchestratorsData = await allOrchestratorsResponse.json()
-          console.log('[QUERY] All orchestrators response:', JSON.stringify(allOrchestratorsData, null, 2))
-          
-          const orchestratorsList = allOrchestratorsData.orchestrators || allOrchestratorsData || []
-          const mapping = orchestratorsList.find((m: any) => 
-            m.sender && m.sender.toLowerCase() === senderAddress.toLowerCase()
-          )
-          
-          if (mapping) {
-            console.log('[QUERY] Found orchestrator mapping in all orchestrators:', mapping)
-            return {
-              validatorAddress: mapping.sender || senderAddress,
-              orchestratorAddress: mapping.orchestrator || '',
-              ethereumAddress: mapping.eth_address || mapping.ethereum || mapping.ethereum_address || '',
-            }
-          }
-        }
-      } catch (allOrchestratorsError) {
-        console.log('[QUERY] All orchestrators endpoint not available')
+  private async findInPeggyModuleState(
+    predicate: (mapping: OrchestratorMapping) => boolean
+  ): Promise<OrchestratorMapping | null> {
+    const moduleState = await this.getPeggyModuleState()
+    return moduleState.orchestrators.find(predicate) ?? null
+  }
+
+  /**
+   * Registered orchestrators and the last observed event nonce.
+   * The module state is genesis-sized on mainnet, so callers should not poll it.
+   */
+  async getPeggyModuleState(): Promise<PeggyModuleState> {
+    const data = await this.lcd.get('/peggy/v1/module_state', peggyModuleStateResponseSchema)
+    return {
+      lastObservedEventNonce: toNonce(data.state.last_observed_nonce),
+      orchestrators: (data.state.orchestrator_addresses ?? []).map((entry) => ({
+        validatorAddress: toValidatorOperatorAddress(entry.sender),
+        orchestratorAddress: entry.orchestrator,
+        ethereumAddress: entry.eth_address,
+      })),
+    }
+  }
+
+  /**
+   * Most recent valset update requests, newest first
+   */
+  async getLatestValsets(): Promise<PeggyValset[]> {
+    const data = await this.lcd.get('/peggy/v1/valset/requests', peggyValsetsResponseSchema)
+    return (data.valsets ?? [])
+      .map((valset) => ({ nonce: toNonce(valset.nonce), height: valset.height?.toString() }))
+      .sort((a, b) => b.nonce - a.nonce)
+  }
+
+  /**
+   * Valsets that still need a confirmation from `orchestratorAddress`, oldest first
+   */
+  async getPendingValsets(orchestratorAddress: string): Promise<PeggyValset[]> {
+    const params = new URLSearchParams({ address: orchestratorAddress })
+    const data = await this.lcd.find(`/peggy/v1/valset/last?${params}`, peggyValsetsResponseSchema)
+    return (data?.valsets ?? [])
+      .map((valset) => ({ nonce: toNonce(valset.nonce), height: valset.height?.toString() }))
+      .sort((a, b) => a.nonce - b.nonce)
+  }
+
+  /**
+   * Outgoing transaction batches waiting to be relayed to Ethereum
+   */
+  async getOutgoingBatches(): Promise<PeggyBatch[]> {
+    const data = await this.lcd.get('/peggy/v1/batch/outgoingtx', peggyOutgoingBatchesResponseSchema)
+    return (data.batches ?? []).map((batch) => ({
+      nonce: toNonce(batch.batch_nonce),
+      tokenContract: batch.token_contract,
+      timeout: batch.batch_timeout?.toString(),
+      transactionCount: batch.transactions?.length ?? 0,
+    }))
+  }
+
+  /**
+   * Outgoing batches `orchestratorAddress` has not signed yet, oldest first
+   */
+  async getPendingBatches(orchestratorAddress: string): Promise<PeggyBatch[]> {
+    const params = new URLSearchParams({ address: orchestratorAddress })
+    const [batches, lastPending] = await Promise.all([
+      this.getOutgoingBatches(),
+      this.lcd.find(`/peggy/v1/batch/last?${params}`, peggyLastPendingBatchResponseSchema),
+    ])
+    if (!lastPending?.batch) {
+      return []
+    }
+
+    // The chain only reports the oldest unsigned batch; peggo signs in nonce order, so every later one is pending too
+    const oldestPendingNonce = toNonce(lastPending.batch.batch_nonce)
+    return batches
+      .filter((batch) => batch.nonce >= oldestPendingNonce)
+      .sort((a, b) => a.nonce - b.nonce)
+  }
+
+  /**
+   * Nonce of the last Ethereum event `orchestratorAddress` submitted a claim for (0 if none)
+   */
+  async getLastEventNonce(orchestratorAddress: string): Promise<number> {
+    const data = await this.lcd.find(`/peggy/v1/oracle/event/${orchestratorAddress}`, peggyLastEventResponseSchema)
+    return toNonce(data?.last_claim_event?.ethereum_event_nonce)
+  }
+
+  /**
+   * Signing and claim progress of an orchestrator, from per-orchestrator queries only.
+   * The last observed event nonce to compare against comes from `getPeggyModuleState`.
+   */
+  async getOrchestratorPeggyState(orchestratorAddress: string): Promise<OrchestratorPeggyState> {
+    const [latestValsets, pendingValsets, pendingBatches, orchestratorEventNonce] =
+      await Promise.all([
+        this.getLatestValsets(),
+        this.getPendingValsets(orchestratorAddress),
+        this.getPendingBatches(orchestratorAddress),
+        this.getLastEventNonce(orchestratorAddress),
+      ])
+
+    return {
+      latestValsetNonce: latestValsets[0]?.nonce ?? 0,
+      pendingValsets,
+      pendingBatches,
+      orchestratorEventNonce,
+    }
+  }
+
+  /**
+   * Last claimed event nonce of each of `orchestrators`
+   */
+  async getOrchestratorEventNonces(orchestrators: OrchestratorMapping[]): Promise<OrchestratorEventNonce[]> {
+    const pending = [...orchestrators]
+    const results: OrchestratorEventNonce[] = []
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        const mapping = pending.shift()!
+        results.push({
+          validatorAddress: mapping.validatorAddress,
+          orchestratorAddress: mapping.orchestratorAddress,
+          eventNonce: await this.getLastEventNonce(mapping.orchestratorAddress),
+        })
       }
-      
+    }
+    await Promise.all(Array.from({ length: PEGGY_FETCH_CONCURRENCY }, worker))
+
+    return results.sort((a, b) => b.eventNonce - a.eventNonce)
+  }
+
+  async getDelegation(delegatorAddress: string, validatorAddress: string): Promise<DelegationInfo | null> {
+    const data = await this.lcd.find(
+      `/cosmos/staking/v1beta1/validators/${validatorAddress}/delegations/${delegatorAddress}`,
+      delegationResponseSchema
+    )
+    if (!data) {
       return null
-    } catch (error) {
-      console.error('Error fetching orchestrator by sender:', error)
+    }
+
+    const { delegation, balance } = data.delegation_response
+    return {
+      delegatorAddress: delegation.delegator_address,
+      validatorAddress: delegation.validator_address,
+      shares: delegation.shares,
+      balance,
+    }
+  }
+
+  async getUnbondingDelegation(delegatorAddress: string, validatorAddress: string): Promise<UnbondingDelegation | null> {
+    const data = await this.lcd.find(
+      `/cosmos/staking/v1beta1/delegators/${delegatorAddress}/unbonding_delegations/${validatorAddress}`,
+      unbondingDelegationResponseSchema
+    )
+    if (!data) {
       return null
     }
+
+    return {
+      delegatorAddress: data.unbond.delegator_address,
+      validatorAddress: data.unbond.validator_address,
+      entries: data.unbond.entries.map((entry) => ({
+        creationHeight: entry.creation_height.toString(),
+        completionTime: entry.completion_time,
+        initialBalance: entry.initial_balance,
+        balance: entry.balance,
+      })),
+    }
   }
 
-  async getDelegation(delegatorAddress: string, validatorAddress: string): Promise<DelegationInfo | null> {
-    try {
-      // Use REST API: GET /cosmos/staking/v1beta1/validators/{validator_addr}/delegations/{delegator_addr}
-      const url = `${this.restEndpoint}/cosmos/staking/v1beta1/validators/${validatorAddress}/delegations/${delegatorAddress}`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null
-        }
-        throw new Error(`Failed to fetch delegation: ${response.status} ${response.statusText}`)
+  /**
+   * All redelegations of a delegator that are still maturing
+   */
+  async getRedelegations(delegatorAddress: string): Promise<Redelegation[]> {
+    const redelegations: Redelegation[] = []
+    let nextKey: string | null | undefined = null
+
+    do {
+      const params = new URLSearchParams({ 'pagination.limit': '200' })
+      if (nextKey) {
+        params.set('pagination.key', nextKey)
       }
-      
-      const data = await response.json()
-      console.log('[DELEGATION] Full API response:', JSON.stringify(data, null, 2))
-      
-      const delegation = data.delegation_response
-      
-      if (!delegation) {
-        console.warn('[DELEGATION] No delegation_response in API response')
-        return null
+      // Older nodes answer NotFound instead of an empty list
+      const data = await this.lcd.find(
+        `/cosmos/staking/v1beta1/delegators/${delegatorAddress}/redelegations?${params}`,
+        redelegationsResponseSchema
+      )
+      if (!data) {
+        break
       }
+      redelegations.push(...data.redelegation_responses.map(({ redelegation, entries }) => ({
+        delegatorAddress: redelegation.delegator_address,
+        sourceValidatorAddress: redelegation.validator_src_address,
+        destinationValidatorAddress: redelegation.validator_dst_address,
+        entries: entries.map(({ redelegation_entry: entry, balance }) => ({
+          creationHeight: entry.creation_height.toString(),
+          completionTime: entry.completion_time,
+          initialBalance: entry.initial_balance,
+          balance,
+        })),
+      })))
+      nextKey = data.pagination?.next_key
+    } while (nextKey)
 
-      // The balance should be in delegation_response.balance
-      // According to Cosmos SDK REST API, the structure is:
-      // {
-      //   "delegation_response": {
-      //     "delegation": { ... },
-      //     "balance": { "denom": "...", "amount": "..." }
-      //   }
-      // }
-      let balance = delegation.balance
-      
-      // Ensure balance has the correct structure
-      if (balance && typeof balance === 'object') {
-        // Make sure we have denom and amount
-        if (!balance.denom) {
-          balance.denom = 'inj'
-        }
-        if (!balance.amount || balance.amount === '0') {
-          // If amount is missing or 0, check if it's in a different format
-          console.warn('[DELEGATION] Balance amount is missing or 0, checking alternative formats')
-        }
-      } else {
-        // Balance might be missing entirely
-        console.warn('[DELEGATION] Balance not found in expected location, using default')
-        balance = { denom: 'inj', amount: '0' }
-      }
+    return redelegations
+  }
 
-      // Log the balance we're using
-      console.log('[DELEGATION] Parsed balance:', balance)
-      console.log('[DELEGATION] Balance amount value:', balance.amount)
-      console.log('[DELEGATION] Balance denom:', balance.denom)
+  /**
+   * Spendable balance of `denom` in base units ('0' when the account holds none)
+   */
+  async getBalance(address: string, denom = 'inj'): Promise<string> {
+    const data = await this.lcd.get(`/cosmos/bank/v1beta1/balances/${address}`, balancesResponseSchema)
+    return data.balances.find((coin) => coin.denom === denom)?.amount ?? '0'
+  }
 
-      return {
-        delegatorAddress: delegation.delegation?.delegator_address || delegatorAddress,
-        validatorAddress: delegation.delegation?.validator_address || validatorAddress,
-        shares: delegation.delegation?.shares || '0',
-        balance: balance || { denom: 'inj', amount: '0' },
-      }
-    } catch (error) {
-      console.error('Error fetching delegation:', error)
+  /**
+   * Rewards not yet withdrawn by anyone (delegators and commission) on a validator.
+   * Distribution amounts are decimal strings in base units, e.g. "1234.560000000000000000".
+   */
+  async getValidatorOutstandingRewards(validatorAddress: string, denom = 'inj'): Promise<string> {
+    const data = await this.lcd.get(
+      `/cosmos/distribution/v1beta1/validators/${validatorAddress}/outstanding_rewards`,
+      validatorOutstandingRewardsResponseSchema
+    )
+    return findDecCoinAmount(data.rewards.rewards, denom)
+  }
+
+  /**
+   * Accumulated commission the operator can withdraw
+   */
+  async getValidatorCommission(validatorAddress: string, denom = 'inj'): Promise<string> {
+    const data = await this.lcd.get(
+      `/cosmos/distribution/v1beta1/validators/${validatorAddress}/commission`,
+      validatorCommissionResponseSchema
+    )
+    return findDecCoinAmount(data.commission.commission, denom)
+  }
+
+  /**
+   * Pending rewards of one delegation ('0' when there are none)
+   */
+  async getDelegatorRewards(delegatorAddress: string, validatorAddress: string, denom = 'inj'): Promise<string> {
+    const data = await this.lcd.find(
+      `/cosmos/distribution/v1beta1/delegators/${delegatorAddress}/rewards/${validatorAddress}`,
+      delegatorRewardsResponseSchema
+    )
+    return data ? findDecCoinAmount(data.rewards, denom) : '0'
+  }
+
+  /**
+   * Governance proposals, newest first. `status` filters by PROPOSAL_STATUS_*.
+   */
+  async getProposals(status?: string, limit = 50): Promise<GovProposal[]> {
+    const params = new URLSearchParams({ 'pagination.limit': String(limit), 'pagination.reverse': 'true' })
+    if (status) {
+      params.set('proposal_status', status)
+    }
+    const data = await this.lcd.get(`/cosmos/gov/v1/proposals?${params}`, govProposalsResponseSchema)
+    return data.proposals.map(normalizeProposal)
+  }
+
+  /**
+   * Current tally of a proposal; during the voting period this reflects votes cast so far
+   */
+  async getProposalTally(proposalId: string): Promise<GovTally> {
+    const data = await this.lcd.get(`/cosmos/gov/v1/proposals/${proposalId}/tally`, govTallyResponseSchema)
+    return normalizeTally(data.tally)
+  }
+
+  /**
+   * A voter's vote on a proposal, or null if they have not voted.
+   * Votes are pruned once a proposal finishes, so past proposals return null as well.
+   */
+  async getVote(proposalId: string, voterAddress: string): Promise<GovVote | null> {
+    const data = await this.lcd.find(
+      `/cosmos/gov/v1/proposals/${proposalId}/votes/${voterAddress}`,
+      govVoteResponseSchema
+    )
+    if (!data) {
       return null
     }
+
+    return {
+      proposalId: data.vote.proposal_id,
+      voter: data.vote.voter,
+      options: data.vote.options.map((option) => ({
+        option: option.option as VoteOption,
+        weight: option.weight,
+      })),
+    }
   }
 
-  async getUnbondingDelegation(delegatorAddress: string, validatorAddress: string): Promise<UnbondingDelegation | null> {
-    try {
-      // Use REST API: GET /cosmos/staking/v1beta1/delegators/{delegatorAddr}/unbonding_delegations/{validatorAddr}
-      const url = `${this.restEndpoint}/cosmos/staking/v1beta1/delegators/${delegatorAddress}/unbonding_delegations/${validatorAddress}`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null
-        }
-        throw new Error(`Failed to fetch unbonding delegation: ${response.status} ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      const unbond = data.unbond
-      
-      if (!unbond) {
-        return null
-      }
+  /**
+   * Authz grants issued by `granter`
+   */
+  async getGrantsByGranter(granterAddress: string): Promise<AuthzGrant[]> {
+    return this.getGrants(`/cosmos/authz/v1beta1/grants/granter/${granterAddress}`)
+  }
 
-      return {
-        delegatorAddress: unbond.delegator_address || delegatorAddress,
-        validatorAddress: unbond.validator_address || validatorAddress,
-        entries: unbond.entries?.map((entry: any) => ({
-          creationHeight: entry.creation_height?.toString() || '0',
-          completionTime: entry.completion_time || '',
-          initialBalance: entry.initial_balance || '0',
-          balance: entry.balance || '0',
-        })) || [],
+  /**
+   * Authz grants held by `grantee`
+   */
+  async getGrantsByGrantee(granteeAddress: string): Promise<AuthzGrant[]> {
+    return this.getGrants(`/cosmos/authz/v1beta1/grants/grantee/${granteeAddress}`)
+  }
+
+  private async getGrants(path: string): Promise<AuthzGrant[]> {
+    const grants: AuthzGrant[] = []
+    let nextKey: string | null | undefined = null
+
+    do {
+      const params = new URLSearchParams({ 'pagination.limit': '200' })
+      if (nextKey) {
+        params.set('pagination.key', nextKey)
       }
-    } catch (error) {
-      console.error('Error fetching unbonding delegation:', error)
+      const data = await this.lcd.get(`${path}?${params}`, authzGrantsResponseSchema)
+      grants.push(...data.grants.map((grant) => ({
+        granter: grant.granter,
+        grantee: grant.grantee,
+        authorizationType: grant.authorization['@type'],
+        msgTypeUrl: grant.authorization.msg ?? getStakeAuthorization(grant.authorization.authorization_type)?.msgTypeUrl,
+        expiration: grant.expiration ?? undefined,
+      })))
+      nextKey = data.pagination?.next_key
+    } while (nextKey)
+
+    return grants
+  }
+
+  /**
+   * Note: This requires the consensus address (valcons), not the operator address.
+   * Use toConsensusAddress (utils/pubkey.ts) to derive it from the consensus pubkey.
+   */
+  async getSlashingSigningInfo(validatorConsensusAddress: string): Promise<SlashingSigningInfo | null> {
+    const data = await this.lcd.find(
+      `/cosmos/slashing/v1beta1/signing_infos/${validatorConsensusAddress}`,
+      signingInfoResponseSchema
+    )
+    if (!data) {
       return null
     }
+
+    const signingInfo = data.val_signing_info
+    return {
+      consensusAddress: signingInfo.address || validatorConsensusAddress,
+      missedBlocksCounter: signingInfo.missed_blocks_counter || '0',
+      tombstoned: signingInfo.tombstoned === true,
+      jailedUntil: signingInfo.jailed_until,
+    }
   }
 
-  async getAllValidators(): Promise<ValidatorInfo[]> {
-    try {
-      // Use REST API: GET /cosmos/staking/v1beta1/validators
-      const url = `${this.restEndpoint}/cosmos/staking/v1beta1/validators`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch validators: ${response.status} ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      const validators = data.validators || []
-      
-      return validators.map((validator: any) => {
-        // Extract consensus pubkey from Any type
-        let consensusPubkey = ''
-        if (validator.consensus_pubkey) {
-          if (validator.consensus_pubkey.value) {
-            consensusPubkey = validator.consensus_pubkey.value
-          }
-        }
-        
-        return {
-          operatorAddress: validator.operator_address || '',
-          consensusPubkey,
-          moniker: validator.description?.moniker || '',
-          identity: validator.description?.identity,
-          website: validator.description?.website,
-          securityContact: validator.description?.security_contact,
-          details: validator.description?.details,
-          commission: {
-            rate: validator.commission?.commission_rates?.rate || '0',
-            maxRate: validator.commission?.commission_rates?.max_rate || '0',
-            maxChangeRate: validator.commission?.commission_rates?.max_change_rate || '0',
-          },
-          minSelfDelegation: validator.min_self_delegation || '0',
-          status: validator.status || 'BOND_STATUS_UNBONDED',
-          tokens: validator.tokens || '0',
-          delegatorShares: validator.delegator_shares || '0',
-        }
-      })
-    } catch (error) {
-      console.error('Error fetching validators:', error)
-      return []
+  async getSlashingParams(): Promise<SlashingParams> {
+    const { params } = await this.lcd.get('/cosmos/slashing/v1beta1/params', slashingParamsResponseSchema)
+    return {
+      signedBlocksWindow: params.signed_blocks_window,
+      minSignedPerWindow: params.min_signed_per_window,
+      downtimeJailDuration: params.downtime_jail_duration,
+      slashFractionDoubleSign: params.slash_fraction_double_sign,
+      slashFractionDowntime: params.slash_fraction_downtime,
     }
   }
 
-  async getSlashingSigningInfo(validatorConsensusAddress: string): Promise<{
-    missedBlocksCounter: string
-    tombstoned: boolean
-    jailedUntil?: string
-  } | null> {
-    try {
-      // Use REST API: GET /cosmos/slashing/v1beta1/signing_infos/{consAddress}
-      // Note: This requires the consensus address (valcons), not the operator address
-      const url = `${this.restEndpoint}/cosmos/slashing/v1beta1/signing_infos/${validatorConsensusAddress}`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null
-        }
-        throw new Error(`Failed to fetch signing info: ${response.status} ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      const signingInfo = data.val_signing_info
-      
-      if (!signingInfo) {
-        return null
-      }
-      
-      return {
-        missedBlocksCounter: signingInfo.missed_blocks_counter || '0',
-        tombstoned: signingInfo.tombstoned === true,
-        jailedUntil: signingInfo.jailed_until,
-      }
-    } catch (error) {
-      console.error('Error fetching slashing signing info:', error)
-      return null
+  async getBlockHeader(height: number | 'latest' = 'latest'): Promise<BlockHeaderInfo> {
+    const path = `/cosmos/base/tendermint/v1beta1/blocks/${height}`
+    const data = await this.lcd.get(path, blockResponseSchema)
+    const header = (data.sdk_block ?? data.block)?.header
+    if (!header) {
+      throw new LcdSchemaError(path, 'block header missing')
+    }
+    return {
+      height: parseInt(header.height, 10),
+      time: header.time,
+      proposerAddress: header.proposer_address,
     }
   }
 
+  /**
+   * Proposer and commit signers of a block, as consensus addresses in uppercase hex
+   */
+  async getBlockSignatures(height: number): Promise<BlockSignatures> {
+    const path = `/cosmos/base/tendermint/v1beta1/blocks/${height}`
+    const data = await this.lcd.get(path, blockResponseSchema)
+    const block = data.block ?? data.sdk_block
+    if (!block) {
+      throw new LcdSchemaError(path, 'block missing')
+    }
 
-  async getSlashingParams(): Promise<{
-    signedBlocksWindow: string
-    minSignedPerWindow: string
-    downtimeJailDuration: string
-    slashFractionDoubleSign: string
-    slashFractionDowntime: string
-  } | null> {
-    try {
-      // Use REST API: GET /cosmos/slashing/v1beta1/params
-      const url = `${this.restEndpoint}/cosmos/slashing/v1beta1/params`
-      const response = await fetch(url)
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch slashing params: ${response.status} ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      const params = data.params
-      
-      if (!params) {
-        return null
-      }
-      
-      return {
-        signedBlocksWindow: params.signed_blocks_window || '0',
-        minSignedPerWindow: params.min_signed_per_window || '0',
-        downtimeJailDuration: params.downtime_jail_duration || '',
-        slashFractionDoubleSign: params.slash_fraction_double_sign || '0',
-        slashFractionDowntime: params.slash_fraction_downtime || '0',
-      }
-    } catch (error) {
-      console.error('Error fetching slashing params:', error)
-      return null
+    const signersHex = (block.last_commit?.signatures ?? [])
+      .filter((signature) => signature.block_id_flag === COMMIT_FLAG && signature.validator_address)
+      .map((signature) => base64ToHex(signature.validator_address!))
+
+    return {
+      height: parseInt(block.header.height, 10),
+      time: block.header.time,
+      proposerHex: consensusAddressToHex(block.header.proposer_address ?? ''),
+      signersHex,
+    }
+  }
+
+  /**
+   * Average block time in milliseconds over the last `sampleSize` blocks
+   */
+  async getAverageBlockTime(sampleSize = 100): Promise<number> {
+    const latest = await this.getBlockHeader()
+    const earlier = await this.getBlockHeader(Math.max(1, latest.height - sampleSize))
+    const blocks = latest.height - earlier.height
+    if (blocks <= 0) {
+      throw new Error('Not enough blocks to measure block time')
     }
+    return (Date.parse(latest.time) - Date.parse(earlier.time)) / blocks
   }
 }
@@ -0,0 +1,225 @@
+import { Network } from '../types'
+
+/**
+ * Central cache for chain queries.
+ *
+ * - Requests for the same key are deduplicated while one is in flight.
+ * - Cached data is served immediately and revalidated in the background once stale.
+ * - `invalidateQueries` marks entries stale and refetches the ones currently on screen,
+ *   which is how transactions make the UI pick up their effects.
+ *
+ * React components read the store through `useQuery` (hooks/useQuery.ts).
+ */
+
+export type QueryKey = readonly string[]
+
+export interface QueryState<T> {
+  data: T | undefined
+  error: unknown
+  updatedAt: number // 0 until the first successful fetch
+  isFetching: boolean
+}
+
+interface QueryEntry {
+  state: QueryState<unknown>
+  promise: Promise<unknown> | null
+  fetcher: (() => Promise<unknown>) | null
+  listeners: Set<() => void>
+  invalidated: boolean
+  // Bumped by invalidate, so results of requests started before it are discarded
+  generation: number
+}
+
+export const DEFAULT_STALE_TIME_MS = 15_000
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+}
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key)
+}
+
+class QueryStore {
+  private entries = new Map<string, QueryEntry>()
+
+  private getEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key)
+    let entry = this.entries.get(hash)
+    if (!entry) {
+      entry = { state: EMPTY_STATE, promise: null, fetcher: null, listeners: new Set(), invalidated: false, generation: 0 }
+      this.entries.set(hash, entry)
+    }
+    return entry
+  }
+
+  private setState(entry: QueryEntry, patch: Partial<QueryState<unknown>>) {
+    // A new object on every change so useSyncExternalStore sees the update
+    entry.state = { ...entry.state, ...patch }
+    entry.listeners.forEach((listener) => listener())
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key)
+    entry.listeners.add(listener)
+    return () => {
+      entry.listeners.delete(listener)
+    }
+  }
+
+  isStale(key: QueryKey, staleTimeMs = DEFAULT_STALE_TIME_MS): boolean {
+    const entry = this.entries.get(hashQueryKey(key))
+    if (!entry || entry.state.updatedAt === 0 || entry.invalidated) {
+      return true
+    }
+    return Date.now() - entry.state.updatedAt > staleTimeMs
+  }
+
+  /**
+   * Fetches the key now, or joins the request already in flight
+   */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+    const entry = this.getEntry(key)
+    entry.fetcher = fetcher
+    if (entry.promise) {
+      return entry.promise as Promise<T>
+    }
+
+    const generation = entry.generation
+    this.setState(entry, { isFetching: true })
+    const promise: Promise<T> = fetcher()
+      .then((data) => {
+        // Started before an invalidation: the data may predate a transaction, a newer request replaces it
+        if (entry.generation === generation) {
+          entry.invalidated = false
+          this.setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false })
+        }
+        return data
+      })
+      .catch((error) => {
+        // Keep the last good data; the error is shown alongside it
+        if (entry.generation === generation) {
+          this.setState(entry, { error, isFetching: false })
+        }
+        throw error
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = null
+        }
+      })
+
+    entry.promise = promise
+    return promise
+  }
+
+  /**
+   * Fetches in the background when the cached data is missing or stale.
+   * Errors end up in the query state instead of being thrown.
+   */
+  ensure<T>(key: QueryKey, fetcher: () => Promise<T>, staleTimeMs = DEFAULT_STALE_TIME_MS): void {
+    this.getEntry(key).fetcher = fetcher
+    if (this.isStale(key, staleTimeMs)) {
+      this.fetch(key, fetcher).catch(() => undefined)
+    }
+  }
+
+  /**
+   * Marks matching entries stale and refetches those with active subscribers
+   */
+  invalidate(predicate: (key: QueryKey) => boolean) {
+    this.entries.forEach((entry, hash) => {
+      const key = JSON.parse(hash) as QueryKey
+      if (!predicate(key)) {
+        return
+      }
+      entry.invalidated = true
+      // A request already in flight may have been answered before the transaction
+      entry.generation += 1
+      entry.promise = null
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(key, entry.fetcher).catch(() => undefined)
+      }
+    })
+  }
+}
+
+export const queryStore = new QueryStore()
+
+export type QueryKind =
+  | 'validator'
+  | 'balance'
+  | 'delegation'
+  | 'unbonding'
+  | 'redelegations'
+  | 'orchestrator'
+  | 'orchestratorPeggyState'
+  | 'orchestratorEventNonces'
+  | 'peggyModuleState'
+  | 'signingInfo'
+  | 'slashingParams'
+  | 'blockTime'
+  | 'validators'
+  | 'latestBlock'
+  | 'outstandingRewards'
+  | 'commission'
+  | 'delegatorRewards'
+  | 'proposals'
+  | 'proposalTally'
+  | 'vote'
+  | 'unvotedProposals'
+  | 'grantsByGranter'
+  | 'grantsByGrantee'
+
+/**
+ * Keys are [kind, network, ...addresses]
+ */
+export const queryKeys = {
+  validator: (network: Network, validatorAddress: string): QueryKey => ['validator', network, validatorAddress],
+  balance: (network: Network, address: string): QueryKey => ['balance', network, address],
+  delegation: (network: Network, delegatorAddress: string, validatorAddress: string): QueryKey =>
+    ['delegation', network, delegatorAddress, validatorAddress],
+  unbonding: (network: Network, delegatorAddress: string, validatorAddress: string): QueryKey =>
+    ['unbonding', network, delegatorAddress, validatorAddress],
+  redelegations: (network: Network, delegatorAddress: string): QueryKey => ['redelegations', network, delegatorAddress],
+  orchestrator: (network: Network, validatorAddress: string): QueryKey => ['orchestrator', network, validatorAddress],
+  orchestratorPeggyState: (network: Network, orchestratorAddress: string): QueryKey =>
+    ['orchestratorPeggyState', network, orchestratorAddress],
+  orchestratorEventNonces: (network: Network): QueryKey => ['orchestratorEventNonces', network],
+  peggyModuleState: (network: Network): QueryKey => ['peggyModuleState', network],
+  signingInfo: (network: Network, consensusPubkey: string): QueryKey => ['signingInfo', network, consensusPubkey],
+  slashingParams: (network: Network): QueryKey => ['slashingParams', network],
+  blockTime: (network: Network): QueryKey => ['blockTime', network],
+  validators: (network: Network): QueryKey => ['validators', network],
+  latestBlock: (network: Network): QueryKey => ['latestBlock', network],
+  outstandingRewards: (network: Network, validatorAddress: string): QueryKey =>
+    ['outstandingRewards', network, validatorAddress],
+  commission: (network: Network, validatorAddress: string): QueryKey => ['commission', network, validatorAddress],
+  delegatorRewards: (network: Network, delegatorAddress: string, validatorAddress: string): QueryKey =>
+    ['delegatorRewards', network, delegatorAddress, validatorAddress],
+  proposals: (network: Network, status: string): QueryKey => ['proposals', network, status],
+  proposalTally: (network: Network, proposalId: string): QueryKey => ['proposalTally', network, proposalId],
+  vote: (network: Network, proposalId: string, voterAddress: string): QueryKey =>
+    ['vote', network, proposalId, voterAddress],
+  unvotedProposals: (network: Network, voterAddress: string): QueryKey => ['unvotedProposals', network, voterAddress],
+  grantsByGranter: (network: Network, granterAddress: string): QueryKey => ['grantsByGranter', network, granterAddress],
+  grantsByGrantee: (network: Network, granteeAddress: string): QueryKey => ['grantsByGrantee', network, granteeAddress],
+}
+
+/**
+ * Invalidates queries of `kind` that involve all of `addresses`, on every network.
+ * Without addresses, every query of that kind is invalidated.
+ */
+export function invalidateQueries(kind: QueryKind, ...addresses: string[]) {
+  queryStore.invalidate((key) => {
+    const [keyKind, , ...keyAddresses] = key
+    return keyKind === kind && addresses.every((address) => keyAddresses.includes(address))
+  })
+}
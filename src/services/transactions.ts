@@ -3,105 +3,53 @@ import {
   OrchestratorRegistrationFormData,
   ValidatorEditFormData,
   DelegationFormData,
+  RedelegationFormData,
+  AuthzGrantFormData,
+  SendFormData,
+  splitAddressList,
 } from '../utils/validation'
-import type { StdFee } from '@interchainjs/types'
 import type { EncodeObject } from '@cosmjs/proto-signing'
-import { toValidatorOperatorAddress } from '../utils/address'
-
-// Use 'commit' mode to wait for transaction confirmation
-const broadcastOptions = { mode: 'commit' as const }
-const rpcErrorIndicators = ['RPC Error', 'Internal error']
-const GAS_MULTIPLIER = 1.5 // Multiply estimated gas by 1.5 for safety margin
-
-function isRpcErrorMessage(message: string) {
-  return rpcErrorIndicators.some((indicator) => message.includes(indicator))
-}
-
-function extractRpcErrorDetails(error: any, fallbackMessage: string, rawMessage: string) {
-  let detailedError = fallbackMessage
-  let code = error?.code
-  const responseData = error?.response?.data
-
-  if (responseData) {
-    try {
-      const parsed = typeof responseData === 'string' ? JSON.parse(responseData) : responseData
-      detailedError = parsed?.message || parsed?.error || detailedError
-      if (parsed?.code && !code) {
-        code = parsed.code
-      }
-    } catch {
-      // Keep fallback message when response data isn't JSON
-    }
-  }
-
-  if (error?.data?.message) {
-    detailedError = error.data.message
-  }
-
-  if (error?.cause?.message) {
-    detailedError = error.cause.message
-  }
-
-  // Check for transaction hash in multiple places
-  const txHash =
-    rawMessage.match(/0x[a-fA-F0-9]{64}/)?.[0] ||
-    rawMessage.match(/[a-fA-F0-9]{64}/)?.[0] || // Also check for hex without 0x prefix
-    error?.txHash ||
-    error?.transactionHash ||
-    error?.data?.txHash ||
-    error?.response?.data?.txHash ||
-    error?.response?.data?.tx_response?.txhash ||
-    error?.response?.data?.txhash ||
-    error?.cause?.txHash ||
-    error?.cause?.transactionHash
+import { PubKey as Ed25519PubKey } from '@interchainjs/cosmos-types/cosmos/crypto/ed25519/keys'
+import { Any } from '@interchainjs/cosmos-types/google/protobuf/any'
+import { isSameAccount, toAccountAddress, toChecksumAddress, toValidatorOperatorAddress } from '../utils/address'
+import { parseTokenAmount } from '../utils/format'
+import { isCustomNetwork } from '../config/chains'
+import { Network, WeightedVoteOption } from '../types'
+import { invalidateQueries } from './query-store'
+import { isUnsignedTxExport, SignedTxImport, UnsignedTxExport } from './offline-tx'
+import { broadcastSignedTransaction, runTransaction, TxOptions, TxResult, TxSigner } from './tx-pipeline'
 
-  return {
-    detailedError,
-    code,
-    txHash,
+/**
+ * Refreshes cached chain data affected by a successful transaction:
+ * the signer's balance (fees) and, if given, the validator and the signer's delegation to it.
+ */
+function invalidateAfterTx(accountAddress: string, validatorAddress?: string) {
+  invalidateQueries('balance', accountAddress)
+  if (validatorAddress) {
+    invalidateQueries('validator', validatorAddress)
+    invalidateQueries('delegation', accountAddress, validatorAddress)
+    invalidateQueries('unbonding', accountAddress, validatorAddress)
+    // Changing a delegation also withdraws its pending rewards
+    invalidateQueries('delegatorRewards', accountAddress, validatorAddress)
+    invalidateQueries('outstandingRewards', validatorAddress)
   }
 }
 
-function logRpcError(error: any) {
-  console.error('RPC Error details:', {
-    message: error?.message,
-    code: error?.code,
-    data: error?.data,
-    response: error?.response,
-    stack: error?.stack,
-    cause: error?.cause,
-    txHash: error?.txHash,
-    transactionHash: error?.transactionHash,
-  })
-}
-
-function buildRpcErrorMessage(error: any, errorMsg: string) {
-  const { detailedError, code, txHash } = extractRpcErrorDetails(error, errorMsg, errorMsg)
-
-  if (txHash) {
-    return (
-      `Transaction signed and broadcast, but RPC returned an error. ` +
-      `Transaction hash: ${txHash}. ` +
-      `Please check your wallet or explorer to confirm the transaction status. ` +
-      `Error: ${detailedError}`
-    )
+/**
+ * Runs `messages` through the pipeline and calls `invalidate` once they are broadcast.
+ * Transactions exported for offline signing have not changed anything on chain yet.
+ */
+async function runAndInvalidate(
+  signer: TxSigner,
+  messages: EncodeObject[],
+  options: TxOptions,
+  invalidate: () => void
+): Promise<TxResult | UnsignedTxExport> {
+  const result = await runTransaction(signer, messages, options)
+  if (!isUnsignedTxExport(result)) {
+    invalidate()
   }
-
-  return (
-    `RPC endpoint error during broadcast. ` +
-    `The transaction may have been signed successfully. ` +
-    `Please check your wallet transaction history or try again. ` +
-    `Error: ${detailedError} ` +
-    `(Code: ${code || 'unknown'})`
-  )
-}
-
-function safeJsonStringify(value: unknown) {
-  return JSON.stringify(
-    value,
-    (_key, val) => (typeof val === 'bigint' ? val.toString() : val),
-    2
-  )
+  return result
 }
 
 function formatScaledDecimal(value: bigint, scale: number): string {
@@ -149,71 +97,28 @@ function percentStringToDecimal(value: string): string {
 }
 
 /**
- * Estimates gas for a transaction by simulating it
- * Returns the estimated gas multiplied by GAS_MULTIPLIER for safety
+ * Generates a Mintscan link for a transaction hash
+ * Returns an empty string for custom networks, which Mintscan does not index
  */
-async function estimateGas(
-  signer: any, // DirectSigner
-  messages: any[]
-): Promise<string> {
-  try {
-    // Get account info for simulation
-    const account = await signer.getAccount()
-    
-    // Build the transaction body for simulation
-    // We need to create a temporary transaction body without actually signing
-    const txBody = await signer.buildTxBody({
-      messages,
-      memo: '',
-    })
-    
-    // Create signer info for simulation (without actual signature)
-    const signerInfo = {
-      publicKey: account.pubkey,
-      modeInfo: { single: { mode: 1 } }, // SIGN_MODE_DIRECT = 1
-      sequence: account.sequence,
-    }
-    
-    // Simulate the transaction
-    const simulation = await signer.simulateByTxBody(txBody, [signerInfo])
-    
-    if (!simulation.gasInfo || !simulation.gasInfo.gasUsed) {
-      throw new Error('Gas estimation failed: No gas info returned')
-    }
-    
-    const estimatedGas = BigInt(simulation.gasInfo.gasUsed)
-    const gasWithMultiplier = (estimatedGas * BigInt(Math.floor(GAS_MULTIPLIER * 100))) / BigInt(100)
-    
-    console.log('[GAS ESTIMATION]', {
-      estimated: estimatedGas.toString(),
-      withMultiplier: gasWithMultiplier.toString(),
-      multiplier: GAS_MULTIPLIER,
-    })
-    
-    return gasWithMultiplier.toString()
-  } catch (error: any) {
-    console.warn('[GAS ESTIMATION] Failed to estimate gas, using fallback:', error?.message)
-    // Fallback to a higher default gas limit if estimation fails
-    return '500000' // Higher default to avoid out-of-gas errors
+export function getMintscanLink(txHash: string, network: Network = 'mainnet'): string {
+  if (isCustomNetwork(network)) {
+    return ''
   }
-}
 
-/**
- * Generates a Mintscan link for a transaction hash
- */
-export function getMintscanLink(txHash: string, network: 'mainnet' | 'testnet' = 'mainnet'): string {
   const baseUrl = network === 'mainnet' 
     ? 'https://www.mintscan.io/injective'
     : 'https://testnet.mintscan.io/injective-testnet'
   return `${baseUrl}/tx/${txHash}`
 }
 
-// Helper functions to create messages and fees for Cosmos Kit's signAndBroadcast
+
+// Message builders. They convert form input into messages; the messages are validated
+// against their registered schema (services/tx-messages.ts) when they are sent.
+
 export function createValidatorMessage(
   address: string,
-  data: ValidatorRegistrationFormData,
-  _chainId: string
-): { msg: EncodeObject; fee: StdFee } {
+  data: ValidatorRegistrationFormData
+): EncodeObject {
   // Convert consensus pubkey to proper format
   // Injective uses ed25519 for consensus keys
   let pubkeyBytes: Uint8Array
@@ -226,39 +131,17 @@ export function createValidatorMessage(
     throw new Error('Failed to decode consensus pubkey. Please ensure it is valid base64-encoded ed25519 key.')
   }
 
-  const consensusPubkey = {
+  // Pack ed25519 consensus pubkey into Any
+  const consensusPubkey = Any.fromPartial({
     typeUrl: '/cosmos.crypto.ed25519.PubKey',
-    value: pubkeyBytes,
-  }
-
-  // Validate amounts
-  const selfDelegationAmount = parseFloat(data.selfDelegation)
-  const minSelfDelegationAmount = parseFloat(data.minSelfDelegation)
-  
-  if (isNaN(selfDelegationAmount) || selfDelegationAmount <= 0) {
-    throw new Error('Self delegation amount must be a positive number')
-  }
-  
-  if (isNaN(minSelfDelegationAmount) || minSelfDelegationAmount <= 0) {
-    throw new Error('Min self delegation must be a positive number')
-  }
-  
-  if (selfDelegationAmount < minSelfDelegationAmount) {
-    throw new Error('Self delegation amount must be at least the minimum self delegation')
-  }
+    value: Ed25519PubKey.encode(Ed25519PubKey.fromPartial({ key: pubkeyBytes })).finish(),
+  })
 
   // Convert INJ amounts to base units (1 INJ = 10^18 base units)
-  const selfDelegationBase = Math.floor(selfDelegationAmount * 1e18).toString()
-  const minSelfDelegationBase = Math.floor(minSelfDelegationAmount * 1e18).toString()
-
-  // Convert commission rates from percentage to decimal (0-100% -> 0-1)
-  const commissionRate = (parseFloat(data.commissionRate) / 100).toFixed(18)
-  const maxCommissionRate = (parseFloat(data.maxCommissionRate) / 100).toFixed(18)
-  const maxCommissionChangeRate = (parseFloat(data.maxCommissionChangeRate) / 100).toFixed(18)
-
-  const validatorAddress = toValidatorOperatorAddress(address)
+  const selfDelegationBase = parseTokenAmount(data.selfDelegation)
+  const minSelfDelegationBase = parseTokenAmount(data.minSelfDelegation)
 
-  const msg: EncodeObject = {
+  return {
     typeUrl: '/cosmos.staking.v1beta1.MsgCreateValidator',
     value: {
       description: {
@@ -268,14 +151,15 @@ export function createValidatorMessage(
         securityContact: data.securityContact || '',
         details: data.details || '',
       },
+      // Convert commission rates from percentage to decimal (0-100% -> 0-1)
       commission: {
-        rate: commissionRate,
-        maxRate: maxCommissionRate,
-        maxChangeRate: maxCommissionChangeRate,
+        rate: percentStringToDecimal(data.commissionRate),
+        maxRate: percentStringToDecimal(data.maxCommissionRate),
+        maxChangeRate: percentStringToDecimal(data.maxCommissionChangeRate),
       },
       minSelfDelegation: minSelfDelegationBase,
       delegatorAddress: address,
-      validatorAddress,
+      validatorAddress: toValidatorOperatorAddress(address),
       pubkey: consensusPubkey,
       value: {
         denom: 'inj',
@@ -283,990 +167,543 @@ export function createValidatorMessage(
       },
     },
   }
-
-  const fee: StdFee = {
-    amount: [{ denom: 'inj', amount: '500000000000000000' }], // 0.5 INJ
-    gas: '200000',
-  }
-
-  return { msg, fee }
 }
 
+/**
+ * Builds MsgSetOrchestratorAddresses from the peggy module, sent by the operator account
+ */
 export function createOrchestratorMessage(
   address: string,
-  data: OrchestratorRegistrationFormData,
-  _chainId: string
-): { msg: EncodeObject; fee: StdFee } {
-  // Validate that the signer is the validator operator
-  if (!address.toLowerCase().includes(data.validatorAddress.toLowerCase().substring(0, 10))) {
-    throw new Error('The connected wallet must be the validator operator address')
+  data: OrchestratorRegistrationFormData
+): EncodeObject {
+  // The operator account and the valoper address must be the same key bytes
+  if (!isSameAccount(address, data.validatorAddress)) {
+    throw new Error('The connected wallet must be the validator operator account')
   }
 
-  const msg: EncodeObject = {
+  return {
     typeUrl: '/injective.peggy.v1.MsgSetOrchestratorAddresses',
     value: {
       sender: address,
       orchestrator: data.orchestratorAddress,
-      ethAddress: data.ethereumAddress,
+      ethAddress: toChecksumAddress(data.ethereumAddress),
     },
   }
+}
 
-  const fee: StdFee = {
-    amount: [{ denom: 'inj', amount: '500000000000000000' }], // 0.5 INJ
-    gas: '200000',
+/**
+ * Builds MsgEditValidator, leaving out the commission rate unless it changes
+ */
+export function createEditValidatorMessage(
+  validatorAddress: string,
+  data: ValidatorEditFormData,
+  currentCommissionRate?: string
+): EncodeObject {
+  // Convert commission rate if provided (percentage to decimal)
+  let commissionRate = data.commissionRate !== undefined
+    ? percentStringToDecimal(data.commissionRate)
+    : undefined
+
+  // Only include commissionRate if it's changed
+  if (commissionRate !== undefined && currentCommissionRate
+    && normalizeDecimalString(currentCommissionRate, 18) === commissionRate) {
+    commissionRate = undefined
   }
 
-  return { msg, fee }
+  return {
+    typeUrl: '/cosmos.staking.v1beta1.MsgEditValidator',
+    value: {
+      description: {
+        moniker: data.moniker,
+        identity: data.identity || '',
+        website: data.website || '',
+        securityContact: data.securityContact || '',
+        details: data.details || '',
+      },
+      validatorAddress,
+      ...(commissionRate !== undefined && { commissionRate }),
+    },
+  }
 }
 
-// Keep the old async functions for backward compatibility, but they now use DirectSigner
-// These are kept in case we need to fall back to DirectSigner for Injective-specific handling
-import { DirectSigner } from '@interchainjs/cosmos'
-import { PubKey as Ed25519PubKey } from '@interchainjs/cosmos-types/cosmos/crypto/ed25519/keys'
-import { Any } from '@interchainjs/cosmos-types/google/protobuf/any'
+/**
+ * Builds the vote message for `voterAddress`: MsgVote for a single option,
+ * MsgVoteWeighted for several (weights are decimals adding up to 1)
+ */
+export function createVoteMessage(
+  voterAddress: string,
+  proposalId: string,
+  options: WeightedVoteOption[]
+): EncodeObject {
+  if (options.length === 0) {
+    throw new Error('Select at least one vote option')
+  }
+
+  if (options.some((option) => !/^\d+(\.\d+)?$/.test(option.weight))) {
+    throw new Error('Vote weights must be decimal numbers')
+  }
+  const weights = options.map((option) => decimalStringToScaled(option.weight, 18))
+  if (weights.some((weight) => weight <= 0n) || weights.reduce((sum, weight) => sum + weight, 0n) !== 10n ** 18n) {
+    throw new Error('Vote weights must be positive and add up to 100%')
+  }
+
+  return options.length === 1
+    ? {
+        typeUrl: '/cosmos.gov.v1.MsgVote',
+        value: {
+          proposalId,
+          voter: voterAddress,
+          option: options[0].option,
+          metadata: '',
+        },
+      }
+    : {
+        typeUrl: '/cosmos.gov.v1.MsgVoteWeighted',
+        value: {
+          proposalId,
+          voter: voterAddress,
+          options: options.map((option, index) => ({
+            option: option.option,
+            weight: formatScaledDecimal(weights[index], 18),
+          })),
+          metadata: '',
+        },
+      }
+}
 
 export async function createValidatorTransaction(
-  signer: DirectSigner,
+  signer: TxSigner,
   address: string,
   data: ValidatorRegistrationFormData,
-  _chainId: string
+  _chainId: string,
+  options: TxOptions = {}
 ) {
-  try {
-    // Convert consensus pubkey to proper format
-    // Injective uses ed25519 for consensus keys
-    let pubkeyBytes: Uint8Array
-    try {
-      pubkeyBytes = Uint8Array.from(atob(data.consensusPubkey), c => c.charCodeAt(0))
-      if (pubkeyBytes.length !== 32) {
-        throw new Error('Invalid ed25519 pubkey length. Expected 32 bytes.')
-      }
-    } catch (error) {
-      throw new Error('Failed to decode consensus pubkey. Please ensure it is valid base64-encoded ed25519 key.')
-    }
-
-    // Pack ed25519 consensus pubkey into Any (following the example pattern)
-    const pubkeyMessage = Ed25519PubKey.fromPartial({ key: pubkeyBytes })
-    const encodedPubkey = Ed25519PubKey.encode(pubkeyMessage).finish()
-    
-    console.log('[PUBKEY ENCODING] Step 1 - Ed25519PubKey encoded:', {
-      inputBytes: pubkeyBytes.length,
-      encodedLength: encodedPubkey.length,
-      encodedBase64: btoa(String.fromCharCode(...encodedPubkey)),
-    })
-    
-    // Wrap in Any type for MsgCreateValidator (using fromPartial like the example)
-    const consensusPubkey = Any.fromPartial({
-      typeUrl: '/cosmos.crypto.ed25519.PubKey',
-      value: encodedPubkey,
-    })
-    
-    console.log('[PUBKEY ENCODING] Step 2 - Any wrapper created:', {
-      typeUrl: consensusPubkey.typeUrl,
-      valueType: consensusPubkey.value instanceof Uint8Array ? 'Uint8Array' : typeof consensusPubkey.value,
-      valueLength: consensusPubkey.value instanceof Uint8Array ? consensusPubkey.value.length : 'N/A',
-      valueBase64: consensusPubkey.value instanceof Uint8Array 
-        ? btoa(String.fromCharCode(...consensusPubkey.value))
-        : 'N/A',
-    })
-
-    // Validate amounts
-    const selfDelegationAmount = parseFloat(data.selfDelegation)
-    const minSelfDelegationAmount = parseFloat(data.minSelfDelegation)
-    
-    if (isNaN(selfDelegationAmount) || selfDelegationAmount <= 0) {
-      throw new Error('Self delegation amount must be a positive number')
-    }
-    
-    if (isNaN(minSelfDelegationAmount) || minSelfDelegationAmount <= 0) {
-      throw new Error('Min self delegation must be a positive number')
-    }
-    
-    if (selfDelegationAmount < minSelfDelegationAmount) {
-      throw new Error('Self delegation amount must be at least the minimum self delegation')
-    }
-
-    // Convert INJ amounts to base units (1 INJ = 10^18 base units)
-    const selfDelegationBase = Math.floor(selfDelegationAmount * 1e18).toString()
-    const minSelfDelegationBase = Math.floor(minSelfDelegationAmount * 1e18).toString()
+  return runAndInvalidate(signer, [createValidatorMessage(address, data)], options, () => {
+    invalidateAfterTx(address, toValidatorOperatorAddress(address))
+  })
+}
 
-    // Convert commission rates from percentage to decimal (0-100% -> 0-1)
-    const commissionRate = percentStringToDecimal(data.commissionRate)
-    const maxCommissionRate = percentStringToDecimal(data.maxCommissionRate)
-    const maxCommissionChangeRate = percentStringToDecimal(data.maxCommissionChangeRate)
+export async function registerOrchestratorTransaction(
+  signer: TxSigner,
+  address: string,
+  data: OrchestratorRegistrationFormData,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  return runAndInvalidate(signer, [createOrchestratorMessage(address, data)], options, () => {
+    invalidateAfterTx(address)
+    invalidateQueries('orchestrator', toValidatorOperatorAddress(address))
+  })
+}
 
-    // Build MsgCreateValidator
-    // The DirectSigner will encode this using the registered encoders
-    const validatorAddress = toValidatorOperatorAddress(address)
+export async function editValidatorTransaction(
+  signer: TxSigner,
+  _address: string,
+  data: ValidatorEditFormData,
+  validatorAddress: string,
+  _chainId: string,
+  currentCommissionRate?: string,
+  options: TxOptions = {}
+) {
+  const msg = createEditValidatorMessage(validatorAddress, data, currentCommissionRate)
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(toAccountAddress(validatorAddress), validatorAddress)
+  })
+}
 
-    const msg = {
-      typeUrl: '/cosmos.staking.v1beta1.MsgCreateValidator',
-      value: {
-        description: {
-          moniker: data.moniker,
-          identity: data.identity || '',
-          website: data.website || '',
-          securityContact: data.securityContact || '',
-          details: data.details || '',
-        },
-        commission: {
-          rate: commissionRate,
-          maxRate: maxCommissionRate,
-          maxChangeRate: maxCommissionChangeRate,
-        },
-        minSelfDelegation: minSelfDelegationBase,
-        delegatorAddress: address,
-        validatorAddress,
-        pubkey: consensusPubkey,
-        value: {
-          denom: 'inj',
-          amount: selfDelegationBase,
-        },
+export async function delegateTransaction(
+  signer: TxSigner,
+  address: string,
+  data: DelegationFormData,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
+    value: {
+      delegatorAddress: address,
+      validatorAddress: data.validatorAddress,
+      amount: {
+        denom: 'inj',
+        // Convert INJ amount to base units (1 INJ = 10^18 base units)
+        amount: parseTokenAmount(data.amount),
       },
-    }
+    },
+  }
 
-    // Estimate gas first
-    const estimatedGas = await estimateGas(signer, [msg])
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }], // 0.5 INJ
-      gas: estimatedGas,
-    }
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(address, data.validatorAddress)
+  })
+}
 
-    // Log the message structure before encoding
-    console.log('[BEFORE ENCODING] Message structure:', {
-      typeUrl: msg.typeUrl,
-      value: JSON.parse(JSON.stringify(msg.value, (key, value) => {
-        // Convert Uint8Array and Any types for better logging
-        if (value instanceof Uint8Array) {
-          return {
-            __type: 'Uint8Array',
-            base64: btoa(String.fromCharCode(...value)),
-            length: value.length,
-          }
-        }
-        // Handle Any type specially
-        if (key === 'pubkey' && value && typeof value === 'object' && 'typeUrl' in value && 'value' in value) {
-          return {
-            typeUrl: value.typeUrl,
-            value: value.value instanceof Uint8Array
-              ? {
-                  __type: 'Uint8Array',
-                  base64: btoa(String.fromCharCode(...value.value)),
-                  length: value.value.length,
-                }
-              : value.value,
-          }
-        }
-        return value
-      })),
-    })
-    
-    console.log('[BEFORE ENCODING] Fee:', fee)
-    console.log('[BEFORE ENCODING] Full message object:', msg)
-    
-    
-    try {
-      // Use signAndBroadcast with 'commit' mode to wait for confirmation
-      const result = await signer.signAndBroadcast(
-        {
-          messages: [msg],
-          fee,
-        },
-        broadcastOptions
-      )
-      
-      console.log('[AFTER BROADCAST] Initial result:', {
-        transactionHash: result.transactionHash,
-        rawResponse: result.rawResponse,
-        broadcastResponse: result.broadcastResponse,
-      })
-      
-      // For commit mode, check the broadcastResponse first
-      // It contains checkTx and txResult which tell us if the transaction failed
-      const broadcastResponse = result.broadcastResponse as any
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          // Transaction failed in deliverTx - extract the error log
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-          console.error('[TRANSACTION FAILED]', {
-            transactionHash: result.transactionHash,
-            code: txResult.code,
-            codespace: txResult.codespace,
-            log: txResult.log,
-            gasUsed: txResult.gasUsed?.toString(),
-            gasWanted: txResult.gasWanted?.toString(),
-          })
-          throw new Error(errorLog)
-        }
-      }
-      
-      // Wait for transaction to be finalized in a block
-      // The wait() method polls until the transaction is included and returns the final TxResponse
-      let txResponse
-      try {
-        txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
-      } catch (waitError: any) {
-        // If wait fails but we have a broadcastResponse with txResult, use that
-        if (broadcastResponse && 'txResult' in broadcastResponse) {
-          const txResult = broadcastResponse.txResult
-          if (txResult && txResult.code !== 0) {
-            const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-            throw new Error(errorLog)
-          }
-        }
-        throw waitError
-      }
-      
-      console.log('[AFTER FINALIZATION] Transaction finalized:', {
-        transactionHash: result.transactionHash,
-        code: txResponse.code,
-        height: txResponse.height,
-        rawLog: txResponse.rawLog,
-      })
-      
-      // Check if transaction actually succeeded (code 0 = success)
-      if (txResponse.code !== 0) {
-        const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-        throw new Error(errorMsg)
-      }
-      
-      return {
-        ...result,
-        txResponse, // Include the finalized tx response
-        rawLog: txResponse.rawLog, // Include raw log for display
-      }
-    } catch (signError: any) {
-      console.log('[SIGN/BROADCAST ERROR] Caught error:', {
-        message: signError?.message,
-        code: signError?.code,
-        name: signError?.name,
-        stack: signError?.stack,
-        // Check for signed transaction bytes in various places
-        txBytes: signError?.txBytes,
-        signedTx: signError?.signedTx,
-        transaction: signError?.transaction,
-      })
-      
-      // If we can get the signed transaction bytes from the error, log them
-      const signedTxBytes = signError?.txBytes || signError?.signedTx?.txBytes || signError?.transaction?.txBytes
-      if (signedTxBytes && signedTxBytes instanceof Uint8Array) {
-        const hexArray: string[] = []
-        for (let i = 0; i < signedTxBytes.length; i++) {
-          hexArray.push(signedTxBytes[i].toString(16).padStart(2, '0'))
-        }
-        console.log('[AFTER SIGNING] Signed transaction bytes:', {
-          length: signedTxBytes.length,
-          base64: btoa(String.fromCharCode(...signedTxBytes)),
-          hex: hexArray.join('').substring(0, 200) + '...', // Truncate for readability
-        })
-      }
-      throw signError
-    }
-  } catch (error: any) {
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    
-    // Check if user rejected the transaction
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    
-    // Check for specific blockchain errors
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for self-delegation and transaction fees.')
-    }
-    if (errorMsg.includes('validator already exists')) {
-      throw new Error('A validator with this operator address already exists.')
-    }
-    if (errorMsg.includes('invalid pubkey')) {
-      throw new Error('Invalid consensus pubkey format. Please verify the pubkey is correct.')
-    }
-    
-    // For RPC errors, provide helpful message
-    // The transaction might have been signed but broadcast failed
-    if (isRpcErrorMessage(errorMsg)) {
-      // Log full error details for debugging
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    
-    // Re-throw other errors as-is
-    throw error
+export async function undelegateTransaction(
+  signer: TxSigner,
+  address: string,
+  data: DelegationFormData,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.staking.v1beta1.MsgUndelegate',
+    value: {
+      delegatorAddress: address,
+      validatorAddress: data.validatorAddress,
+      amount: {
+        denom: 'inj',
+        // Convert INJ amount to base units (1 INJ = 10^18 base units)
+        amount: parseTokenAmount(data.amount),
+      },
+    },
   }
+
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(address, data.validatorAddress)
+  })
 }
 
-export async function registerOrchestratorTransaction(
-  signer: DirectSigner,
+export async function redelegateTransaction(
+  signer: TxSigner,
   address: string,
-  data: OrchestratorRegistrationFormData,
-  _chainId: string
+  data: RedelegationFormData,
+  _chainId: string,
+  options: TxOptions = {}
 ) {
-  try {
-    console.log('[ORCHESTRATOR REGISTRATION] Starting transaction')
-    console.log('[ORCHESTRATOR REGISTRATION] Input data:', {
-      address,
-      orchestratorAddress: data.orchestratorAddress,
-      ethereumAddress: data.ethereumAddress,
-    })
-
-    // MsgSetOrchestratorAddresses from Peggy module
-    // Note: This message type may need to be imported from Injective SDK
-    const msg = {
-      typeUrl: '/injective.peggy.v1.MsgSetOrchestratorAddresses',
-      value: {
-        sender: address, // Use account address as sender
-        orchestrator: data.orchestratorAddress,
-        ethAddress: data.ethereumAddress,
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+    value: {
+      delegatorAddress: address,
+      validatorSrcAddress: data.sourceValidatorAddress,
+      validatorDstAddress: data.destinationValidatorAddress,
+      amount: {
+        denom: 'inj',
+        // Convert INJ amount to base units (1 INJ = 10^18 base units)
+        amount: parseTokenAmount(data.amount),
       },
-    }
-
-    console.log('[ORCHESTRATOR REGISTRATION] Message before encoding:', JSON.stringify(msg, null, 2))
+    },
+  }
 
-    // Estimate gas first
-    console.log('[ORCHESTRATOR REGISTRATION] Estimating gas...')
-    const estimatedGas = await estimateGas(signer, [msg])
-    console.log('[ORCHESTRATOR REGISTRATION] Estimated gas:', estimatedGas)
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }], // 0.5 INJ
-      gas: estimatedGas,
-    }
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(address, data.sourceValidatorAddress)
+    invalidateAfterTx(address, data.destinationValidatorAddress)
+    invalidateQueries('redelegations', address)
+  })
+}
 
-    console.log('[ORCHESTRATOR REGISTRATION] Fee:', fee)
-    console.log('[ORCHESTRATOR REGISTRATION] Broadcast options:', broadcastOptions)
-    console.log('[ORCHESTRATOR REGISTRATION] Calling signAndBroadcast...')
+export interface CancelUnbondingData {
+  validatorAddress: string
+  // Amount to return to the delegation, in base units (at most the entry's balance)
+  amount: string
+  // Identifies the unbonding entry
+  creationHeight: string
+}
 
-    let result
-    try {
-      result = await signer.signAndBroadcast(
-        {
-          messages: [msg],
-          fee,
-        },
-        broadcastOptions
-      )
-      console.log('[ORCHESTRATOR REGISTRATION] After signAndBroadcast, result:', {
-        transactionHash: result.transactionHash,
-        broadcastResponse: result.broadcastResponse,
-      })
-    } catch (signError: any) {
-      console.error('[ORCHESTRATOR REGISTRATION] Error during signAndBroadcast:', signError)
-      console.error('[ORCHESTRATOR REGISTRATION] Sign error details:', {
-        message: signError?.message,
-        code: signError?.code,
-        data: signError?.data,
-        response: signError?.response,
-        stack: signError?.stack,
-        cause: signError?.cause,
-      })
-      throw signError
-    }
-    
-    // For commit mode, check the broadcastResponse first
-    const broadcastResponse = result.broadcastResponse as any
-    console.log('[ORCHESTRATOR REGISTRATION] Broadcast response:', safeJsonStringify(broadcastResponse))
-    
-    if (broadcastResponse && 'txResult' in broadcastResponse) {
-      const txResult = broadcastResponse.txResult
-      console.log('[ORCHESTRATOR REGISTRATION] TxResult from broadcastResponse:', safeJsonStringify(txResult))
-      if (txResult && txResult.code !== 0) {
-        const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-        console.error('[ORCHESTRATOR REGISTRATION] Transaction failed in broadcastResponse:', errorLog)
-        throw new Error(errorLog)
-      }
-    }
-    
-    // Wait for transaction to be finalized in a block
-    console.log('[ORCHESTRATOR REGISTRATION] Waiting for transaction finalization...')
-    let txResponse
-    try {
-      txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
-      console.log('[ORCHESTRATOR REGISTRATION] Transaction finalized:', {
-        code: txResponse.code,
-        hash: (txResponse as any).transactionHash || (txResponse as any).txhash,
-        rawLog: txResponse.rawLog,
-      })
-    } catch (waitError: any) {
-      console.error('[ORCHESTRATOR REGISTRATION] Error waiting for transaction:', waitError)
-      // If wait fails but we have a broadcastResponse with txResult, use that
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-          console.error('[ORCHESTRATOR REGISTRATION] Transaction failed in txResult:', errorLog)
-          throw new Error(errorLog)
-        }
-      }
-      throw waitError
-    }
-    
-    // Check if transaction actually succeeded (code 0 = success)
-    if (txResponse.code !== 0) {
-      const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-      console.error('[ORCHESTRATOR REGISTRATION] Transaction failed with code:', txResponse.code, 'Error:', errorMsg)
-      throw new Error(errorMsg)
-    }
-    
-    console.log('[ORCHESTRATOR REGISTRATION] Transaction succeeded!')
-    return {
-      ...result,
-      txResponse, // Include the finalized tx response
-      rawLog: txResponse.rawLog, // Include raw log for display
-    }
-  } catch (error: any) {
-    console.error('[ORCHESTRATOR REGISTRATION] Error caught:', error)
-    console.error('[ORCHESTRATOR REGISTRATION] Error details:', {
-      message: error?.message,
-      code: error?.code,
-      data: error?.data,
-      response: error?.response,
-      stack: error?.stack,
-      cause: error?.cause,
-      txHash: error?.txHash,
-      transactionHash: error?.transactionHash,
-      rawLog: error?.rawLog,
-      txResponse: error?.txResponse,
-      txResult: error?.txResult,
-    })
-    
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for transaction fees.')
-    }
-    if (errorMsg.includes('orchestrator address already set')) {
-      throw new Error('Orchestrator address has already been registered and cannot be changed.')
-    }
-    if (errorMsg.includes('unauthorized')) {
-      throw new Error('You are not authorized to register orchestrator for this validator.')
-    }
-    if (isRpcErrorMessage(errorMsg)) {
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    throw error
+/**
+ * Cancels (part of) an unbonding entry and delegates the amount back to the validator
+ */
+export async function cancelUnbondingTransaction(
+  signer: TxSigner,
+  address: string,
+  data: CancelUnbondingData,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+    value: {
+      delegatorAddress: address,
+      validatorAddress: data.validatorAddress,
+      amount: {
+        denom: 'inj',
+        amount: data.amount,
+      },
+      creationHeight: data.creationHeight,
+    },
   }
+
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(address, data.validatorAddress)
+  })
 }
 
-export async function editValidatorTransaction(
-  signer: DirectSigner,
-  _address: string,
-  data: ValidatorEditFormData,
+export async function unjailTransaction(
+  signer: TxSigner,
   validatorAddress: string,
   _chainId: string,
-  currentCommissionRate?: string
+  options: TxOptions = {}
 ) {
-  try {
-    // Validate and convert commission rate if provided (percentage to decimal)
-    let commissionRate: string | undefined
-    if (data.commissionRate !== undefined) {
-      const ratePercent = parseFloat(data.commissionRate)
-      if (isNaN(ratePercent) || ratePercent < 0 || ratePercent > 100) {
-        throw new Error('Commission rate must be between 0 and 100%')
-      }
-      commissionRate = percentStringToDecimal(data.commissionRate)
-    }
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
+    value: {
+      validatorAddr: validatorAddress,
+    },
+  }
 
-    // Build message value - only include commissionRate if it's defined
-    const msgValue: any = {
-      description: {
-        moniker: data.moniker,
-        identity: data.identity || '',
-        website: data.website || '',
-        securityContact: data.securityContact || '',
-        details: data.details || '',
-      },
-      validatorAddress: validatorAddress,
-    }
-    
-    // Only include commissionRate if it's provided and changed
-    if (commissionRate !== undefined) {
-      const normalizedCurrentRate = currentCommissionRate
-        ? normalizeDecimalString(currentCommissionRate, 18)
-        : undefined
-      if (normalizedCurrentRate && normalizedCurrentRate === commissionRate) {
-        commissionRate = undefined
-      }
-    }
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(toAccountAddress(validatorAddress), validatorAddress)
+  })
+}
 
-    if (commissionRate !== undefined) {
-      msgValue.commissionRate = commissionRate
-    }
+export interface WithdrawRewardsOptions {
+  // Withdraw the validator's accumulated commission (operator account only)
+  commission: boolean
+  // Withdraw the rewards of `delegatorAddress`'s delegation to the validator
+  delegatorRewards: boolean
+}
 
-    const msg = {
-      typeUrl: '/cosmos.staking.v1beta1.MsgEditValidator',
-      value: msgValue,
+/**
+ * Withdraws commission and/or delegation rewards in a single transaction.
+ * Commission is paid to the operator's account, so `delegatorAddress` must be
+ * the operator's account when `commission` is set.
+ */
+export async function withdrawRewardsTransaction(
+  signer: TxSigner,
+  delegatorAddress: string,
+  validatorAddress: string,
+  withdraw: WithdrawRewardsOptions,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const messages: EncodeObject[] = []
+  if (withdraw.commission) {
+    if (toValidatorOperatorAddress(delegatorAddress) !== validatorAddress) {
+      throw new Error('Only the validator operator account can withdraw commission')
     }
-
-    // Log the message structure before encoding
-    console.log('[EDIT VALIDATOR] Message before encoding:', {
-      typeUrl: msg.typeUrl,
-      value: JSON.parse(JSON.stringify(msg.value)),
-      commissionRateProvided: data.commissionRate !== undefined,
-      commissionRateValue: commissionRate,
+    messages.push({
+      typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+      value: {
+        validatorAddress,
+      },
+    })
+  }
+  if (withdraw.delegatorRewards) {
+    messages.push({
+      typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+      value: {
+        delegatorAddress,
+        validatorAddress,
+      },
     })
+  }
+  if (messages.length === 0) {
+    throw new Error('Nothing selected to withdraw')
+  }
 
-    // Estimate gas first
-    const estimatedGas = await estimateGas(signer, [msg])
-    console.log('[EDIT VALIDATOR] Estimated gas:', estimatedGas)
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }],
-      gas: estimatedGas,
+  return runAndInvalidate(signer, messages, options, () => {
+    invalidateAfterTx(delegatorAddress, validatorAddress)
+    if (withdraw.commission) {
+      invalidateQueries('commission', validatorAddress)
     }
+  })
+}
 
-    console.log('[EDIT VALIDATOR] Fee:', fee)
+export function withdrawCommissionTransaction(
+  signer: TxSigner,
+  validatorAddress: string,
+  chainId: string,
+  options: TxOptions = {}
+) {
+  return withdrawRewardsTransaction(
+    signer,
+    toAccountAddress(validatorAddress),
+    validatorAddress,
+    { commission: true, delegatorRewards: false },
+    chainId,
+    options
+  )
+}
 
-    try {
-      // Use signAndBroadcast with 'commit' mode to wait for confirmation
-      const result = await signer.signAndBroadcast(
-        {
-          messages: [msg],
-          fee,
-        },
-        broadcastOptions
-      )
-      
-      console.log('[EDIT VALIDATOR] After broadcast - Initial result:', {
-        transactionHash: result.transactionHash,
-        rawResponse: result.rawResponse,
-        broadcastResponse: result.broadcastResponse,
-      })
-      
-      // For commit mode, check the broadcastResponse first
-      // It contains checkTx and txResult which tell us if the transaction failed
-      const broadcastResponse = result.broadcastResponse as any
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          // Transaction failed in deliverTx - extract the error log
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-          console.error('[EDIT VALIDATOR] Transaction failed:', {
-            transactionHash: result.transactionHash,
-            code: txResult.code,
-            codespace: txResult.codespace,
-            log: txResult.log,
-            gasUsed: txResult.gasUsed?.toString(),
-            gasWanted: txResult.gasWanted?.toString(),
-          })
-          throw new Error(errorLog)
-        }
-      }
-      
-      // Wait for transaction to be finalized in a block
-      // The wait() method polls until the transaction is included and returns the final TxResponse
-      let txResponse
-      try {
-        txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
-      } catch (waitError: any) {
-        // If wait fails but we have a broadcastResponse with txResult, use that
-        if (broadcastResponse && 'txResult' in broadcastResponse) {
-          const txResult = broadcastResponse.txResult
-          if (txResult && txResult.code !== 0) {
-            const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-            throw new Error(errorLog)
-          }
-        }
-        throw waitError
-      }
-      
-      console.log('[EDIT VALIDATOR] After finalization - Transaction finalized:', {
-        transactionHash: result.transactionHash,
-        code: txResponse.code,
-        height: txResponse.height,
-        rawLog: txResponse.rawLog,
-      })
-      
-      // Check if transaction actually succeeded (code 0 = success)
-      if (txResponse.code !== 0) {
-        const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-        throw new Error(errorMsg)
-      }
-      
-      return {
-        ...result,
-        txResponse, // Include the finalized tx response
-        rawLog: txResponse.rawLog, // Include raw log for display
-      }
-    } catch (signError: any) {
-      console.log('[EDIT VALIDATOR] Sign/broadcast error:', {
-        message: signError?.message,
-        code: signError?.code,
-        name: signError?.name,
-        stack: signError?.stack,
-        // Check for signed transaction bytes in various places
-        txBytes: signError?.txBytes,
-        signedTx: signError?.signedTx,
-        transaction: signError?.transaction,
-        // Check for transaction hash in error (might have been broadcast despite error)
-        txHash: signError?.txHash,
-        transactionHash: signError?.transactionHash,
-        // Check for response data that might contain transaction info
-        response: signError?.response,
-        data: signError?.data,
-        cause: signError?.cause,
-      })
-      
-      // Check if transaction hash exists in error (transaction might have been broadcast)
-      const txHash = signError?.txHash || signError?.transactionHash || signError?.data?.txHash || signError?.response?.data?.txHash
-      if (txHash) {
-        console.log('[EDIT VALIDATOR] Transaction hash found in error, transaction may have been broadcast:', txHash)
-        // If we have a transaction hash, the transaction might have been broadcast successfully
-        // Try to wait for it and check its status
-        try {
-          // We need to create a result-like object to use wait()
-          // But since we don't have the actual result, we'll need to query the transaction
-          // For now, just log that we found a hash
-          console.warn('[EDIT VALIDATOR] Transaction may have been broadcast with hash:', txHash)
-        } catch (e) {
-          console.error('[EDIT VALIDATOR] Failed to check transaction status:', e)
-        }
-      }
-      
-      // If we can get the signed transaction bytes from the error, log them
-      const signedTxBytes = signError?.txBytes || signError?.signedTx?.txBytes || signError?.transaction?.txBytes
-      if (signedTxBytes && signedTxBytes instanceof Uint8Array) {
-        const hexArray: string[] = []
-        for (let i = 0; i < signedTxBytes.length; i++) {
-          hexArray.push(signedTxBytes[i].toString(16).padStart(2, '0'))
-        }
-        console.log('[EDIT VALIDATOR] Signed transaction bytes:', {
-          length: signedTxBytes.length,
-          base64: btoa(String.fromCharCode(...signedTxBytes)),
-          hex: hexArray.join('').substring(0, 200) + '...', // Truncate for readability
-        })
-      }
-      
-      // Re-throw the error so it can be handled by the outer catch block
-      throw signError
-    }
-  } catch (error: any) {
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    
-    // Check if user rejected the transaction
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    
-    // Check for specific blockchain errors
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for transaction fees.')
-    }
-    if (errorMsg.includes('commission rate change too high')) {
-      throw new Error('Commission rate change exceeds the maximum allowed change rate.')
-    }
-    if (errorMsg.includes('unauthorized')) {
-      throw new Error('You are not authorized to edit this validator.')
-    }
-    
-    // For RPC errors, provide helpful message
-    // The transaction might have been signed but broadcast failed
-    if (isRpcErrorMessage(errorMsg)) {
-      // Log full error details for debugging
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    
-    // Re-throw other errors as-is
-    throw error
-  }
+export function withdrawDelegatorRewardTransaction(
+  signer: TxSigner,
+  delegatorAddress: string,
+  validatorAddress: string,
+  chainId: string,
+  options: TxOptions = {}
+) {
+  return withdrawRewardsTransaction(
+    signer,
+    delegatorAddress,
+    validatorAddress,
+    { commission: false, delegatorRewards: true },
+    chainId,
+    options
+  )
 }
 
-export async function delegateTransaction(
-  signer: DirectSigner,
+/**
+ * Sends INJ from the signer to `data.recipientAddress`, e.g. to top up the orchestrator account
+ */
+export async function sendTransaction(
+  signer: TxSigner,
   address: string,
-  data: DelegationFormData,
-  _chainId: string
+  data: SendFormData,
+  _chainId: string,
+  options: TxOptions = {}
 ) {
-  try {
-    // Validate amount
-    const amount = parseFloat(data.amount)
-    if (isNaN(amount) || amount <= 0) {
-      throw new Error('Delegation amount must be a positive number')
-    }
-
-    // Convert INJ amount to base units (1 INJ = 10^18 base units)
-    const amountBase = Math.floor(amount * 1e18).toString()
-
-    const msg = {
-      typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
-      value: {
-        delegatorAddress: address,
-        validatorAddress: data.validatorAddress,
-        amount: {
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+    value: {
+      fromAddress: address,
+      toAddress: data.recipientAddress,
+      amount: [
+        {
           denom: 'inj',
-          amount: amountBase,
+          // Convert INJ amount to base units (1 INJ = 10^18 base units)
+          amount: parseTokenAmount(data.amount),
         },
-      },
-    }
-
-    // Estimate gas first
-    const estimatedGas = await estimateGas(signer, [msg])
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }],
-      gas: estimatedGas,
-    }
-
-    const result = await signer.signAndBroadcast(
-      {
-        messages: [msg],
-        fee,
-      },
-      broadcastOptions
-    )
-    
-    // For commit mode, check the broadcastResponse first
-    const broadcastResponse = result.broadcastResponse as any
-    if (broadcastResponse && 'txResult' in broadcastResponse) {
-      const txResult = broadcastResponse.txResult
-      if (txResult && txResult.code !== 0) {
-        const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-        throw new Error(errorLog)
-      }
-    }
-    
-    // Wait for transaction to be finalized in a block
-    let txResponse
-    try {
-      txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
-    } catch (waitError: any) {
-      // If wait fails but we have a broadcastResponse with txResult, use that
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-          throw new Error(errorLog)
-        }
-      }
-      throw waitError
-    }
-    
-    // Check if transaction actually succeeded (code 0 = success)
-    if (txResponse.code !== 0) {
-      const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-      throw new Error(errorMsg)
-    }
-    
-    return {
-      ...result,
-      txResponse, // Include the finalized tx response
-      rawLog: txResponse.rawLog, // Include raw log for display
-    }
-  } catch (error: any) {
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for delegation and transaction fees.')
-    }
-    if (errorMsg.includes('validator not found')) {
-      throw new Error('Validator not found. Please verify the validator address is correct.')
-    }
-    if (isRpcErrorMessage(errorMsg)) {
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    throw error
+      ],
+    },
   }
+
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(address)
+    invalidateQueries('balance', data.recipientAddress)
+  })
 }
 
-export async function undelegateTransaction(
-  signer: DirectSigner,
-  address: string,
-  data: DelegationFormData,
-  _chainId: string
+/**
+ * Votes on a governance proposal, see createVoteMessage
+ */
+export async function voteTransaction(
+  signer: TxSigner,
+  voterAddress: string,
+  proposalId: string,
+  voteOptions: WeightedVoteOption[],
+  _chainId: string,
+  options: TxOptions = {}
 ) {
-  try {
-    // Validate amount
-    const amount = parseFloat(data.amount)
-    if (isNaN(amount) || amount <= 0) {
-      throw new Error('Undelegation amount must be a positive number')
-    }
+  return runAndInvalidate(signer, [createVoteMessage(voterAddress, proposalId, voteOptions)], options, () => {
+    invalidateAfterTx(voterAddress)
+    invalidateQueries('vote', proposalId, voterAddress)
+    invalidateQueries('proposalTally', proposalId)
+    invalidateQueries('unvotedProposals', voterAddress)
+  })
+}
 
-    // Convert INJ amount to base units (1 INJ = 10^18 base units)
-    const amountBase = Math.floor(amount * 1e18).toString()
+/**
+ * Grants `data.grantee` a GenericAuthorization for each selected message type and,
+ * if selected, a StakeAuthorization; one MsgGrant per authorization in a single transaction.
+ * Granting a type that is already granted replaces the existing grant (and its expiration).
+ */
+export async function grantAuthorizationTransaction(
+  signer: TxSigner,
+  granterAddress: string,
+  data: AuthzGrantFormData,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const msgTypeUrls = [...new Set([...data.msgTypeUrls, data.customMsgTypeUrl.trim()].filter(Boolean))]
+  if (msgTypeUrls.length === 0 && !data.stakeAuthorizationType) {
+    throw new Error('Select at least one authorization')
+  }
+  const expiration = data.expiration ? new Date(data.expiration) : undefined
 
-    const msg = {
-      typeUrl: '/cosmos.staking.v1beta1.MsgUndelegate',
+  const messages: EncodeObject[] = msgTypeUrls.map((msgTypeUrl) => ({
+    typeUrl: '/cosmos.authz.v1beta1.MsgGrant',
+    value: {
+      granter: granterAddress,
+      grantee: data.grantee,
+      msgTypeUrl,
+      expiration,
+    },
+  }))
+  if (data.stakeAuthorizationType) {
+    messages.push({
+      typeUrl: '/cosmos.authz.v1beta1.MsgGrant',
       value: {
-        delegatorAddress: address,
-        validatorAddress: data.validatorAddress,
-        amount: {
-          denom: 'inj',
-          amount: amountBase,
+        granter: granterAddress,
+        grantee: data.grantee,
+        stakeAuthorization: {
+          authorizationType: data.stakeAuthorizationType,
+          allowList: splitAddressList(data.stakeValidators),
+          maxTokens: data.stakeMaxTokens ? { denom: 'inj', amount: parseTokenAmount(data.stakeMaxTokens) } : undefined,
         },
+        expiration,
       },
-    }
+    })
+  }
 
-    // Estimate gas first
-    const estimatedGas = await estimateGas(signer, [msg])
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }],
-      gas: estimatedGas,
-    }
+  return runAndInvalidate(signer, messages, options, () => {
+    invalidateAfterTx(granterAddress)
+    invalidateQueries('grantsByGranter', granterAddress)
+    invalidateQueries('grantsByGrantee', data.grantee)
+  })
+}
 
-    const result = await signer.signAndBroadcast(
-      {
-        messages: [msg],
-        fee,
-      },
-      broadcastOptions
-    )
-    
-    // For commit mode, check the broadcastResponse first
-    const broadcastResponse = result.broadcastResponse as any
-    if (broadcastResponse && 'txResult' in broadcastResponse) {
-      const txResult = broadcastResponse.txResult
-      if (txResult && txResult.code !== 0) {
-        const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-        throw new Error(errorLog)
-      }
-    }
-    
-    // Wait for transaction to be finalized in a block
-    let txResponse
-    try {
-      txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
-    } catch (waitError: any) {
-      // If wait fails but we have a broadcastResponse with txResult, use that
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-          throw new Error(errorLog)
-        }
-      }
-      throw waitError
-    }
-    
-    // Check if transaction actually succeeded (code 0 = success)
-    if (txResponse.code !== 0) {
-      const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-      throw new Error(errorMsg)
-    }
-    
-    return {
-      ...result,
-      txResponse, // Include the finalized tx response
-      rawLog: txResponse.rawLog, // Include raw log for display
-    }
-  } catch (error: any) {
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for transaction fees.')
-    }
-    if (errorMsg.includes('insufficient delegation')) {
-      throw new Error('Insufficient delegation. You cannot undelegate more than you have delegated.')
-    }
-    if (errorMsg.includes('validator not found')) {
-      throw new Error('Validator not found. Please verify the validator address is correct.')
-    }
-    if (isRpcErrorMessage(errorMsg)) {
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    throw error
+/**
+ * Revokes the grant for a single message type
+ */
+export async function revokeAuthorizationTransaction(
+  signer: TxSigner,
+  granterAddress: string,
+  granteeAddress: string,
+  msgTypeUrl: string,
+  _chainId: string,
+  options: TxOptions = {}
+) {
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.authz.v1beta1.MsgRevoke',
+    value: {
+      granter: granterAddress,
+      grantee: granteeAddress,
+      msgTypeUrl,
+    },
   }
+
+  return runAndInvalidate(signer, [msg], options, () => {
+    invalidateAfterTx(granterAddress)
+    invalidateQueries('grantsByGranter', granterAddress)
+    invalidateQueries('grantsByGrantee', granteeAddress)
+  })
 }
 
-export async function unjailTransaction(
-  signer: DirectSigner,
-  validatorAddress: string,
-  _chainId: string
+/**
+ * Executes `messages` on behalf of `granterAddress` through MsgExec.
+ * The messages are built exactly as the granter would send them; the signer
+ * must be a grantee with a valid grant for every message type.
+ */
+export async function execAuthorizedTransaction(
+  signer: TxSigner,
+  granteeAddress: string,
+  granterAddress: string,
+  innerMessages: EncodeObject[],
+  _chainId: string,
+  options: TxOptions = {}
 ) {
-  try {
-    const msg = {
-      typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
-      value: {
-        validatorAddr: validatorAddress,
-      },
-    }
+  const msg: EncodeObject = {
+    typeUrl: '/cosmos.authz.v1beta1.MsgExec',
+    value: {
+      grantee: granteeAddress,
+      msgs: innerMessages,
+    },
+  }
 
-    // Estimate gas first
-    const estimatedGas = await estimateGas(signer, [msg])
-    
-    const fee: StdFee = {
-      amount: [{ denom: 'inj', amount: '500000000000000000' }],
-      gas: estimatedGas,
-    }
+  return runAndInvalidate(signer, [msg], options, () => {
+    // Fees come from the grantee; the effects land on the granter's account and validator
+    invalidateAfterTx(granteeAddress)
+    const validatorAddress = toValidatorOperatorAddress(granterAddress)
+    invalidateQueries('validator', validatorAddress)
+    invalidateQueries('commission', validatorAddress)
+    invalidateQueries('outstandingRewards', validatorAddress)
+    invalidateQueries('balance', granterAddress)
+    invalidateQueries('vote', granterAddress)
+    invalidateQueries('unvotedProposals', granterAddress)
+    invalidateQueries('grantsByGrantee', granteeAddress)
+  })
+}
 
-    const result = await signer.signAndBroadcast(
-      {
-        messages: [msg],
-        fee,
-      },
-      broadcastOptions
-    )
-    
-    // For commit mode, check the broadcastResponse first
-    const broadcastResponse = result.broadcastResponse as any
-    if (broadcastResponse && 'txResult' in broadcastResponse) {
-      const txResult = broadcastResponse.txResult
-      if (txResult && txResult.code !== 0) {
-        const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
-        throw new Error(errorLog)
-      }
-    }
-    
-    // Wait for transaction to be finalized in a block
-    let txResponse
-    try {
-      txResponse = await result.wait(60000, 2000)
-    } catch (waitError: any) {
-      // If wait fails but we have a broadcastResponse with txResult, use that
-      if (broadcastResponse && 'txResult' in broadcastResponse) {
-        const txResult = broadcastResponse.txResult
-        if (txResult && txResult.code !== 0) {
-          const errorLog = txResult.log || `Transaction failed with code ${txResult.code}`
-          throw new Error(errorLog)
-        }
-      }
-      throw waitError
-    }
-    
-    // Check if transaction actually succeeded (code 0 = success)
-    if (txResponse.code !== 0) {
-      const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
-      throw new Error(errorMsg)
-    }
-    
-    return {
-      ...result,
-      txResponse, // Include the finalized tx response
-      rawLog: txResponse.rawLog, // Include raw log for display
-    }
-  } catch (error: any) {
-    // Enhance error messages
-    const errorMsg = error?.message || String(error) || ''
-    if (errorMsg.includes('Request rejected') || errorMsg.includes('User rejected')) {
-      throw new Error('Transaction was rejected. Please approve the transaction in your wallet.')
-    }
-    if (errorMsg.includes('insufficient funds')) {
-      throw new Error('Insufficient balance. Please ensure you have enough INJ for transaction fees.')
-    }
-    if (errorMsg.includes('validator not found')) {
-      throw new Error('Validator not found. Please verify the validator address is correct.')
-    }
-    if (errorMsg.includes('validator is not jailed')) {
-      throw new Error('Validator is not jailed. Unjail is only available for jailed validators.')
-    }
-    if (isRpcErrorMessage(errorMsg)) {
-      logRpcError(error)
-      throw new Error(buildRpcErrorMessage(error, errorMsg))
-    }
-    throw error
+/**
+ * Broadcasts a transaction signed offline; `accountAddress` is the offline account, whose
+ * balance is refreshed afterwards
+ */
+export async function broadcastSignedTx(
+  network: Network,
+  signed: SignedTxImport,
+  accountAddress: string | null,
+  options: Pick<TxOptions, 'onStage'> = {}
+) {
+  const result = await broadcastSignedTransaction(network, signed, options)
+  if (accountAddress) {
+    invalidateAfterTx(accountAddress)
   }
+  return result
 }
@@ -0,0 +1,1200 @@
+import { z } from 'zod'
+import { fromBase64, toBase64 } from '@cosmjs/encoding'
+import type { EncodeObject } from '@cosmjs/proto-signing'
+import type { Encoder } from '@interchainjs/cosmos/types/signing-client'
+import { BinaryWriter } from '@interchainjs/cosmos-types/binary'
+import { Any } from '@interchainjs/cosmos-types/google/protobuf/any'
+import { PubKey as Ed25519PubKey } from '@interchainjs/cosmos-types/cosmos/crypto/ed25519/keys'
+import { Coin } from '@interchainjs/cosmos-types/cosmos/base/v1beta1/coin'
+import { Description, CommissionRates } from '@interchainjs/cosmos-types/cosmos/staking/v1beta1/staking'
+import { Decimal } from '@interchainjs/math'
+import { VoteOption, WeightedVoteOption } from '../types'
+import {
+  GENERIC_AUTHORIZATION_TYPE,
+  getStakeAuthorization,
+  STAKE_AUTHORIZATION_TYPE,
+  STAKE_AUTHORIZATIONS,
+  StakeAuthorizationType,
+} from '../utils/authz'
+import {
+  ethereumAddressSchema,
+  injectiveAddressSchema,
+  validatorOperatorAddressSchema,
+} from '../utils/validation'
+
+/**
+ * Maps a chain or wallet error containing any of `match` to a user-facing message
+ */
+export interface TxErrorMapping {
+  match: string[]
+  message: string
+}
+
+/**
+ * A message type the transaction pipeline can send: its protobuf encoder, the schema its
+ * value is checked against before simulation, and the chain errors specific to it
+ */
+export interface MessageDefinition<TSchema extends z.ZodType = z.ZodType> {
+  encoder: Encoder
+  schema: TSchema
+  errors?: TxErrorMapping[]
+  // Messages wrapped by this one (MsgExec); they are validated and error-mapped as well
+  innerMessages?(value: z.infer<TSchema>): EncodeObject[]
+  // Proto3 JSON fields (as read and written by `injectived tx sign`) for values the generic
+  // camelCase <-> snake_case conversion can't express, e.g. Any fields holding encoded bytes
+  toJSON?(value: z.infer<TSchema>): Record<string, unknown>
+  fromJSON?(json: Record<string, any>): unknown
+  // Legacy amino name (e.g. "cosmos-sdk/MsgDelegate"); multisig members sign amino JSON
+  aminoType?: string
+  // Amino JSON fields where they differ from the generic snake_case conversion
+  toAmino?(value: z.infer<TSchema>): Record<string, unknown>
+}
+
+/**
+ * A message in legacy amino JSON, as it appears in an amino sign doc
+ */
+export interface AminoMessage {
+  type: string
+  value: Record<string, unknown>
+}
+
+// cosmos.gov.v1.VoteOption enum values
+const VOTE_OPTION_VALUES: Record<VoteOption, number> = {
+  VOTE_OPTION_YES: 1,
+  VOTE_OPTION_ABSTAIN: 2,
+  VOTE_OPTION_NO: 3,
+  VOTE_OPTION_NO_WITH_VETO: 4,
+}
+
+const BASE_AMOUNT_PATTERN = /^\d+$/
+// Cosmos Dec fields are sent as decimal strings with up to 18 fractional digits
+const DEC_PATTERN = /^\d+(\.\d{1,18})?$/
+
+function isBaseAmount(...values: string[]): boolean {
+  return values.every((value) => BASE_AMOUNT_PATTERN.test(value))
+}
+
+function isDec(...values: string[]): boolean {
+  return values.every((value) => DEC_PATTERN.test(value))
+}
+
+function decToScaled(value: string): bigint {
+  const [integerPart, fractionalPart = ''] = value.split('.')
+  return BigInt(integerPart + fractionalPart.padEnd(18, '0'))
+}
+
+function baseAmountSchema(label: string) {
+  return z.string().refine(
+    (val) => isBaseAmount(val) && BigInt(val) > 0n,
+    { message: `${label} must be a positive number` }
+  )
+}
+
+function coinSchema(label: string) {
+  return z.object({
+    denom: z.string().min(1, 'Denom is required'),
+    amount: baseAmountSchema(label),
+  })
+}
+
+// Commission rates and vote weights are fractions between 0 and 1
+function decSchema(label: string) {
+  return z.string().refine(
+    (val) => isDec(val) && decToScaled(val) <= 10n ** 18n,
+    { message: `${label} must be between 0 and 100%` }
+  )
+}
+
+const proposalIdSchema = z.string().regex(/^\d+$/, 'Invalid proposal ID')
+
+const voteOptionSchema = z.string().refine(
+  (val) => val in VOTE_OPTION_VALUES,
+  { message: 'Invalid vote option' }
+)
+
+const encodeObjectSchema = z.custom<EncodeObject>(
+  (val) => typeof val === 'object' && val !== null && typeof (val as EncodeObject).typeUrl === 'string',
+  { message: 'Invalid message' }
+)
+
+const VALIDATOR_NOT_FOUND_ERROR: TxErrorMapping = {
+  match: ['validator not found', 'validator does not exist'],
+  message: 'Validator not found. Please verify the validator address is correct.',
+}
+
+const VOTE_ERRORS: TxErrorMapping[] = [
+  { match: ['inactive proposal'], message: 'This proposal is not in its voting period anymore.' },
+  { match: ['unknown proposal'], message: 'Proposal not found. Please verify the proposal ID.' },
+  { match: ['invalid vote option', 'total weight'], message: 'Invalid vote options. Weights must be positive and add up to 100%.' },
+]
+
+const registry = new Map<string, MessageDefinition>()
+
+/**
+ * Registers a message type with the transaction pipeline. Signers created afterwards
+ * encode it, and it can be combined with any other registered message in one transaction.
+ */
+export function registerMessage<TSchema extends z.ZodType>(definition: MessageDefinition<TSchema>) {
+  registry.set(definition.encoder.typeUrl, definition)
+}
+
+export function getMessageDefinition(typeUrl: string): MessageDefinition | undefined {
+  return registry.get(typeUrl)
+}
+
+/**
+ * Encoders of all registered message types, for DirectSigner.addEncoders
+ */
+export function getMessageEncoders(): Encoder[] {
+  return [...registry.values()].map((definition) => definition.encoder)
+}
+
+/**
+ * Checks every message (and every message wrapped in it) against its registered schema.
+ * Throws with the first issue found, or if a message type is not registered.
+ */
+export function validateMessages(messages: readonly EncodeObject[]) {
+  for (const message of messages) {
+    const definition = registry.get(message.typeUrl)
+    if (!definition) {
+      throw new Error(`No encoder registered for ${message.typeUrl}`)
+    }
+    const result = definition.schema.safeParse(message.value)
+    if (!result.success) {
+      throw new Error(result.error.issues[0]?.message || `Invalid ${message.typeUrl} message`)
+    }
+    if (definition.innerMessages) {
+      validateMessages(definition.innerMessages(result.data))
+    }
+  }
+}
+
+/**
+ * Error mappings of the given message types (including wrapped messages), in message order
+ */
+export function getErrorMappings(messages: readonly EncodeObject[]): TxErrorMapping[] {
+  return messages.flatMap((message) => {
+    const definition = registry.get(message.typeUrl)
+    if (!definition) {
+      return []
+    }
+    const inner = definition.innerMessages ? getErrorMappings(definition.innerMessages(message.value)) : []
+    return [...(definition.errors ?? []), ...inner]
+  })
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase())
+}
+
+function isEncodeObject(value: unknown): value is EncodeObject {
+  return typeof value === 'object' && value !== null
+    && typeof (value as EncodeObject).typeUrl === 'string' && 'value' in value
+}
+
+// RFC 3339 with whole seconds, the precision the Timestamp encoders here keep
+function toTimestampJSON(date: Date): string {
+  return new Date(Math.floor(date.getTime() / 1000) * 1000).toISOString().replace('.000Z', 'Z')
+}
+
+function valueToJSON(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return toBase64(value)
+  }
+  if (value instanceof Date) {
+    return toTimestampJSON(value)
+  }
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(valueToJSON)
+  }
+  if (isEncodeObject(value)) {
+    return messageToJSON(value)
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [toSnakeCase(key), valueToJSON(field)])
+    )
+  }
+  return value
+}
+
+function valueFromJSON(json: unknown): unknown {
+  if (Array.isArray(json)) {
+    return json.map(valueFromJSON)
+  }
+  if (typeof json === 'object' && json !== null) {
+    if ('@type' in json) {
+      return messageFromJSON(json as Record<string, unknown>)
+    }
+    // Unset optional fields come back as null
+    return Object.fromEntries(
+      Object.entries(json)
+        .filter(([, field]) => field !== null)
+        .map(([key, field]) => [toCamelCase(key), valueFromJSON(field)])
+    )
+  }
+  return json
+}
+
+// Amino JSON leaves out unset fields, and LegacyDec fields always carry 18 decimals
+function valueToAmino(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(valueToAmino)
+  }
+  if (isEncodeObject(value)) {
+    return messageToAmino(value)
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Uint8Array) && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined && field !== null && field !== '')
+        .map(([key, field]) => [toSnakeCase(key), valueToAmino(field)])
+    )
+  }
+  return valueToJSON(value)
+}
+
+function decToAmino(value: string): string {
+  const [integerPart, fractionalPart = ''] = value.split('.')
+  return `${BigInt(integerPart)}.${fractionalPart.padEnd(18, '0')}`
+}
+
+/**
+ * Converts a registered message to proto3 JSON ({ "@type": typeUrl, ...snake_case fields }),
+ * the format of the messages in an unsigned transaction file
+ */
+export function messageToJSON(message: EncodeObject): Record<string, unknown> {
+  const definition = registry.get(message.typeUrl)
+  if (!definition) {
+    throw new Error(`No encoder registered for ${message.typeUrl}`)
+  }
+  const fields = definition.toJSON
+    ? definition.toJSON(message.value)
+    : valueToJSON(message.value) as Record<string, unknown>
+  return { '@type': message.typeUrl, ...fields }
+}
+
+/**
+ * Converts a proto3 JSON message (e.g. from a signed transaction file) back to a message
+ * value the registered encoder accepts. Throws for message types that are not registered.
+ */
+export function messageFromJSON(json: Record<string, unknown>): EncodeObject {
+  const { '@type': typeUrl, ...fields } = json
+  if (typeof typeUrl !== 'string') {
+    throw new Error('Message is missing its "@type"')
+  }
+  const definition = registry.get(typeUrl)
+  if (!definition) {
+    throw new Error(`Unsupported message type ${typeUrl}`)
+  }
+  return {
+    typeUrl,
+    value: definition.fromJSON ? definition.fromJSON(fields) : valueFromJSON(fields),
+  }
+}
+
+/**
+ * Converts a registered message to legacy amino JSON for an amino sign doc.
+ * Throws for message types without an amino name.
+ */
+export function messageToAmino(message: EncodeObject): AminoMessage {
+  const definition = registry.get(message.typeUrl)
+  if (!definition?.aminoType) {
+    throw new Error(`${message.typeUrl} cannot be signed with amino JSON`)
+  }
+  return {
+    type: definition.aminoType,
+    value: definition.toAmino
+      ? definition.toAmino(message.value)
+      : valueToAmino(message.value) as Record<string, unknown>,
+  }
+}
+
+/**
+ * Protobuf encoding of a registered message, e.g. for building a transaction body
+ */
+export function encodeMessage(message: EncodeObject): Uint8Array {
+  const encoder = registry.get(message.typeUrl)?.encoder
+  if (!encoder) {
+    throw new Error(`No encoder registered for ${message.typeUrl}`)
+  }
+  return encoder.encode(message.value).finish()
+}
+
+// Built-in message types; the encoders follow the protobuf field numbers of each Msg
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgCreateValidator',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      console.log('[ENCODER] Encoding MsgCreateValidator:', {
+        typeUrl: '/cosmos.staking.v1beta1.MsgCreateValidator',
+        message: JSON.parse(JSON.stringify(message, (_key, value) => {
+          // Convert Uint8Array to base64 for logging
+          if (value instanceof Uint8Array) {
+            return {
+              __type: 'Uint8Array',
+              base64: btoa(String.fromCharCode(...value)),
+              length: value.length,
+            }
+          }
+          return value
+        })),
+      })
+      
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: description
+      if (message.description) {
+        console.log('[ENCODER] Encoding description:', message.description)
+        Description.encode(message.description, w.uint32(10).fork()).ldelim()
+      }
+      
+      // Field 2: commission (CommissionRates)
+      if (message.commission) {
+        console.log('[ENCODER] Encoding commission:', message.commission)
+        CommissionRates.encode(message.commission, w.uint32(18).fork()).ldelim()
+      }
+      
+      // Field 3: minSelfDelegation
+      if (message.minSelfDelegation) {
+        console.log('[ENCODER] Encoding minSelfDelegation:', message.minSelfDelegation)
+        w.uint32(26).string(message.minSelfDelegation)
+      }
+      
+      // Field 4: delegatorAddress
+      if (message.delegatorAddress) {
+        console.log('[ENCODER] Encoding delegatorAddress:', message.delegatorAddress)
+        w.uint32(34).string(message.delegatorAddress)
+      }
+      
+      // Field 5: validatorAddress
+      if (message.validatorAddress) {
+        console.log('[ENCODER] Encoding validatorAddress:', message.validatorAddress)
+        w.uint32(42).string(message.validatorAddress)
+      }
+      
+      // Field 6: pubkey (Any)
+      if (message.pubkey) {
+        console.log('[ENCODER] Encoding pubkey:', {
+          typeUrl: message.pubkey.typeUrl,
+          value: message.pubkey.value instanceof Uint8Array 
+            ? {
+                __type: 'Uint8Array',
+                base64: btoa(String.fromCharCode(...message.pubkey.value)),
+                length: message.pubkey.value.length,
+              }
+            : message.pubkey.value,
+        })
+        Any.encode(message.pubkey, w.uint32(50).fork()).ldelim()
+      }
+      
+      // Field 7: value (Coin)
+      if (message.value) {
+        console.log('[ENCODER] Encoding value:', message.value)
+        Coin.encode(message.value, w.uint32(58).fork()).ldelim()
+      }
+      
+      const encoded = w.finish()
+      console.log('[ENCODER] Encoded message bytes:', {
+        length: encoded.length,
+        base64: btoa(String.fromCharCode(...encoded)),
+        hex: Array.from(encoded).map(b => b.toString(16).padStart(2, '0')).join(''),
+      })
+      
+      return w
+    },
+  },
+  schema: z.object({
+    description: z.object({ moniker: z.string().min(1, 'Moniker is required') }),
+    commission: z.object({
+      rate: decSchema('Commission rate'),
+      maxRate: decSchema('Max commission rate'),
+      maxChangeRate: decSchema('Max commission change rate'),
+    }).refine(
+      (commission) => !isDec(commission.rate, commission.maxRate) || decToScaled(commission.rate) <= decToScaled(commission.maxRate),
+      { message: 'Commission rate cannot exceed the max commission rate' }
+    ).refine(
+      (commission) => !isDec(commission.maxChangeRate, commission.maxRate) || decToScaled(commission.maxChangeRate) <= decToScaled(commission.maxRate),
+      { message: 'Max commission change rate cannot exceed the max commission rate' }
+    ),
+    minSelfDelegation: baseAmountSchema('Min self delegation'),
+    delegatorAddress: injectiveAddressSchema,
+    validatorAddress: validatorOperatorAddressSchema,
+    pubkey: z.object({
+      typeUrl: z.literal('/cosmos.crypto.ed25519.PubKey', { message: 'Consensus pubkey must be an ed25519 key' }),
+      value: z.instanceof(Uint8Array),
+    }),
+    value: coinSchema('Self delegation amount'),
+  }).refine(
+    (msg) => !isBaseAmount(msg.value.amount, msg.minSelfDelegation) || BigInt(msg.value.amount) >= BigInt(msg.minSelfDelegation),
+    { message: 'Self delegation amount must be at least the minimum self delegation' }
+  ),
+  errors: [
+    { match: ['insufficient funds'], message: 'Insufficient balance. Please ensure you have enough INJ for self-delegation and transaction fees.' },
+    { match: ['validator already exists'], message: 'A validator with this operator address already exists.' },
+    { match: ['invalid pubkey'], message: 'Invalid consensus pubkey format. Please verify the pubkey is correct.' },
+  ],
+  // The pubkey Any holds an encoded ed25519 PubKey; in JSON its `key` field is spelled out
+  toJSON: ({ pubkey, ...msg }) => ({
+    ...valueToJSON(msg) as Record<string, unknown>,
+    pubkey: { '@type': pubkey.typeUrl, key: toBase64(Ed25519PubKey.decode(pubkey.value).key) },
+  }),
+  fromJSON: ({ pubkey, ...json }) => ({
+    ...valueFromJSON(json) as Record<string, unknown>,
+    pubkey: pubkey && {
+      typeUrl: pubkey['@type'],
+      value: Ed25519PubKey.encode(Ed25519PubKey.fromPartial({ key: fromBase64(pubkey.key ?? '') })).finish(),
+    },
+  }),
+  aminoType: 'cosmos-sdk/MsgCreateValidator',
+  toAmino: ({ pubkey, commission, ...msg }) => ({
+    ...valueToAmino(msg) as Record<string, unknown>,
+    commission: {
+      rate: decToAmino(commission.rate),
+      max_rate: decToAmino(commission.maxRate),
+      max_change_rate: decToAmino(commission.maxChangeRate),
+    },
+    pubkey: { type: 'tendermint/PubKeyEd25519', value: toBase64(Ed25519PubKey.decode(pubkey.value).key) },
+  }),
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgEditValidator',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      console.log('[ENCODER] Encoding MsgEditValidator:', {
+        typeUrl: '/cosmos.staking.v1beta1.MsgEditValidator',
+        message,
+      })
+      
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: description (Description)
+      if (message.description) {
+        console.log('[ENCODER] Encoding description:', message.description)
+        Description.encode(message.description, w.uint32(10).fork()).ldelim()
+      }
+      
+      // Field 2: validator_address (string)
+      if (message.validatorAddress) {
+        console.log('[ENCODER] Encoding validatorAddress:', message.validatorAddress)
+        w.uint32(18).string(message.validatorAddress)
+      }
+      
+      // Field 3: commission_rate (Dec) - optional
+      // Commission rate must be encoded as Decimal atomics (18 decimal places)
+      if (message.commissionRate !== undefined && message.commissionRate !== null && message.commissionRate !== '') {
+        console.log('[ENCODER] Encoding commissionRate:', message.commissionRate)
+        // Convert decimal string to atomics format (e.g., "0.11" -> "110000000000000000")
+        const commissionRateAtomics = Decimal.fromUserInput(message.commissionRate, 18).atomics
+        console.log('[ENCODER] Commission rate atomics:', commissionRateAtomics)
+        w.uint32(26).string(commissionRateAtomics)
+      }
+      
+      // Field 4: min_self_delegation (string) - optional
+      if (message.minSelfDelegation !== undefined && message.minSelfDelegation !== null && message.minSelfDelegation !== '') {
+        console.log('[ENCODER] Encoding minSelfDelegation:', message.minSelfDelegation)
+        w.uint32(34).string(message.minSelfDelegation)
+      }
+      
+      const encoded = w.finish()
+      console.log('[ENCODER] Encoded MsgEditValidator bytes:', {
+        length: encoded.length,
+        base64: btoa(String.fromCharCode(...encoded)),
+        hex: Array.from(encoded).map(b => b.toString(16).padStart(2, '0')).join(''),
+      })
+      
+      return w
+    },
+  },
+  schema: z.object({
+    description: z.object({ moniker: z.string().min(1, 'Moniker is required') }),
+    validatorAddress: validatorOperatorAddressSchema,
+    commissionRate: decSchema('Commission rate').optional(),
+  }),
+  errors: [
+    { match: ['commission rate change too high'], message: 'Commission rate change exceeds the maximum allowed change rate.' },
+    { match: ['unauthorized'], message: 'You are not authorized to edit this validator.' },
+  ],
+  aminoType: 'cosmos-sdk/MsgEditValidator',
+  toAmino: ({ commissionRate, ...msg }) => ({
+    ...valueToAmino(msg) as Record<string, unknown>,
+    ...(commissionRate ? { commission_rate: decToAmino(commissionRate) } : {}),
+  }),
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      if (message.delegatorAddress) {
+        w.uint32(10).string(message.delegatorAddress)
+      }
+      if (message.validatorAddress) {
+        w.uint32(18).string(message.validatorAddress)
+      }
+      if (message.amount) {
+        Coin.encode(message.amount, w.uint32(26).fork()).ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    delegatorAddress: injectiveAddressSchema,
+    validatorAddress: validatorOperatorAddressSchema,
+    amount: coinSchema('Delegation amount'),
+  }),
+  errors: [
+    { match: ['insufficient funds'], message: 'Insufficient balance. Please ensure you have enough INJ for delegation and transaction fees.' },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgDelegate',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgUndelegate',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      if (message.delegatorAddress) {
+        w.uint32(10).string(message.delegatorAddress)
+      }
+      if (message.validatorAddress) {
+        w.uint32(18).string(message.validatorAddress)
+      }
+      if (message.amount) {
+        Coin.encode(message.amount, w.uint32(26).fork()).ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    delegatorAddress: injectiveAddressSchema,
+    validatorAddress: validatorOperatorAddressSchema,
+    amount: coinSchema('Undelegation amount'),
+  }),
+  errors: [
+    { match: ['insufficient delegation'], message: 'Insufficient delegation. You cannot undelegate more than you have delegated.' },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgUndelegate',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+    fromPartial: (obj: unknown) => obj,
+    encode: (
+      message: { delegatorAddress?: string; validatorSrcAddress?: string; validatorDstAddress?: string; amount?: Coin },
+      writer?: BinaryWriter
+    ) => {
+      const w = writer || BinaryWriter.create()
+      
+      if (message.delegatorAddress) {
+        w.uint32(10).string(message.delegatorAddress)
+      }
+      if (message.validatorSrcAddress) {
+        w.uint32(18).string(message.validatorSrcAddress)
+      }
+      if (message.validatorDstAddress) {
+        w.uint32(26).string(message.validatorDstAddress)
+      }
+      if (message.amount) {
+        Coin.encode(message.amount, w.uint32(34).fork()).ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    delegatorAddress: injectiveAddressSchema,
+    validatorSrcAddress: validatorOperatorAddressSchema,
+    validatorDstAddress: validatorOperatorAddressSchema,
+    amount: coinSchema('Redelegation amount'),
+  }).refine(
+    (msg) => msg.validatorSrcAddress !== msg.validatorDstAddress,
+    { message: 'Source and destination validator must differ' }
+  ),
+  errors: [
+    {
+      match: ['redelegation to this validator already in progress'],
+      message:
+        'Transitive redelegation is not allowed. Stake that was redelegated to the source validator ' +
+        'cannot be moved again until that redelegation has completed.',
+    },
+    { match: ['too many redelegation entries'], message: 'Too many pending redelegations between these validators (maximum 7). Wait for one to complete.' },
+    { match: ['cannot redelegate to the same validator'], message: 'Source and destination validator must differ.' },
+    {
+      match: ['insufficient delegation', 'invalid shares amount'],
+      message: 'Insufficient delegation. You cannot redelegate more than you have delegated to the source validator.',
+    },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgBeginRedelegate',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+    fromPartial: (obj: unknown) => obj,
+    encode: (
+      message: { delegatorAddress?: string; validatorAddress?: string; amount?: Coin; creationHeight?: string },
+      writer?: BinaryWriter
+    ) => {
+      const w = writer || BinaryWriter.create()
+      
+      if (message.delegatorAddress) {
+        w.uint32(10).string(message.delegatorAddress)
+      }
+      if (message.validatorAddress) {
+        w.uint32(18).string(message.validatorAddress)
+      }
+      if (message.amount) {
+        Coin.encode(message.amount, w.uint32(26).fork()).ldelim()
+      }
+      // Field 4: creation_height (int64), identifies the unbonding entry
+      if (message.creationHeight) {
+        w.uint32(32).int64(BigInt(message.creationHeight))
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    delegatorAddress: injectiveAddressSchema,
+    validatorAddress: validatorOperatorAddressSchema,
+    amount: coinSchema('Cancel amount'),
+    creationHeight: z.string().regex(/^\d+$/, 'Invalid unbonding entry height'),
+  }),
+  errors: [
+    {
+      match: ['unbonding delegation entry is not found', 'no unbonding delegation found'],
+      message: 'Unbonding entry not found. It may have completed or been cancelled already.',
+    },
+    { match: ['amount is greater than the unbonding delegation entry balance'], message: 'Cancel amount exceeds the remaining balance of this unbonding entry.' },
+    {
+      match: ['validator for this address is currently jailed', 'validator is jailed'],
+      message: 'Unbonding cannot be cancelled while the validator is jailed. Unjail the validator first.',
+    },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgCancelUnbondingDelegation',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/injective.peggy.v1.MsgSetOrchestratorAddresses',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      console.log('[ENCODER] Encoding MsgSetOrchestratorAddresses:', {
+        typeUrl: '/injective.peggy.v1.MsgSetOrchestratorAddresses',
+        message,
+      })
+      
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: sender (string)
+      if (message.sender) {
+        console.log('[ENCODER] Encoding sender:', message.sender)
+        w.uint32(10).string(message.sender)
+      }
+      // Field 2: orchestrator (string)
+      if (message.orchestrator) {
+        console.log('[ENCODER] Encoding orchestrator:', message.orchestrator)
+        w.uint32(18).string(message.orchestrator)
+      }
+      // Field 3: ethAddress (string)
+      if (message.ethAddress) {
+        console.log('[ENCODER] Encoding ethAddress:', message.ethAddress)
+        w.uint32(26).string(message.ethAddress)
+      }
+      
+      const encoded = w.finish()
+      console.log('[ENCODER] Encoded MsgSetOrchestratorAddresses bytes:', {
+        length: encoded.length,
+        base64: btoa(String.fromCharCode(...encoded)),
+        hex: Array.from(encoded).map(b => b.toString(16).padStart(2, '0')).join(''),
+      })
+      
+      return w
+    },
+  },
+  schema: z.object({
+    sender: injectiveAddressSchema,
+    orchestrator: injectiveAddressSchema,
+    ethAddress: ethereumAddressSchema,
+  }),
+  errors: [
+    { match: ['orchestrator address already set'], message: 'Orchestrator address has already been registered and cannot be changed.' },
+    { match: ['unauthorized'], message: 'You are not authorized to register orchestrator for this validator.' },
+  ],
+  aminoType: 'peggy/MsgSetOrchestratorAddresses',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
+    fromPartial: (obj: any) => obj,
+    encode: (message: any, writer?: BinaryWriter) => {
+      console.log('[ENCODER] Encoding MsgUnjail:', {
+        typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
+        message,
+      })
+      
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: validatorAddr (string)
+      if (message.validatorAddr) {
+        console.log('[ENCODER] Encoding validatorAddr:', message.validatorAddr)
+        w.uint32(10).string(message.validatorAddr)
+      }
+      
+      const encoded = w.finish()
+      console.log('[ENCODER] Encoded MsgUnjail bytes:', {
+        length: encoded.length,
+        base64: btoa(String.fromCharCode(...encoded)),
+        hex: Array.from(encoded).map(b => b.toString(16).padStart(2, '0')).join(''),
+      })
+      
+      return w
+    },
+  },
+  schema: z.object({
+    validatorAddr: validatorOperatorAddressSchema,
+  }),
+  errors: [
+    { match: ['validator is not jailed'], message: 'Validator is not jailed. Unjail is only available for jailed validators.' },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgUnjail',
+  // validator_addr is named "address" in amino JSON
+  toAmino: (msg) => ({ address: msg.validatorAddr }),
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+    fromPartial: (obj: unknown) => obj,
+    encode: (message: { validatorAddress?: string }, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: validator_address (string)
+      if (message.validatorAddress) {
+        w.uint32(10).string(message.validatorAddress)
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    validatorAddress: validatorOperatorAddressSchema,
+  }),
+  errors: [
+    { match: ['no validator commission to withdraw'], message: 'There is no commission to withdraw yet.' },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  // The amino names of the distribution messages predate their current proto names
+  aminoType: 'cosmos-sdk/MsgWithdrawValCommission',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+    fromPartial: (obj: unknown) => obj,
+    encode: (message: { delegatorAddress?: string; validatorAddress?: string }, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: delegator_address (string)
+      if (message.delegatorAddress) {
+        w.uint32(10).string(message.delegatorAddress)
+      }
+      // Field 2: validator_address (string)
+      if (message.validatorAddress) {
+        w.uint32(18).string(message.validatorAddress)
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    delegatorAddress: injectiveAddressSchema,
+    validatorAddress: validatorOperatorAddressSchema,
+  }),
+  errors: [
+    { match: ['no delegation distribution info'], message: 'No delegation found for this account. There are no rewards to withdraw.' },
+    VALIDATOR_NOT_FOUND_ERROR,
+  ],
+  aminoType: 'cosmos-sdk/MsgWithdrawDelegationReward',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.gov.v1.MsgVote',
+    fromPartial: (obj: unknown) => obj,
+    encode: (
+      message: { proposalId?: string; voter?: string; option?: VoteOption; metadata?: string },
+      writer?: BinaryWriter
+    ) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: proposal_id (uint64)
+      if (message.proposalId) {
+        w.uint32(8).uint64(BigInt(message.proposalId))
+      }
+      // Field 2: voter (string)
+      if (message.voter) {
+        w.uint32(18).string(message.voter)
+      }
+      // Field 3: option (VoteOption enum)
+      if (message.option) {
+        w.uint32(24).int32(VOTE_OPTION_VALUES[message.option])
+      }
+      // Field 4: metadata (string)
+      if (message.metadata) {
+        w.uint32(34).string(message.metadata)
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    proposalId: proposalIdSchema,
+    voter: injectiveAddressSchema,
+    option: voteOptionSchema,
+  }),
+  errors: VOTE_ERRORS,
+  aminoType: 'cosmos-sdk/v1/MsgVote',
+  // Amino JSON spells enums as numbers
+  toAmino: (msg) => ({ proposal_id: msg.proposalId, voter: msg.voter, option: VOTE_OPTION_VALUES[msg.option as VoteOption] }),
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.gov.v1.MsgVoteWeighted',
+    fromPartial: (obj: unknown) => obj,
+    encode: (
+      message: { proposalId?: string; voter?: string; options?: WeightedVoteOption[]; metadata?: string },
+      writer?: BinaryWriter
+    ) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: proposal_id (uint64)
+      if (message.proposalId) {
+        w.uint32(8).uint64(BigInt(message.proposalId))
+      }
+      // Field 2: voter (string)
+      if (message.voter) {
+        w.uint32(18).string(message.voter)
+      }
+      // Field 3: options (repeated WeightedVoteOption { option = 1; weight = 2 })
+      for (const option of message.options ?? []) {
+        w.uint32(26).fork()
+        w.uint32(8).int32(VOTE_OPTION_VALUES[option.option])
+        w.uint32(18).string(option.weight)
+        w.ldelim()
+      }
+      // Field 4: metadata (string)
+      if (message.metadata) {
+        w.uint32(34).string(message.metadata)
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    proposalId: proposalIdSchema,
+    voter: injectiveAddressSchema,
+    options: z.array(z.object({ option: voteOptionSchema, weight: decSchema('Vote weight') })).min(1, 'Select at least one vote option'),
+  }).refine(
+    (msg) => msg.options.every((option) => DEC_PATTERN.test(option.weight) && decToScaled(option.weight) > 0n)
+      && msg.options.reduce((sum, option) => sum + decToScaled(option.weight), 0n) === 10n ** 18n,
+    { message: 'Vote weights must be positive and add up to 100%' }
+  ),
+  errors: VOTE_ERRORS,
+  aminoType: 'cosmos-sdk/v1/MsgVoteWeighted',
+  toAmino: (msg) => ({
+    proposal_id: msg.proposalId,
+    voter: msg.voter,
+    options: msg.options.map((option) => ({ option: VOTE_OPTION_VALUES[option.option as VoteOption], weight: option.weight })),
+  }),
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+    fromPartial: (obj: unknown) => obj,
+    encode: (message: { fromAddress?: string; toAddress?: string; amount?: Coin[] }, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: from_address (string)
+      if (message.fromAddress) {
+        w.uint32(10).string(message.fromAddress)
+      }
+      // Field 2: to_address (string)
+      if (message.toAddress) {
+        w.uint32(18).string(message.toAddress)
+      }
+      // Field 3: amount (repeated Coin)
+      for (const coin of message.amount ?? []) {
+        Coin.encode(coin, w.uint32(26).fork()).ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    fromAddress: injectiveAddressSchema,
+    toAddress: injectiveAddressSchema,
+    amount: z.array(coinSchema('Send amount')).min(1, 'Send amount must be a positive number'),
+  }).refine(
+    (msg) => msg.fromAddress !== msg.toAddress,
+    { message: 'Cannot send funds to the sending account itself' }
+  ),
+  errors: [
+    { match: ['insufficient funds'], message: 'Insufficient balance. Please ensure you have enough INJ for the amount and transaction fees.' },
+    { match: ['is not allowed to receive funds'], message: 'The recipient address is not allowed to receive funds.' },
+  ],
+  aminoType: 'cosmos-sdk/MsgSend',
+})
+
+interface StakeAuthorizationValue {
+  authorizationType: StakeAuthorizationType
+  // Validator operator addresses the grantee may stake with
+  allowList: string[]
+  maxTokens?: Coin
+}
+
+function encodeStakeAuthorization(authorization: StakeAuthorizationValue): Uint8Array {
+  const w = BinaryWriter.create()
+  // Field 1: max_tokens (Coin); without it the amount is unlimited
+  if (authorization.maxTokens) {
+    Coin.encode(authorization.maxTokens, w.uint32(10).fork()).ldelim()
+  }
+  // Field 2: allow_list (Validators { repeated string address = 1 })
+  w.uint32(18).fork()
+  for (const address of authorization.allowList) {
+    w.uint32(10).string(address)
+  }
+  w.ldelim()
+  // Field 4: authorization_type (enum)
+  w.uint32(32).int32(getStakeAuthorization(authorization.authorizationType)!.value)
+  return w.finish()
+}
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.authz.v1beta1.MsgGrant',
+    fromPartial: (obj: unknown) => obj,
+    encode: (
+      message: {
+        granter?: string
+        grantee?: string
+        msgTypeUrl?: string
+        stakeAuthorization?: StakeAuthorizationValue
+        expiration?: Date
+      },
+      writer?: BinaryWriter
+    ) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: granter (string)
+      if (message.granter) {
+        w.uint32(10).string(message.granter)
+      }
+      // Field 2: grantee (string)
+      if (message.grantee) {
+        w.uint32(18).string(message.grantee)
+      }
+      // Field 3: grant (Grant { authorization = 1; expiration = 2 })
+      if (message.msgTypeUrl || message.stakeAuthorization) {
+        w.uint32(26).fork()
+        // StakeAuthorization, or GenericAuthorization { msg = 1 }, packed into Any
+        Any.encode(
+          message.stakeAuthorization
+            ? { typeUrl: STAKE_AUTHORIZATION_TYPE, value: encodeStakeAuthorization(message.stakeAuthorization) }
+            : {
+                typeUrl: GENERIC_AUTHORIZATION_TYPE,
+                value: BinaryWriter.create().uint32(10).string(message.msgTypeUrl!).finish(),
+              },
+          w.uint32(10).fork()
+        ).ldelim()
+        // Timestamp { seconds = 1; nanos = 2 }; a grant without expiration never expires
+        if (message.expiration) {
+          w.uint32(18).fork()
+          w.uint32(8).int64(BigInt(Math.floor(message.expiration.getTime() / 1000)))
+          w.ldelim()
+        }
+        w.ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    granter: injectiveAddressSchema,
+    grantee: injectiveAddressSchema,
+    msgTypeUrl: z.string().min(1, 'Select at least one authorization').optional(),
+    stakeAuthorization: z.object({
+      authorizationType: z.enum(STAKE_AUTHORIZATIONS.map((authorization) => authorization.type) as [StakeAuthorizationType]),
+      allowList: z.array(validatorOperatorAddressSchema).min(1, 'Allow at least one validator'),
+      maxTokens: coinSchema('Max tokens').optional(),
+    }).optional(),
+    expiration: z.date().refine((date) => date.getTime() > Date.now(), { message: 'Expiration must be in the future' }).optional(),
+  }).refine(
+    (msg) => !msg.msgTypeUrl !== !msg.stakeAuthorization,
+    { message: 'A grant holds either a generic or a stake authorization' }
+  ).refine(
+    (msg) => msg.granter !== msg.grantee,
+    { message: 'Grantee must be a different account than the granter' }
+  ),
+  errors: [
+    { match: ['grantee and granter should be different'], message: 'Grantee must be a different account than the granter.' },
+  ],
+  // The value is flattened to the authorization granted here
+  toJSON: (msg) => ({
+    granter: msg.granter,
+    grantee: msg.grantee,
+    grant: {
+      authorization: msg.stakeAuthorization
+        ? {
+            '@type': STAKE_AUTHORIZATION_TYPE,
+            max_tokens: msg.stakeAuthorization.maxTokens ?? null,
+            allow_list: { address: msg.stakeAuthorization.allowList },
+            authorization_type: msg.stakeAuthorization.authorizationType,
+          }
+        : { '@type': GENERIC_AUTHORIZATION_TYPE, msg: msg.msgTypeUrl },
+      expiration: msg.expiration ? toTimestampJSON(msg.expiration) : null,
+    },
+  }),
+  fromJSON: (json) => {
+    const authorization = json.grant?.authorization
+    const grant = {
+      granter: json.granter,
+      grantee: json.grantee,
+      expiration: json.grant?.expiration ? new Date(json.grant.expiration) : undefined,
+    }
+    if (authorization?.['@type'] === GENERIC_AUTHORIZATION_TYPE) {
+      return { ...grant, msgTypeUrl: authorization.msg }
+    }
+    if (authorization?.['@type'] === STAKE_AUTHORIZATION_TYPE) {
+      if (!authorization.allow_list) {
+        throw new Error('Only stake authorizations with an allow list are supported')
+      }
+      return {
+        ...grant,
+        stakeAuthorization: {
+          authorizationType: authorization.authorization_type,
+          allowList: authorization.allow_list.address ?? [],
+          maxTokens: authorization.max_tokens ?? undefined,
+        },
+      }
+    }
+    throw new Error('Only generic and stake authorization grants are supported')
+  },
+  aminoType: 'cosmos-sdk/MsgGrant',
+  toAmino: (msg) => {
+    // The amino JSON of StakeAuthorization's validator oneof is not reproduced here
+    if (msg.stakeAuthorization) {
+      throw new Error('Stake authorization grants cannot be signed with amino JSON')
+    }
+    return {
+      granter: msg.granter,
+      grantee: msg.grantee,
+      grant: {
+        authorization: { type: 'cosmos-sdk/GenericAuthorization', value: { msg: msg.msgTypeUrl } },
+        ...(msg.expiration ? { expiration: toTimestampJSON(msg.expiration) } : {}),
+      },
+    }
+  },
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.authz.v1beta1.MsgRevoke',
+    fromPartial: (obj: unknown) => obj,
+    encode: (message: { granter?: string; grantee?: string; msgTypeUrl?: string }, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: granter (string)
+      if (message.granter) {
+        w.uint32(10).string(message.granter)
+      }
+      // Field 2: grantee (string)
+      if (message.grantee) {
+        w.uint32(18).string(message.grantee)
+      }
+      // Field 3: msg_type_url (string)
+      if (message.msgTypeUrl) {
+        w.uint32(26).string(message.msgTypeUrl)
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    granter: injectiveAddressSchema,
+    grantee: injectiveAddressSchema,
+    msgTypeUrl: z.string().min(1, 'Message type is required'),
+  }),
+  errors: [
+    { match: ['authorization not found'], message: 'Grant not found. It may have expired or been revoked already.' },
+  ],
+  aminoType: 'cosmos-sdk/MsgRevoke',
+})
+
+registerMessage({
+  encoder: {
+    typeUrl: '/cosmos.authz.v1beta1.MsgExec',
+    fromPartial: (obj: unknown) => obj,
+    encode: (message: { grantee?: string; msgs?: Array<{ typeUrl: string; value: unknown }> }, writer?: BinaryWriter) => {
+      const w = writer || BinaryWriter.create()
+      
+      // Field 1: grantee (string)
+      if (message.grantee) {
+        w.uint32(10).string(message.grantee)
+      }
+      // Field 2: msgs (repeated Any), each encoded with the encoders registered here
+      for (const inner of message.msgs ?? []) {
+        const encoder = registry.get(inner.typeUrl)?.encoder
+        if (!encoder) {
+          throw new Error(`No encoder registered for ${inner.typeUrl}`)
+        }
+        Any.encode(
+          { typeUrl: inner.typeUrl, value: encoder.encode(inner.value).finish() },
+          w.uint32(18).fork()
+        ).ldelim()
+      }
+      
+      return w
+    },
+  },
+  schema: z.object({
+    grantee: injectiveAddressSchema,
+    msgs: z.array(encodeObjectSchema).min(1, 'Nothing to execute'),
+  }),
+  errors: [
+    { match: ['authorization not found'], message: 'This wallet has no grant for that action. Ask the operator to grant it first.' },
+    { match: ['authorization expired'], message: 'The grant for this action has expired. Ask the operator to renew it.' },
+  ],
+  innerMessages: (msg) => msg.msgs,
+  aminoType: 'cosmos-sdk/MsgExec',
+})
@@ -0,0 +1,394 @@
+import type { EncodeObject } from '@cosmjs/proto-signing'
+import type { DirectSigner } from '@interchainjs/cosmos'
+import { FeeEstimate, FeeSelection, Network, TxStage } from '../types'
+import { computeFee, FALLBACK_GAS_LIMIT, getGasPrice, getStoredFeePreference } from '../utils/fees'
+import { InjectiveService } from './injective'
+import {
+  buildUnsignedTx,
+  fetchOfflineAccountDetails,
+  isOfflineAccount,
+  OfflineAccount,
+  SignedTxImport,
+  simulateOfflineTransaction,
+  UnsignedTxExport,
+} from './offline-tx'
+import { getErrorMappings, TxErrorMapping, validateMessages } from './tx-messages'
+
+// Use 'commit' mode to wait for transaction confirmation
+const broadcastOptions = { mode: 'commit' as const }
+const rpcErrorIndicators = ['RPC Error', 'Internal error']
+const GAS_MULTIPLIER = 1.5 // Multiply estimated gas by 1.5 for safety margin
+
+// Checked before the message-specific mappings
+const REJECTED_ERROR: TxErrorMapping = {
+  match: ['Request rejected', 'User rejected'],
+  message: 'Transaction was rejected. Please approve the transaction in your wallet.',
+}
+
+// Checked after them, so messages that move funds can explain what the balance is needed for
+const INSUFFICIENT_FUNDS_ERROR: TxErrorMapping = {
+  match: ['insufficient funds'],
+  message: 'Insufficient balance. Please ensure you have enough INJ for transaction fees.',
+}
+
+// Signed offline: checked first when broadcasting an imported transaction
+const OFFLINE_SIGNATURE_ERRORS: TxErrorMapping[] = [
+  {
+    match: ['account sequence mismatch', 'incorrect account sequence'],
+    message: 'The account sent another transaction after this one was exported. Export the transaction again and sign the new file.',
+  },
+  {
+    match: ['signature verification failed'],
+    message: 'Signature verification failed. Make sure the file was signed for this network with the account number and sequence shown at export.',
+  },
+]
+
+// Wallet signer, or an offline account whose transactions are exported unsigned
+export type TxSigner = DirectSigner | OfflineAccount
+
+// Shape of the commit-mode broadcast response fields we inspect
+interface BroadcastTxResult {
+  txResult?: { code: number; log?: string; codespace?: string }
+}
+
+// Finalized transaction as reported by the signer once it is included in a block
+type FinalizedTxResponse = Awaited<ReturnType<Awaited<ReturnType<DirectSigner['broadcast']>>['wait']>>
+
+// A transaction that was broadcast and included in a block
+export interface TxResult {
+  transactionHash: string
+  rawLog?: string
+  txResponse?: FinalizedTxResponse
+}
+
+export interface TxOptions {
+  // Called whenever the pipeline enters a stage, e.g. to show progress in the UI
+  onStage?: (stage: TxStage) => void
+  memo?: string
+  // Asked for the fee after simulation, before the wallet prompt; resolving null cancels.
+  // Without it the stored fee tier and the simulated (or fallback) gas limit are used.
+  confirmFee?: (estimate: FeeEstimate) => Promise<FeeSelection | null>
+}
+
+function isRpcErrorMessage(message: string) {
+  return rpcErrorIndicators.some((indicator) => message.includes(indicator))
+}
+
+function extractRpcErrorDetails(error: any, fallbackMessage: string, rawMessage: string) {
+  let detailedError = fallbackMessage
+  let code = error?.code
+  const responseData = error?.response?.data
+
+  if (responseData) {
+    try {
+      const parsed = typeof responseData === 'string' ? JSON.parse(responseData) : responseData
+      detailedError = parsed?.message || parsed?.error || detailedError
+      if (parsed?.code && !code) {
+        code = parsed.code
+      }
+    } catch {
+      // Keep fallback message when response data isn't JSON
+    }
+  }
+
+  if (error?.data?.message) {
+    detailedError = error.data.message
+  }
+
+  if (error?.cause?.message) {
+    detailedError = error.cause.message
+  }
+
+  // Check for transaction hash in multiple places
+  const txHash =
+    rawMessage.match(/0x[a-fA-F0-9]{64}/)?.[0] ||
+    rawMessage.match(/[a-fA-F0-9]{64}/)?.[0] || // Also check for hex without 0x prefix
+    error?.txHash ||
+    error?.transactionHash ||
+    error?.data?.txHash ||
+    error?.response?.data?.txHash ||
+    error?.response?.data?.tx_response?.txhash ||
+    error?.response?.data?.txhash ||
+    error?.cause?.txHash ||
+    error?.cause?.transactionHash
+
+  return {
+    detailedError,
+    code,
+    txHash,
+  }
+}
+
+function logRpcError(error: any) {
+  console.error('RPC Error details:', {
+    message: error?.message,
+    code: error?.code,
+    data: error?.data,
+    response: error?.response,
+    stack: error?.stack,
+    cause: error?.cause,
+    txHash: error?.txHash,
+    transactionHash: error?.transactionHash,
+  })
+}
+
+function buildRpcErrorMessage(error: any, errorMsg: string) {
+  const { detailedError, code, txHash } = extractRpcErrorDetails(error, errorMsg, errorMsg)
+
+  if (txHash) {
+    return (
+      `Transaction signed and broadcast, but RPC returned an error. ` +
+      `Transaction hash: ${txHash}. ` +
+      `Please check your wallet or explorer to confirm the transaction status. ` +
+      `Error: ${detailedError}`
+    )
+  }
+
+  return (
+    `RPC endpoint error during broadcast. ` +
+    `The transaction may have been signed successfully. ` +
+    `Please check your wallet transaction history or try again. ` +
+    `Error: ${detailedError} ` +
+    `(Code: ${code || 'unknown'})`
+  )
+}
+
+/**
+ * Simulates the transaction with the wallet signer and returns the gas used
+ */
+async function simulateWithSigner(
+  signer: any, // DirectSigner
+  messages: EncodeObject[],
+  memo: string
+): Promise<bigint> {
+  // Get account info for simulation
+  const account = await signer.getAccount()
+  
+  // Build the transaction body for simulation
+  // We need to create a temporary transaction body without actually signing
+  const txBody = await signer.buildTxBody({
+    messages,
+    memo,
+  })
+  
+  // Create signer info for simulation (without actual signature)
+  const signerInfo = {
+    publicKey: account.pubkey,
+    modeInfo: { single: { mode: 1 } }, // SIGN_MODE_DIRECT = 1
+    sequence: account.sequence,
+  }
+  
+  // Simulate the transaction
+  const simulation = await signer.simulateByTxBody(txBody, [signerInfo])
+  
+  if (!simulation.gasInfo || !simulation.gasInfo.gasUsed) {
+    throw new Error('Gas estimation failed: No gas info returned')
+  }
+  
+  return BigInt(simulation.gasInfo.gasUsed)
+}
+
+/**
+ * Estimates gas for a transaction by simulating it
+ * Returns the estimated gas multiplied by GAS_MULTIPLIER for safety, or the simulation error
+ */
+async function estimateGas(simulate: () => Promise<bigint>): Promise<FeeEstimate> {
+  try {
+    const estimatedGas = await simulate()
+    const gasWithMultiplier = (estimatedGas * BigInt(Math.floor(GAS_MULTIPLIER * 100))) / BigInt(100)
+    
+    console.log('[GAS ESTIMATION]', {
+      estimated: estimatedGas.toString(),
+      withMultiplier: gasWithMultiplier.toString(),
+      multiplier: GAS_MULTIPLIER,
+    })
+    
+    return { gasLimit: gasWithMultiplier.toString() }
+  } catch (error: any) {
+    console.warn('[GAS ESTIMATION] Failed to estimate gas:', error?.message)
+    return { gasLimit: null, simulationError: error?.message || String(error) }
+  }
+}
+
+/**
+ * The fee to sign with: confirmed by the user if `confirmFee` is given, otherwise the
+ * stored tier's gas price with the simulated gas limit (or a higher fallback limit)
+ */
+async function selectFee(estimate: FeeEstimate, options: TxOptions): Promise<FeeSelection> {
+  if (options.confirmFee) {
+    options.onStage?.('fee')
+    const selection = await options.confirmFee(estimate)
+    if (!selection) {
+      throw new Error('Transaction was cancelled.')
+    }
+    return selection
+  }
+
+  const { tier, customGasPrice } = getStoredFeePreference()
+  return {
+    tier,
+    gasPrice: getGasPrice(tier, customGasPrice),
+    gasLimit: estimate.gasLimit ?? FALLBACK_GAS_LIMIT,
+  }
+}
+
+/**
+ * Turns a simulate/sign/broadcast/confirm error into a user-facing one: `extraMappings`, wallet
+ * rejections, the registered mappings of the transaction's message types, insufficient funds, then RPC errors
+ */
+function mapTxError(
+  error: unknown,
+  messages: readonly EncodeObject[],
+  extraMappings: TxErrorMapping[] = []
+): unknown {
+  const errorMsg = error instanceof Error ? error.message : String(error)
+  const mapping = [...extraMappings, REJECTED_ERROR, ...getErrorMappings(messages), INSUFFICIENT_FUNDS_ERROR].find(
+    (candidate) => candidate.match.some((match) => errorMsg.includes(match))
+  )
+  if (mapping) {
+    return new Error(mapping.message)
+  }
+
+  // The transaction might have been signed but broadcast failed
+  if (isRpcErrorMessage(errorMsg)) {
+    logRpcError(error)
+    return new Error(buildRpcErrorMessage(error, errorMsg))
+  }
+
+  return error
+}
+
+function assertTxResultSucceeded(broadcastResponse: BroadcastTxResult | undefined) {
+  if (broadcastResponse && 'txResult' in broadcastResponse) {
+    const txResult = broadcastResponse.txResult
+    if (txResult && txResult.code !== 0) {
+      // Transaction failed in deliverTx - extract the error log
+      const errorLog = txResult.log || `Transaction failed with code ${txResult.code} (codespace: ${txResult.codespace || 'unknown'})`
+      throw new Error(errorLog)
+    }
+  }
+}
+
+/**
+ * Sends `messages` in one transaction: build (schema validation) → simulate (gas) →
+ * fee (gas limit × gas price, see TxOptions.confirmFee) → sign → broadcast → confirm (wait for the block).
+ * Every message type must be registered in tx-messages; its chain errors are mapped to user-facing messages.
+ * Resolves with the broadcast result plus the finalized `txResponse` and its `rawLog`.
+ * With an OfflineAccount the transaction is not signed: after the fee stage it resolves with
+ * the unsigned transaction to export (see isUnsignedTxExport).
+ */
+export async function runTransaction(
+  signer: TxSigner,
+  messages: EncodeObject[],
+  options: TxOptions = {}
+): Promise<TxResult | UnsignedTxExport> {
+  const { onStage, memo = '' } = options
+  const typeUrls = messages.map((message) => message.typeUrl)
+
+  onStage?.('build')
+  if (messages.length === 0) {
+    throw new Error('Nothing to send')
+  }
+  // Validation errors are already user-facing, so they are not mapped
+  validateMessages(messages)
+
+  try {
+    onStage?.('simulate')
+    if (isOfflineAccount(signer)) {
+      const details = await fetchOfflineAccountDetails(signer)
+      const estimate = await estimateGas(() => simulateOfflineTransaction(signer, details, messages, memo))
+      const selection = await selectFee(estimate, options)
+
+      onStage?.('export')
+      const unsignedTx = buildUnsignedTx(signer, details, messages, computeFee(selection.gasLimit, selection.gasPrice), memo)
+      console.log('[TX PIPELINE] Exported unsigned transaction:', { typeUrls, tier: selection.tier, sequence: details.sequence })
+      return unsignedTx
+    }
+
+    const estimate = await estimateGas(() => simulateWithSigner(signer, messages, memo))
+    const selection = await selectFee(estimate, options)
+    const fee = computeFee(selection.gasLimit, selection.gasPrice)
+    console.log('[TX PIPELINE] Built transaction:', { typeUrls, tier: selection.tier, fee })
+
+    onStage?.('sign')
+    const signed = await signer.sign({ messages, fee, memo })
+
+    onStage?.('broadcast')
+    const result = await signer.broadcast(signed, broadcastOptions)
+    console.log('[TX PIPELINE] Broadcast:', {
+      typeUrls,
+      transactionHash: result.transactionHash,
+    })
+
+    // For commit mode, check the broadcastResponse first
+    // It contains checkTx and txResult which tell us if the transaction failed
+    const broadcastResponse = result.broadcastResponse as BroadcastTxResult | undefined
+    assertTxResultSucceeded(broadcastResponse)
+
+    // Wait for transaction to be finalized in a block
+    // The wait() method polls until the transaction is included and returns the final TxResponse
+    onStage?.('confirm')
+    let txResponse
+    try {
+      txResponse = await result.wait(60000, 2000) // 60s timeout, poll every 2s
+    } catch (waitError) {
+      // If wait fails but we have a broadcastResponse with txResult, use that
+      assertTxResultSucceeded(broadcastResponse)
+      throw waitError
+    }
+
+    console.log('[TX PIPELINE] Finalized:', {
+      typeUrls,
+      transactionHash: result.transactionHash,
+      code: txResponse.code,
+      height: txResponse.height,
+    })
+
+    // Check if transaction actually succeeded (code 0 = success)
+    if (txResponse.code !== 0) {
+      const errorMsg = txResponse.rawLog || `Transaction failed with code ${txResponse.code}`
+      throw new Error(errorMsg)
+    }
+
+    return {
+      ...result,
+      txResponse, // Include the finalized tx response
+      rawLog: txResponse.rawLog, // Include raw log for display
+    }
+  } catch (error) {
+    throw mapTxError(error, messages)
+  }
+}
+
+/**
+ * Broadcasts a transaction signed offline (see parseSignedTx) through InjectiveService and
+ * waits for it to be included in a block
+ */
+export async function broadcastSignedTransaction(
+  network: Network,
+  signed: SignedTxImport,
+  options: Pick<TxOptions, 'onStage'> = {}
+): Promise<TxResult> {
+  const typeUrls = signed.messages.map((message) => message.typeUrl)
+
+  try {
+    options.onStage?.('broadcast')
+    const txResponse = await new InjectiveService(network).broadcastTransaction(signed.txRaw)
+    console.log('[TX PIPELINE] Broadcast signed transaction:', {
+      typeUrls,
+      transactionHash: txResponse.txHash,
+      code: txResponse.code,
+    })
+
+    if (txResponse.code !== 0) {
+      throw new Error(txResponse.rawLog || `Transaction failed with code ${txResponse.code}`)
+    }
+
+    return {
+      transactionHash: txResponse.txHash,
+      rawLog: txResponse.rawLog,
+    }
+  } catch (error) {
+    throw mapTxError(error, signed.messages, OFFLINE_SIGNATURE_ERRORS)
+  }
+}
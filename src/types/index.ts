@@ -16,18 +16,37 @@ export interface ValidatorInfo {
   jailed: boolean
   tokens: string
   delegatorShares: string
-  slashingInfo?: {
-    missedBlocksCounter: string
-    tombstoned: boolean
-    jailedUntil?: string
-  }
-  slashingParams?: {
-    signedBlocksWindow: string
-    minSignedPerWindow: string
-    downtimeJailDuration: string
-    slashFractionDoubleSign: string
-    slashFractionDowntime: string
-  }
+  slashingInfo?: SlashingSigningInfo
+  slashingParams?: SlashingParams
+}
+
+export interface SlashingSigningInfo {
+  consensusAddress: string // injvalcons...
+  missedBlocksCounter: string
+  tombstoned: boolean
+  jailedUntil?: string
+}
+
+export interface SlashingParams {
+  signedBlocksWindow: string
+  minSignedPerWindow: string
+  downtimeJailDuration: string
+  slashFractionDoubleSign: string
+  slashFractionDowntime: string
+}
+
+export interface BlockHeaderInfo {
+  height: number
+  time: string
+  proposerAddress?: string
+}
+
+export interface BlockSignatures {
+  height: number
+  time: string
+  proposerHex: string
+  // Consensus addresses (uppercase hex) whose commit signature for the previous height is included in this block
+  signersHex: string[]
 }
 
 export interface OrchestratorMapping {
@@ -36,6 +55,42 @@ export interface OrchestratorMapping {
   ethereumAddress: string
 }
 
+export interface PeggyValset {
+  nonce: number
+  height?: string
+}
+
+export interface PeggyBatch {
+  nonce: number
+  tokenContract: string
+  timeout?: string
+  transactionCount: number
+}
+
+export interface OrchestratorEventNonce {
+  validatorAddress: string
+  orchestratorAddress: string
+  // Nonce of the last Ethereum event this orchestrator submitted a claim for
+  eventNonce: number
+}
+
+// Raw peggy state relevant to one orchestrator, see utils/peggy.ts
+export interface OrchestratorPeggyState {
+  latestValsetNonce: number
+  // Valsets the orchestrator has not signed yet
+  pendingValsets: PeggyValset[]
+  // Outgoing batches the orchestrator has not signed yet
+  pendingBatches: PeggyBatch[]
+  orchestratorEventNonce: number
+}
+
+// Parts of the peggy module state used here; the full state is genesis-sized on mainnet
+export interface PeggyModuleState {
+  // Nonce of the last Ethereum event the validator set attested to
+  lastObservedEventNonce: number
+  orchestrators: OrchestratorMapping[]
+}
+
 export interface DelegationInfo {
   delegatorAddress: string
   validatorAddress: string
@@ -57,20 +112,117 @@ export interface UnbondingDelegation {
   }>
 }
 
+export interface Redelegation {
+  delegatorAddress: string
+  sourceValidatorAddress: string
+  destinationValidatorAddress: string
+  entries: Array<{
+    creationHeight: string
+    completionTime: string
+    initialBalance: string
+    balance: string
+  }>
+}
+
+export type VoteOption =
+  | 'VOTE_OPTION_YES'
+  | 'VOTE_OPTION_ABSTAIN'
+  | 'VOTE_OPTION_NO'
+  | 'VOTE_OPTION_NO_WITH_VETO'
+
+export interface WeightedVoteOption {
+  option: VoteOption
+  weight: string // Decimal, all weights of a vote add up to 1
+}
+
+export interface GovTally {
+  yes: string
+  abstain: string
+  no: string
+  noWithVeto: string
+}
+
+export interface GovProposal {
+  id: string
+  title: string
+  summary?: string
+  status: string // PROPOSAL_STATUS_*
+  messageTypes: string[]
+  submitTime?: string
+  votingStartTime?: string
+  votingEndTime?: string
+  // Final once voting has ended; zero while the proposal is still being voted on
+  finalTally?: GovTally
+}
+
+export interface GovVote {
+  proposalId: string
+  voter: string
+  options: WeightedVoteOption[]
+}
+
+export interface AuthzGrant {
+  granter: string
+  grantee: string
+  authorizationType: string // e.g. /cosmos.authz.v1beta1.GenericAuthorization
+  // Message type the grant allows: the `msg` of a GenericAuthorization, or derived from a StakeAuthorization's type
+  msgTypeUrl?: string
+  expiration?: string
+}
+
+// Stages of the transaction pipeline (services/tx-pipeline.ts), in order
+// 'export' replaces sign/broadcast/confirm for offline accounts
+export type TxStage = 'build' | 'simulate' | 'fee' | 'sign' | 'export' | 'broadcast' | 'confirm'
+
+export type FeeTier = 'low' | 'average' | 'high' | 'custom'
+
+// Result of the simulate stage, shown for review before signing
+export interface FeeEstimate {
+  gasLimit: string | null // Simulated gas with safety margin, null if the simulation failed
+  simulationError?: string
+}
+
+// Fee confirmed for a transaction; gasPrice in inj per gas unit
+export interface FeeSelection {
+  tier: FeeTier
+  gasPrice: string
+  gasLimit: string
+}
+
 export interface TransactionStatus {
-  status: 'idle' | 'pending' | 'success' | 'error' | 'warning' | 'info'
+  status: 'idle' | 'pending' | 'success' | 'error' | 'warning' | 'info' | 'exported'
+  stage?: TxStage // Pipeline stage of a pending transaction
   hash?: string
   error?: string
   warning?: string // Warning message
   info?: string // Info message
   rawLog?: string // Raw transaction log from the chain
+  exportFile?: string // Unsigned transaction file of an offline account
+  signCommand?: string // Command that signs exportFile on the offline machine
+  multisig?: boolean // exportFile is signed by the members of a multisig
 }
 
-export type Network = 'mainnet' | 'testnet'
+export type BuiltinNetwork = 'mainnet' | 'testnet'
 
-export interface ChainConfig {
+export type CustomNetworkId = `custom-${string}`
+
+export type Network = BuiltinNetwork | CustomNetworkId
+
+export interface CustomNetworkConfig {
+  id: CustomNetworkId
+  name: string
   chainId: string
   rpc: string
   rest: string
+  explorer?: string
+}
+
+export interface ChainConfig {
+  name: string
+  chainId: string
+  rpc: string[] // Ordered by preference, see services/endpoints.ts
+  rest: string[]
+  grpc?: string
+  explorer?: string
   bech32Prefix: string
 }
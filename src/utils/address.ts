@@ -1,4 +1,5 @@
-import { fromBech32, toBech32 } from '@cosmjs/encoding'
+import { fromBase64, fromBech32, fromHex, toAscii, toBech32, toHex } from '@cosmjs/encoding'
+import { keccak256, ripemd160, Secp256k1, sha256 } from '@cosmjs/crypto'
 
 export function isValidBech32Address(address: string, prefix: string): boolean {
   try {
@@ -26,23 +27,111 @@ export function toValidatorOperatorAddress(address: string): string {
   return toBech32('injvaloper', decoded.data)
 }
 
+export function toAccountAddress(address: string): string {
+  if (isValidInjectiveAddress(address)) {
+    return address
+  }
+
+  const decoded = fromBech32(address)
+  return toBech32('inj', decoded.data)
+}
+
 export function isValidEthereumAddress(address: string): boolean {
   // Ethereum address: 0x followed by 40 hex characters
   const ethAddressRegex = /^0x[a-fA-F0-9]{40}$/
   if (!ethAddressRegex.test(address)) {
     return false
   }
-  
-  // Optional: validate checksum
-  return true
+
+  // All-lowercase or all-uppercase addresses carry no checksum (EIP-55)
+  const hex = address.slice(2)
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true
+  }
+  return toChecksumAddress(address) === address
 }
 
+/**
+ * EIP-55 mixed-case checksum encoding of an Ethereum address.
+ * Returns the input unchanged if it is not a 0x-prefixed 20-byte hex address.
+ */
 export function toChecksumAddress(address: string): string {
-  if (!isValidEthereumAddress(address)) {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
     return address
   }
-  
-  // Simple checksum implementation
-  // For production, use a proper checksum library
-  return address
+
+  const hex = address.slice(2).toLowerCase()
+  // Each nibble of keccak256(lowercase hex) >= 8 uppercases the character at the same position
+  const hash = toHex(keccak256(toAscii(hex)))
+  let checksummed = '0x'
+  for (let i = 0; i < hex.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i]
+  }
+  return checksummed
+}
+
+/**
+ * Injective accounts are Ethereum keys: an `inj` address and a `0x` address are the same 20 bytes.
+ * Accepts any bech32 prefix (inj, injvaloper) and returns the checksummed 0x form.
+ */
+export function toEthereumAddress(address: string): string {
+  return toChecksumAddress(`0x${toHex(fromBech32(address).data)}`)
+}
+
+/**
+ * `inj` address of a 0x Ethereum address
+ */
+export function toInjectiveAddress(ethereumAddress: string, prefix = 'inj'): string {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(ethereumAddress)) {
+    throw new Error('Invalid Ethereum address format')
+  }
+  return toBech32(prefix, fromHex(ethereumAddress.slice(2)))
+}
+
+/**
+ * Whether two addresses in either form (inj bech32 or 0x) refer to the same account
+ */
+export function isSameAccount(a: string, b: string): boolean {
+  try {
+    const toBytes = (address: string) => address.startsWith('0x')
+      ? address.slice(2).toLowerCase()
+      : toHex(fromBech32(address).data)
+    return toBytes(a) === toBytes(b)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Both forms of an account address given in either form, or null if it is neither
+ */
+export function getAddressForms(address: string): { injective: string; ethereum: string } | null {
+  try {
+    if (address.startsWith('0x')) {
+      return { injective: toInjectiveAddress(address), ethereum: toChecksumAddress(address) }
+    }
+    return { injective: toAccountAddress(address), ethereum: toEthereumAddress(address) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * `inj` address of an account public key given as proto3 JSON type and base64 key:
+ * keccak256 of the uncompressed key for eth_secp256k1, RIPEMD160(SHA256) for cosmos secp256k1.
+ * Returns null for other key types.
+ */
+export function pubKeyToAddress(type: string, key: string, prefix = 'inj'): string | null {
+  try {
+    if (type === '/injective.crypto.v1beta1.ethsecp256k1.PubKey') {
+      const uncompressed = Secp256k1.uncompressPubkey(fromBase64(key))
+      return toBech32(prefix, keccak256(uncompressed.slice(1)).slice(-20))
+    }
+    if (type === '/cosmos.crypto.secp256k1.PubKey') {
+      return toBech32(prefix, ripemd160(sha256(fromBase64(key))))
+    }
+  } catch {
+    // Not a valid compressed key
+  }
+  return null
 }
@@ -0,0 +1,60 @@
+import { AuthzGrant } from '../types'
+
+export const GENERIC_AUTHORIZATION_TYPE = '/cosmos.authz.v1beta1.GenericAuthorization'
+export const STAKE_AUTHORIZATION_TYPE = '/cosmos.staking.v1beta1.StakeAuthorization'
+
+export type StakeAuthorizationType =
+  | 'AUTHORIZATION_TYPE_DELEGATE'
+  | 'AUTHORIZATION_TYPE_UNDELEGATE'
+  | 'AUTHORIZATION_TYPE_REDELEGATE'
+
+// A StakeAuthorization allows one staking message, limited to allow-listed validators and optionally a token cap
+export const STAKE_AUTHORIZATIONS: Array<{ type: StakeAuthorizationType; value: number; msgTypeUrl: string; label: string }> = [
+  { type: 'AUTHORIZATION_TYPE_DELEGATE', value: 1, msgTypeUrl: '/cosmos.staking.v1beta1.MsgDelegate', label: 'Delegate' },
+  { type: 'AUTHORIZATION_TYPE_UNDELEGATE', value: 2, msgTypeUrl: '/cosmos.staking.v1beta1.MsgUndelegate', label: 'Undelegate' },
+  { type: 'AUTHORIZATION_TYPE_REDELEGATE', value: 3, msgTypeUrl: '/cosmos.staking.v1beta1.MsgBeginRedelegate', label: 'Redelegate' },
+]
+
+export function getStakeAuthorization(type: string | undefined) {
+  return STAKE_AUTHORIZATIONS.find((authorization) => authorization.type === type)
+}
+
+// Operator actions a hot key can be allowed to perform on the validator's behalf
+export const AUTHZ_PRESETS: Array<{ msgTypeUrl: string; label: string }> = [
+  { msgTypeUrl: '/cosmos.gov.v1.MsgVote', label: 'Vote' },
+  { msgTypeUrl: '/cosmos.gov.v1.MsgVoteWeighted', label: 'Weighted vote' },
+  { msgTypeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission', label: 'Withdraw commission' },
+  { msgTypeUrl: '/cosmos.slashing.v1beta1.MsgUnjail', label: 'Unjail' },
+]
+
+/**
+ * Human readable name of a grant, e.g. "Unjail", "MsgDelegate" for non-preset generic grants
+ * or "Delegate (StakeAuthorization)"
+ */
+export function describeGrant(grant: AuthzGrant): string {
+  if (grant.authorizationType === STAKE_AUTHORIZATION_TYPE) {
+    const stake = STAKE_AUTHORIZATIONS.find((authorization) => authorization.msgTypeUrl === grant.msgTypeUrl)
+    return `${stake?.label ?? 'Staking'} (StakeAuthorization)`
+  }
+  if (grant.authorizationType !== GENERIC_AUTHORIZATION_TYPE || !grant.msgTypeUrl) {
+    return grant.authorizationType.split('.').pop() ?? grant.authorizationType
+  }
+  const preset = AUTHZ_PRESETS.find((candidate) => candidate.msgTypeUrl === grant.msgTypeUrl)
+  return preset?.label ?? grant.msgTypeUrl.split('.').pop() ?? grant.msgTypeUrl
+}
+
+export function isGrantExpired(grant: AuthzGrant, now = Date.now()): boolean {
+  return !!grant.expiration && Date.parse(grant.expiration) <= now
+}
+
+/**
+ * Whether `grants` contain an unexpired generic grant for `msgTypeUrl`
+ */
+export function hasGenericGrant(grants: AuthzGrant[], msgTypeUrl: string): boolean {
+  return grants.some(
+    (grant) =>
+      grant.authorizationType === GENERIC_AUTHORIZATION_TYPE &&
+      grant.msgTypeUrl === msgTypeUrl &&
+      !isGrantExpired(grant)
+  )
+}
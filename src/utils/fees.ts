@@ -0,0 +1,82 @@
+/**
+ * Fee tiers and fee calculation: fee = gas limit × gas price, paid in inj
+ * The last chosen tier is kept in localStorage and preselected for the next transaction
+ */
+
+import { z } from 'zod'
+import type { StdFee } from '@interchainjs/types'
+import { INJ_GAS_PRICES } from '../config/chains'
+import { FeeTier } from '../types'
+
+const FEE_PREFERENCE_KEY = 'fee_preference'
+
+// Gas limit suggested when the simulation fails
+export const FALLBACK_GAS_LIMIT = '500000'
+
+export const FEE_TIERS: { tier: FeeTier; label: string }[] = [
+  { tier: 'low', label: 'Low' },
+  { tier: 'average', label: 'Average' },
+  { tier: 'high', label: 'High' },
+  { tier: 'custom', label: 'Custom' },
+]
+
+export interface FeePreference {
+  tier: FeeTier
+  customGasPrice: string
+}
+
+const DEFAULT_FEE_PREFERENCE: FeePreference = {
+  tier: 'average',
+  customGasPrice: INJ_GAS_PRICES.average.toString(),
+}
+
+const storedFeePreferenceSchema = z.object({
+  tier: z.enum(['low', 'average', 'high', 'custom']),
+  customGasPrice: z.string().regex(/^\d+$/),
+})
+
+/**
+ * Gas price of a tier in inj per gas unit; the custom tier uses `customGasPrice`
+ */
+export function getGasPrice(tier: FeeTier, customGasPrice: string): string {
+  return tier === 'custom' ? customGasPrice : INJ_GAS_PRICES[tier].toString()
+}
+
+/**
+ * Fee for `gasLimit` gas at `gasPrice` inj per gas unit
+ */
+export function computeFee(gasLimit: string, gasPrice: string): StdFee {
+  return {
+    amount: [{ denom: 'inj', amount: (BigInt(gasLimit) * BigInt(gasPrice)).toString() }],
+    gas: gasLimit,
+  }
+}
+
+/**
+ * Get the last confirmed fee tier, or the average tier
+ */
+export function getStoredFeePreference(): FeePreference {
+  try {
+    const stored = localStorage.getItem(FEE_PREFERENCE_KEY)
+    if (!stored) {
+      return DEFAULT_FEE_PREFERENCE
+    }
+
+    const result = storedFeePreferenceSchema.safeParse(JSON.parse(stored))
+    return result.success ? result.data : DEFAULT_FEE_PREFERENCE
+  } catch (error) {
+    console.error('[FeeStorage] Error reading fee preference:', error)
+    return DEFAULT_FEE_PREFERENCE
+  }
+}
+
+/**
+ * Persist the confirmed fee tier
+ */
+export function setStoredFeePreference(preference: FeePreference): void {
+  try {
+    localStorage.setItem(FEE_PREFERENCE_KEY, JSON.stringify(preference))
+  } catch (error) {
+    console.error('[FeeStorage] Error writing fee preference:', error)
+  }
+}
@@ -22,7 +22,7 @@ export function formatTokenAmount(amount: string, decimals: number = 18, display
 
   // Convert string to BigInt for precision
   const amountBigInt = BigInt(amountStr)
-  const divisor = BigInt(10 ** decimals)
+  const divisor = 10n ** BigInt(decimals)
   
   // Calculate integer and fractional parts
   const integerPart = amountBigInt / divisor
@@ -43,10 +43,10 @@ export function formatTokenAmount(amount: string, decimals: number = 18, display
     return integerPart.toString()
   }
   
-  // Take digits from first non-zero up to displayDecimals digits total
+  // Keep the leading zeros and take displayDecimals digits from the first non-zero one
   // This ensures we show the most significant digits
   const endIndex = Math.min(firstNonZeroIndex + displayDecimals, decimals)
-  const displayFractional = fractionalStr.substring(firstNonZeroIndex, endIndex)
+  const displayFractional = fractionalStr.substring(0, endIndex)
   
   // Remove trailing zeros, but keep at least one digit
   const trimmedFractional = displayFractional.replace(/0+$/, '') || displayFractional[0]
@@ -57,3 +57,71 @@ export function formatTokenAmount(amount: string, decimals: number = 18, display
   
   return `${integerPart}.${trimmedFractional}`
 }
+
+/**
+ * Format a token amount from its smallest unit with full precision, e.g. to prefill an amount input
+ * @param amount - The amount as a string (e.g., "1500000000000000001" for 1.500000000000000001 INJ)
+ * @param decimals - Number of decimal places (default: 18 for INJ)
+ * @returns Exact decimal string without trailing zeros (e.g., "1.500000000000000001")
+ */
+export function formatTokenAmountExact(amount: string, decimals: number = 18): string {
+  // Decimal strings (e.g. "110000000000000000.000000000000000000") only carry zeros after the point
+  const amountBigInt = BigInt(amount.trim().split('.')[0] || '0')
+  const divisor = 10n ** BigInt(decimals)
+  const integerPart = amountBigInt / divisor
+  const fractionalStr = (amountBigInt % divisor).toString().padStart(decimals, '0').replace(/0+$/, '')
+
+  return fractionalStr ? `${integerPart}.${fractionalStr}` : integerPart.toString()
+}
+
+/**
+ * Convert a human-readable token amount to its smallest unit without floating point rounding
+ * @param amount - Decimal string (e.g., "1.5" for 1.5 INJ)
+ * @param decimals - Number of decimal places (default: 18 for INJ)
+ * @returns The amount in the smallest unit (e.g., "1500000000000000000")
+ * @throws If the amount is not a non-negative decimal number or has more than `decimals` fractional digits
+ */
+export function parseTokenAmount(amount: string, decimals: number = 18): string {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d*))?$/)
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid amount: "${amount}"`)
+  }
+
+  const integerPart = match[1] || '0'
+  // Trailing zeros don't add precision
+  const fractionalPart = (match[2] ?? '').replace(/0+$/, '')
+  if (fractionalPart.length > decimals) {
+    throw new Error(`Amount cannot have more than ${decimals} decimal places`)
+  }
+
+  const base = BigInt(integerPart) * 10n ** BigInt(decimals) + BigInt(fractionalPart.padEnd(decimals, '0') || '0')
+  return base.toString()
+}
+
+/**
+ * Convert a configured token amount (a number, e.g. from branding.json) to its smallest unit
+ * @param amount - Non-negative amount (e.g., 1.5 for 1.5 INJ)
+ * @param decimals - Number of decimal places (default: 18 for INJ)
+ * @returns The amount in the smallest unit, rounded to `decimals` places
+ */
+export function numberToTokenAmount(amount: number, decimals: number = 18): string {
+  // Plain notation, String() would give e.g. "1e-7"
+  const plain = amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: decimals })
+  return parseTokenAmount(plain, decimals)
+}
+
+/**
+ * Formats a duration as e.g. "2h 15m" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${seconds}s`
+  return `${seconds}s`
+}
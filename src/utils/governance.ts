@@ -0,0 +1,16 @@
+import { VoteOption } from '../types'
+
+export const VOTE_OPTION_LABELS: Record<VoteOption, string> = {
+  VOTE_OPTION_YES: 'Yes',
+  VOTE_OPTION_NO: 'No',
+  VOTE_OPTION_ABSTAIN: 'Abstain',
+  VOTE_OPTION_NO_WITH_VETO: 'No With Veto',
+}
+
+/**
+ * Converts a vote percentage with up to two decimals to a weight, e.g. "33.33" -> "0.3333"
+ */
+export function percentToVoteWeight(percent: string): string {
+  const hundredths = Math.round((parseFloat(percent) || 0) * 100)
+  return `${Math.floor(hundredths / 10000)}.${String(hundredths % 10000).padStart(4, '0')}`
+}
@@ -0,0 +1,78 @@
+/**
+ * Persistence for the selected network and user-defined custom networks
+ * Uses localStorage so the choice survives reloads
+ */
+
+import { z } from 'zod'
+import { CustomNetworkConfig } from '../types'
+import { customNetworkSchema } from './validation'
+
+const SELECTED_NETWORK_KEY = 'selected_network'
+const CUSTOM_NETWORKS_KEY = 'custom_networks'
+
+const storedCustomNetworksSchema = z.array(
+  customNetworkSchema.extend({
+    id: z.string().regex(/^custom-[a-z0-9-]+$/),
+  })
+)
+
+/**
+ * Get the last selected network id
+ */
+export function getStoredNetwork(): string | null {
+  try {
+    return localStorage.getItem(SELECTED_NETWORK_KEY)
+  } catch (error) {
+    console.error('[NetworkStorage] Error reading selected network:', error)
+    return null
+  }
+}
+
+/**
+ * Persist the selected network id
+ */
+export function setStoredNetwork(network: string): void {
+  try {
+    localStorage.setItem(SELECTED_NETWORK_KEY, network)
+  } catch (error) {
+    console.error('[NetworkStorage] Error writing selected network:', error)
+  }
+}
+
+/**
+ * Get all custom networks, dropping entries that no longer pass validation
+ */
+export function getCustomNetworks(): CustomNetworkConfig[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_NETWORKS_KEY)
+    if (!stored) {
+      return []
+    }
+
+    const result = storedCustomNetworksSchema.safeParse(JSON.parse(stored))
+    if (!result.success) {
+      console.warn('[NetworkStorage] Ignoring invalid custom networks:', result.error.issues)
+      return []
+    }
+
+    return result.data.map((network) => ({
+      ...network,
+      id: network.id as CustomNetworkConfig['id'],
+      explorer: network.explorer || undefined,
+    }))
+  } catch (error) {
+    console.error('[NetworkStorage] Error reading custom networks:', error)
+    return []
+  }
+}
+
+/**
+ * Persist the full list of custom networks
+ */
+export function saveCustomNetworks(networks: CustomNetworkConfig[]): void {
+  try {
+    localStorage.setItem(CUSTOM_NETWORKS_KEY, JSON.stringify(networks))
+  } catch (error) {
+    console.error('[NetworkStorage] Error writing custom networks:', error)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Files exchanged with the air-gapped machine: the unsigned transaction is downloaded
+ * as JSON and signed there with `injectived tx sign --offline`. Multisig members exchange
+ * signature files instead.
+ */
+
+import { TransactionStatus } from '../types'
+import type { UnsignedTxExport } from '../services/offline-tx'
+
+function downloadJson(fileName: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * The command that signs the exported file on the offline machine; for a multisig, the command
+ * each member runs to produce their signature file
+ */
+export function getOfflineSignCommand(exported: UnsignedTxExport, fileName: string): string {
+  return [
+    `injectived tx sign ${fileName}`,
+    ...(exported.multisig ? [`--multisig ${exported.address}`, '--sign-mode amino-json'] : []),
+    '--from <key-name>',
+    `--chain-id ${exported.chainId}`,
+    '--offline',
+    `--account-number ${exported.accountNumber}`,
+    `--sequence ${exported.sequence}`,
+    `--output-document ${exported.multisig ? 'signature-<key-name>.json' : 'signed-tx.json'}`,
+  ].join(' ')
+}
+
+/**
+ * Downloads the unsigned transaction and returns the status telling the user how to sign it
+ */
+export function saveUnsignedTx(exported: UnsignedTxExport): TransactionStatus {
+  const fileName = `unsigned-tx-${exported.chainId}-${exported.sequence}.json`
+  downloadJson(fileName, exported.tx)
+  return {
+    status: 'exported',
+    exportFile: fileName,
+    signCommand: getOfflineSignCommand(exported, fileName),
+    multisig: !!exported.multisig,
+  }
+}
+
+/**
+ * Downloads a multisig member's signature file and returns its name
+ */
+export function saveSignatureFile(signatureFile: Record<string, unknown>, memberAddress: string): string {
+  const fileName = `signature-${memberAddress}.json`
+  downloadJson(fileName, signatureFile)
+  return fileName
+}
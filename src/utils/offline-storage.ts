@@ -0,0 +1,36 @@
+/**
+ * Persistence for offline mode: the address of the account whose key is kept offline
+ * Uses localStorage so offline mode survives reloads
+ */
+
+import { isValidInjectiveAddress } from './address'
+
+const OFFLINE_ADDRESS_KEY = 'offline_address'
+
+/**
+ * Get the offline account address, or null when offline mode is off
+ */
+export function getStoredOfflineAddress(): string | null {
+  try {
+    const stored = localStorage.getItem(OFFLINE_ADDRESS_KEY)
+    return stored && isValidInjectiveAddress(stored) ? stored : null
+  } catch (error) {
+    console.error('[OfflineStorage] Error reading offline address:', error)
+    return null
+  }
+}
+
+/**
+ * Persist the offline account address; null turns offline mode off
+ */
+export function setStoredOfflineAddress(address: string | null): void {
+  try {
+    if (address) {
+      localStorage.setItem(OFFLINE_ADDRESS_KEY, address)
+    } else {
+      localStorage.removeItem(OFFLINE_ADDRESS_KEY)
+    }
+  } catch (error) {
+    console.error('[OfflineStorage] Error writing offline address:', error)
+  }
+}
@@ -0,0 +1,129 @@
+import { OrchestratorPeggyState } from '../types'
+import type { QueryService } from '../services/queries'
+import { isSameAccount, toChecksumAddress } from './address'
+import { OrchestratorRegistrationFormData } from './validation'
+
+export type OrchestratorHealthLevel = 'ok' | 'warning' | 'critical'
+
+export interface OrchestratorHealth {
+  latestValsetNonce: number
+  // Highest valset nonce the orchestrator has signed, assuming it signs in order
+  lastConfirmedValsetNonce: number
+  valsetLag: number
+  pendingBatchCount: number
+  lastObservedEventNonce: number
+  orchestratorEventNonce: number
+  // Observed events the orchestrator has not submitted a claim for
+  eventLag: number
+  level: OrchestratorHealthLevel
+  warnings: string[]
+}
+
+// A freshly created valset or batch is usually signed within a few blocks, so a lag of one
+// is only a warning; once it grows this far the orchestrator is most likely stalled
+const CRITICAL_NONCE_LAG = 3
+const CRITICAL_PENDING_BATCHES = 2
+
+function levelFor(lag: number, criticalLag: number): OrchestratorHealthLevel {
+  return lag >= criticalLag ? 'critical' : lag > 0 ? 'warning' : 'ok'
+}
+
+function pluralize(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`
+}
+
+/**
+ * Summarizes how far an orchestrator trails the peggy module.
+ *
+ * Validators are slashed for valsets and batches their orchestrator leaves unsigned
+ * for longer than the `signed_valsets_window` / `signed_batches_window` params.
+ */
+export function computeOrchestratorHealth(
+  state: OrchestratorPeggyState,
+  lastObservedEventNonce: number
+): OrchestratorHealth {
+  const lastConfirmedValsetNonce = state.pendingValsets.length > 0
+    ? state.pendingValsets[0].nonce - 1
+    : state.latestValsetNonce
+  const valsetLag = Math.max(0, state.latestValsetNonce - lastConfirmedValsetNonce)
+  const pendingBatchCount = state.pendingBatches.length
+  // An orchestrator ahead of the observed nonce is waiting for the others, which is fine
+  const eventLag = Math.max(0, lastObservedEventNonce - state.orchestratorEventNonce)
+
+  const warnings: string[] = []
+  if (valsetLag > 0) {
+    warnings.push(`Valset confirmations lagging by ${pluralize(valsetLag, 'nonce')}`)
+  }
+  if (pendingBatchCount > 0) {
+    warnings.push(`${pluralize(pendingBatchCount, 'outgoing batch', 'outgoing batches')} awaiting signature`)
+  }
+  if (eventLag > 0) {
+    warnings.push(`Ethereum event claims lagging by ${pluralize(eventLag, 'nonce')}`)
+  }
+
+  const levels = [
+    levelFor(valsetLag, CRITICAL_NONCE_LAG),
+    levelFor(pendingBatchCount, CRITICAL_PENDING_BATCHES),
+    levelFor(eventLag, CRITICAL_NONCE_LAG),
+  ]
+  const level: OrchestratorHealthLevel = levels.includes('critical')
+    ? 'critical'
+    : levels.includes('warning')
+      ? 'warning'
+      : 'ok'
+
+  return {
+    latestValsetNonce: state.latestValsetNonce,
+    lastConfirmedValsetNonce,
+    valsetLag,
+    pendingBatchCount,
+    lastObservedEventNonce,
+    orchestratorEventNonce: state.orchestratorEventNonce,
+    eventLag,
+    level,
+    warnings,
+  }
+}
+
+/**
+ * Pre-flight checks for MsgSetOrchestratorAddresses. Each returned warning describes
+ * a reason the transaction would be rejected on chain; an empty list means it can be signed.
+ */
+export async function checkOrchestratorRegistration(
+  queryService: QueryService,
+  signerAddress: string,
+  data: OrchestratorRegistrationFormData
+): Promise<string[]> {
+  const warnings: string[] = []
+  if (!isSameAccount(signerAddress, data.validatorAddress)) {
+    warnings.push(`The connected wallet is not the operator account of ${data.validatorAddress}.`)
+  }
+
+  const [validator, existingMapping, orchestratorBinding, ethereumBinding] = await Promise.all([
+    queryService.getValidator(data.validatorAddress),
+    queryService.getOrchestratorMapping(data.validatorAddress),
+    queryService.getOrchestratorByOrchestratorAddress(data.orchestratorAddress),
+    queryService.getOrchestratorByEthAddress(toChecksumAddress(data.ethereumAddress)),
+  ])
+
+  if (!validator) {
+    warnings.push(`No validator exists for ${data.validatorAddress}. Register the validator first.`)
+  }
+  if (existingMapping) {
+    warnings.push(
+      `This validator already has orchestrator ${existingMapping.orchestratorAddress} `
+        + `(${existingMapping.ethereumAddress}) registered. Registrations cannot be changed.`
+    )
+  }
+  if (orchestratorBinding && !isSameAccount(orchestratorBinding.validatorAddress, data.validatorAddress)) {
+    warnings.push(
+      `Orchestrator ${data.orchestratorAddress} is already bound to validator ${orchestratorBinding.validatorAddress}.`
+    )
+  }
+  if (ethereumBinding && !isSameAccount(ethereumBinding.validatorAddress, data.validatorAddress)) {
+    warnings.push(
+      `Ethereum address ${toChecksumAddress(data.ethereumAddress)} is already bound to validator ${ethereumBinding.validatorAddress}.`
+    )
+  }
+  return warnings
+}
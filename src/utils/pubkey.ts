@@ -1,3 +1,5 @@
+import { fromBase64, toBech32, toHex } from '@cosmjs/encoding'
+
 /**
  * Validates if a string is a valid base64-encoded ed25519 public key
  * ed25519 public keys are 32 bytes, so base64 encoded they should be 44 characters
@@ -46,3 +48,31 @@ export function parseDeeplinkPubkey(pubkey: string): { valid: boolean; normalize
   
   return { valid: true, normalized }
 }
+
+/**
+ * Consensus (Tendermint) address bytes of an ed25519 consensus pubkey:
+ * the first 20 bytes of sha256(pubkey)
+ */
+export async function consensusPubkeyToAddressBytes(pubkey: string): Promise<Uint8Array> {
+  const normalized = normalizePubkey(pubkey)
+  if (!isValidEd25519Pubkey(normalized)) {
+    throw new Error('Invalid ed25519 pubkey format. Expected base64-encoded 32-byte key.')
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64(normalized))
+  return new Uint8Array(digest).slice(0, 20)
+}
+
+/**
+ * Consensus address as uppercase hex, the form used in block signatures and by CometBFT RPC
+ */
+export async function toConsensusAddressHex(pubkey: string): Promise<string> {
+  return toHex(await consensusPubkeyToAddressBytes(pubkey)).toUpperCase()
+}
+
+/**
+ * Consensus address in bech32 (injvalcons...), the form used by the slashing module
+ */
+export async function toConsensusAddress(pubkey: string, prefix = 'injvalcons'): Promise<string> {
+  return toBech32(prefix, await consensusPubkeyToAddressBytes(pubkey))
+}
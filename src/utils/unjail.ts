@@ -0,0 +1,73 @@
+import { DelegationInfo, SlashingParams, SlashingSigningInfo, ValidatorInfo } from '../types'
+
+export type UnjailBlocker = 'not-jailed' | 'tombstoned' | 'jail-period' | 'self-delegation'
+
+export interface UnjailEligibility {
+  eligible: boolean
+  blockers: UnjailBlocker[]
+  // When the jail period ends; null when it is unknown
+  jailedUntilMs: number | null
+  // Time left in the jail period, 0 once it has passed
+  remainingMs: number
+  downtimeJailDurationMs: number | null
+  selfDelegation: string // base units
+  minSelfDelegation: string // base units
+}
+
+/**
+ * Parses a protobuf JSON duration such as "600s" or "0.5s"
+ */
+export function parseDurationMs(duration: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(duration.trim())
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null
+}
+
+function integerPart(amount: string): bigint {
+  try {
+    return BigInt(amount.split('.')[0] || '0')
+  } catch {
+    return 0n
+  }
+}
+
+/**
+ * Whether MsgUnjail would currently succeed, mirroring the slashing module's checks:
+ * the validator must be jailed, not tombstoned, past its `jailed_until` time, and its
+ * self-delegation must still cover `min_self_delegation`.
+ */
+export function computeUnjailEligibility(
+  validator: ValidatorInfo,
+  signingInfo: SlashingSigningInfo | null,
+  slashingParams: SlashingParams | null,
+  selfDelegation: DelegationInfo | null,
+  now = Date.now()
+): UnjailEligibility {
+  const blockers: UnjailBlocker[] = []
+  const jailedUntilMs = signingInfo?.jailedUntil ? Date.parse(signingInfo.jailedUntil) : null
+  const remainingMs = jailedUntilMs !== null && !isNaN(jailedUntilMs) ? Math.max(0, jailedUntilMs - now) : 0
+  const selfDelegationAmount = selfDelegation?.balance.amount ?? '0'
+
+  if (!validator.jailed) {
+    blockers.push('not-jailed')
+  }
+  if (signingInfo?.tombstoned) {
+    blockers.push('tombstoned')
+  }
+  // Tombstoned validators are jailed "forever", so the countdown would be meaningless
+  if (validator.jailed && !signingInfo?.tombstoned && remainingMs > 0) {
+    blockers.push('jail-period')
+  }
+  if (integerPart(selfDelegationAmount) < integerPart(validator.minSelfDelegation)) {
+    blockers.push('self-delegation')
+  }
+
+  return {
+    eligible: blockers.length === 0,
+    blockers,
+    jailedUntilMs: jailedUntilMs !== null && !isNaN(jailedUntilMs) ? jailedUntilMs : null,
+    remainingMs,
+    downtimeJailDurationMs: slashingParams ? parseDurationMs(slashingParams.downtimeJailDuration) : null,
+    selfDelegation: selfDelegationAmount,
+    minSelfDelegation: validator.minSelfDelegation,
+  }
+}
@@ -0,0 +1,64 @@
+import { SlashingParams, SlashingSigningInfo } from '../types'
+
+export type UptimeLevel = 'ok' | 'warning' | 'critical'
+
+export interface UptimeSummary {
+  signedBlocksWindow: number
+  missedBlocks: number
+  // Most blocks that can be missed within the window without being jailed
+  maxMissedBlocks: number
+  // How many more blocks can be missed before the next miss jails the validator
+  blocksUntilJail: number
+  uptimePercent: number
+  // Time until jailing if every upcoming block is missed; null without a block time
+  timeToJailMs: number | null
+  level: UptimeLevel
+}
+
+// Share of the allowed misses after which the uptime is flagged
+const WARNING_MISSED_RATIO = 0.5
+const CRITICAL_MISSED_RATIO = 0.8
+
+/**
+ * Uptime within the current slashing window.
+ *
+ * The slashing module jails a validator once it has missed more than
+ * `signed_blocks_window - round(signed_blocks_window * min_signed_per_window)` blocks.
+ */
+export function computeUptime(
+  params: SlashingParams,
+  signingInfo: SlashingSigningInfo,
+  averageBlockTimeMs: number | null,
+  jailed = false
+): UptimeSummary {
+  const signedBlocksWindow = parseInt(params.signedBlocksWindow, 10)
+  const minSignedBlocks = Math.round(signedBlocksWindow * parseFloat(params.minSignedPerWindow))
+  const maxMissedBlocks = signedBlocksWindow - minSignedBlocks
+  const missedBlocks = parseInt(signingInfo.missedBlocksCounter, 10) || 0
+  const blocksUntilJail = Math.max(0, maxMissedBlocks - missedBlocks)
+
+  const uptimePercent = signedBlocksWindow > 0
+    ? ((signedBlocksWindow - missedBlocks) / signedBlocksWindow) * 100
+    : 100
+
+  const timeToJailMs = averageBlockTimeMs !== null
+    ? (blocksUntilJail + 1) * averageBlockTimeMs
+    : null
+
+  const missedRatio = maxMissedBlocks > 0 ? missedBlocks / maxMissedBlocks : 0
+  const level: UptimeLevel = jailed || signingInfo.tombstoned || missedRatio >= CRITICAL_MISSED_RATIO
+    ? 'critical'
+    : missedRatio >= WARNING_MISSED_RATIO
+      ? 'warning'
+      : 'ok'
+
+  return {
+    signedBlocksWindow,
+    missedBlocks,
+    maxMissedBlocks,
+    blocksUntilJail,
+    uptimePercent,
+    timeToJailMs,
+    level,
+  }
+}
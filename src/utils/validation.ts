@@ -1,6 +1,13 @@
 import { z } from 'zod'
-import { isValidInjectiveAddress, isValidEthereumAddress, isValidValidatorOperatorAddress } from './address'
+import {
+  isSameAccount,
+  isValidInjectiveAddress,
+  isValidEthereumAddress,
+  isValidValidatorOperatorAddress,
+  toEthereumAddress,
+} from './address'
 import { isValidEd25519Pubkey } from './pubkey'
+import { parseTokenAmount } from './format'
 
 export const consensusPubkeySchema = z.string().refine(
   (val) => isValidEd25519Pubkey(val),
@@ -18,18 +25,27 @@ export const validatorOperatorAddressSchema = z.string().refine(
 )
 
 export const ethereumAddressSchema = z.string().refine(
-  (val) => isValidEthereumAddress(val),
+  (val) => /^0x[a-fA-F0-9]{40}$/.test(val),
   { message: 'Invalid Ethereum address format' }
+).refine(
+  (val) => isValidEthereumAddress(val),
+  { message: 'Ethereum address checksum does not match. Check the address for typos.' }
 )
 
-export const amountSchema = z.string().refine(
-  (val) => {
-    const num = parseFloat(val)
-    return !isNaN(num) && num > 0
-  },
+// Token amount in display units, e.g. INJ; must be exactly representable in base units
+export const tokenAmountSchema = (decimals: number = 18) => z.string().trim().refine(
+  (val) => /^(\d+\.?\d*|\.\d+)$/.test(val),
+  { message: 'Amount must be a positive number', abort: true }
+).refine(
+  (val) => (val.split('.')[1] ?? '').replace(/0+$/, '').length <= decimals,
+  { message: `Amount cannot have more than ${decimals} decimal places`, abort: true }
+).refine(
+  (val) => BigInt(parseTokenAmount(val, decimals)) > 0n,
   { message: 'Amount must be a positive number' }
 )
 
+export const amountSchema = tokenAmountSchema()
+
 export const commissionRateSchema = z.string().refine(
   (val) => {
     const num = parseFloat(val)
@@ -56,6 +72,20 @@ export const orchestratorRegistrationSchema = z.object({
   validatorAddress: validatorOperatorAddressSchema,
   orchestratorAddress: injectiveAddressSchema,
   ethereumAddress: ethereumAddressSchema,
+  // Peggo usually signs claims and Ethereum messages with one key, so both addresses are the same account
+  separateEthereumKey: z.boolean().optional(),
+}).superRefine((data, ctx) => {
+  if (!isValidInjectiveAddress(data.orchestratorAddress) || !/^0x[a-fA-F0-9]{40}$/.test(data.ethereumAddress)) {
+    return
+  }
+  if (!data.separateEthereumKey && !isSameAccount(data.orchestratorAddress, data.ethereumAddress)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['ethereumAddress'],
+      message: `Does not match the orchestrator account (${toEthereumAddress(data.orchestratorAddress)}). `
+        + 'Check both addresses, or confirm that the orchestrator uses a separate Ethereum key.',
+    })
+  }
 })
 
 export const validatorEditSchema = z.object({
@@ -72,7 +102,128 @@ export const delegationSchema = z.object({
   amount: amountSchema,
 })
 
+export const sendSchema = z.object({
+  recipientAddress: injectiveAddressSchema,
+  amount: amountSchema,
+})
+
+export const redelegationSchema = z.object({
+  sourceValidatorAddress: validatorOperatorAddressSchema,
+  destinationValidatorAddress: validatorOperatorAddressSchema,
+  amount: amountSchema,
+}).refine(
+  (data) => data.sourceValidatorAddress !== data.destinationValidatorAddress,
+  { message: 'Source and destination validator must differ', path: ['destinationValidatorAddress'] }
+)
+
+const votePercentSchema = z.string().refine(
+  (val) => {
+    const num = val === '' ? 0 : parseFloat(val)
+    return !isNaN(num) && num >= 0 && num <= 100
+  },
+  { message: 'Weight must be between 0 and 100%' }
+)
+
+export const weightedVoteSchema = z.object({
+  yes: votePercentSchema,
+  abstain: votePercentSchema,
+  no: votePercentSchema,
+  noWithVeto: votePercentSchema,
+}).refine(
+  (data) => {
+    // Compare in hundredths of a percent to avoid floating point drift
+    const total = Object.values(data).reduce((sum, val) => sum + Math.round((parseFloat(val) || 0) * 100), 0)
+    return total === 10000
+  },
+  { message: 'Weights must add up to 100%', path: ['yes'] }
+)
+
+/**
+ * Addresses separated by commas, spaces or new lines
+ */
+export function splitAddressList(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean)
+}
+
+export const authzGrantSchema = z.object({
+  grantee: injectiveAddressSchema,
+  msgTypeUrls: z.array(z.string()),
+  // Generic authorization for any other message type
+  customMsgTypeUrl: z.string().trim().refine(
+    (val) => val === '' || /^\/[a-zA-Z0-9_.]+\.Msg[a-zA-Z0-9]+$/.test(val),
+    { message: 'Invalid message type URL (e.g. /cosmos.staking.v1beta1.MsgDelegate)' }
+  ),
+  // StakeAuthorization type, '' for none; limited to the listed validators and optionally a max amount
+  stakeAuthorizationType: z.string(),
+  stakeValidators: z.string(),
+  stakeMaxTokens: z.string().trim(),
+  expiration: z.string().refine(
+    (val) => val === '' || Date.parse(val) > Date.now(),
+    { message: 'Expiration must be in the future' }
+  ),
+}).refine(
+  (data) => data.msgTypeUrls.length > 0 || data.customMsgTypeUrl !== '' || data.stakeAuthorizationType !== '',
+  { message: 'Select at least one authorization', path: ['msgTypeUrls'] }
+).superRefine((data, ctx) => {
+  if (data.stakeAuthorizationType === '') {
+    return
+  }
+  const validators = splitAddressList(data.stakeValidators)
+  if (validators.length === 0) {
+    ctx.addIssue({ code: 'custom', path: ['stakeValidators'], message: 'Allow at least one validator' })
+  }
+  const invalid = validators.find((address) => !isValidValidatorOperatorAddress(address))
+  if (invalid) {
+    ctx.addIssue({ code: 'custom', path: ['stakeValidators'], message: `Invalid validator operator address: ${invalid}` })
+  }
+  if (data.stakeMaxTokens !== '') {
+    const result = amountSchema.safeParse(data.stakeMaxTokens)
+    if (!result.success) {
+      ctx.addIssue({ code: 'custom', path: ['stakeMaxTokens'], message: result.error.issues[0].message })
+    }
+  }
+})
+
+const positiveIntegerSchema = (message: string) => z.string().trim().refine(
+  (val) => /^\d+$/.test(val) && BigInt(val) > 0n,
+  { message }
+)
+
+export const feeSchema = z.object({
+  tier: z.enum(['low', 'average', 'high', 'custom']),
+  // inj per gas unit, only used by the custom tier
+  customGasPrice: z.string().trim(),
+  gasLimit: positiveIntegerSchema('Gas limit must be a positive whole number'),
+}).superRefine((data, ctx) => {
+  if (data.tier === 'custom' && !positiveIntegerSchema('').safeParse(data.customGasPrice).success) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['customGasPrice'],
+      message: 'Gas price must be a positive whole number of inj per gas unit',
+    })
+  }
+})
+
+export const offlineAccountSchema = z.object({
+  address: injectiveAddressSchema,
+})
+
+export const customNetworkSchema = z.object({
+  name: z.string().trim().min(1, 'Network name is required'),
+  chainId: z.string().trim().regex(/^[a-zA-Z0-9_-]+$/, 'Invalid chain ID'),
+  rpc: z.string().url('Invalid RPC URL'),
+  rest: z.string().url('Invalid REST URL'),
+  explorer: z.string().url('Invalid explorer URL').optional().or(z.literal('')),
+})
+
 export type ValidatorRegistrationFormData = z.infer<typeof validatorRegistrationSchema>
 export type OrchestratorRegistrationFormData = z.infer<typeof orchestratorRegistrationSchema>
 export type ValidatorEditFormData = z.infer<typeof validatorEditSchema>
 export type DelegationFormData = z.infer<typeof delegationSchema>
+export type SendFormData = z.infer<typeof sendSchema>
+export type RedelegationFormData = z.infer<typeof redelegationSchema>
+export type WeightedVoteFormData = z.infer<typeof weightedVoteSchema>
+export type AuthzGrantFormData = z.infer<typeof authzGrantSchema>
+export type CustomNetworkFormData = z.infer<typeof customNetworkSchema>
+export type FeeFormData = z.infer<typeof feeSchema>
+export type OfflineAccountFormData = z.infer<typeof offlineAccountSchema>